@@ -10,6 +10,10 @@ const urlsToCache = [
   '/favicon.ico'
 ];
 
+// WASM engines copied into public/ at build time (scripts/copy-offline-assets.js):
+// cached the first time they load so the offline fallbacks work without a network
+const RUNTIME_CACHE_PATHS = ['/ocr/', '/wasm/'];
+
 // Install a service worker
 self.addEventListener('install', event => {
   console.log('[SW] Installing Service Worker...');
@@ -35,7 +39,17 @@ self.addEventListener('fetch', event => {
         if (response) {
           return response;
         }
-        return fetch(event.request);
+        const path = new URL(event.request.url).pathname;
+        if (!RUNTIME_CACHE_PATHS.some(prefix => path.startsWith(prefix))) {
+          return fetch(event.request);
+        }
+        return fetch(event.request).then(networkResponse => {
+          if (networkResponse.ok) {
+            const copy = networkResponse.clone();
+            caches.open(CACHE_NAME).then(cache => cache.put(event.request, copy));
+          }
+          return networkResponse;
+        });
       })
   );
 });
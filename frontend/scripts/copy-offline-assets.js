@@ -0,0 +1,26 @@
+// Copy the WASM engines the app loads at runtime into public/, so they are
+// served (and cached by the service worker) from our own origin instead of a
+// CDN. Runs before `npm start` and `npm run build`.
+const fs = require('fs');
+const path = require('path');
+
+const root = path.join(__dirname, '..');
+const modules = path.join(root, 'node_modules');
+
+const ASSETS = [
+  // In-browser OCR (src/services/localOcr.ts): worker, LSTM cores, English data
+  { from: 'tesseract.js/dist/worker.min.js', to: 'ocr/worker.min.js' },
+  { from: 'tesseract.js-core/tesseract-core-lstm.wasm.js', to: 'ocr/tesseract-core-lstm.wasm.js' },
+  { from: 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js', to: 'ocr/tesseract-core-simd-lstm.wasm.js' },
+  { from: '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz', to: 'ocr/eng.traineddata.gz' },
+  // Barcode reader fallback (src/services/barcodeService.ts)
+  { from: 'zxing-wasm/dist/reader/zxing_reader.wasm', to: 'wasm/zxing_reader.wasm' }
+];
+
+for (const { from, to } of ASSETS) {
+  const source = path.join(modules, from);
+  const target = path.join(root, 'public', to);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.copyFileSync(source, target);
+}
+console.log(`Copied ${ASSETS.length} offline assets into public/`);
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import './App.css';
 import Navbar from './components/Navbar';
 import NewSessionCard from './components/NewSessionCard';
@@ -7,19 +7,40 @@ import ItemDetail from './components/ItemDetail';
 import BatchHistory from './components/BatchHistory';
 import CameraCapture from './components/CameraCapture';
 import ImageProgressList, { ItemStatus } from './components/ImageProgressList';
+import DuplicateReviewList from './components/DuplicateReviewList';
+import PhotoGroupReview from './components/PhotoGroupReview';
+import PromptSettings from './components/PromptSettings';
+import UsageDashboard from './components/UsageDashboard';
 
 // Self-Contained Services
-import { initDB, saveBatch, saveItem, getBatches, getBatchItems, updateItem, deleteItem, getIncompleteBatches, findByImageHash, addToInventory, updateInventoryItem, getAllInventory, InventoryItem, getLatestItemByHash } from './services/db';
-import { analyzeImage, AIKeys, AIProvider } from './services/aiService';
+import { initDB, saveBatch, getBatches, getBatchItems, updateItem, deleteItem, getIncompleteBatches, getBatch, saveItem, findByImageHash, addToInventory, updateInventoryItem, getAllInventory, InventoryItem, getLatestItemByHash, getPendingDuplicateCount, getReidentifyCount, getAICalls, BatchRecord, ItemRecord } from './services/db';
+import { analyzeImage, AIKeys, AIProvider, AIResult, AIProviderSettings, CategorySelection, TextExtractionMode } from './services/aiService';
+import { AI_PROVIDERS, PROVIDER_IDS, ProviderSettings } from './services/aiProviders';
+import { listProviderModels } from './services/modelDiscovery';
+import { canProxy, saveServerKey } from './services/aiProxy';
+import { isFirebaseConfigured } from './services/firebase';
 import { SystemValidator, TestResult } from './services/testRunner';
-import { computeImageHash, generateThumbnail } from './services/imageHash';
-import { extractPhotoMetadata, extractFromBuffer } from './services/metadataService';
+import { Era, parseEra, compareEras } from './services/era';
+import { DuplicateAction, DuplicateReviewEntry, getDuplicateReviewQueue, resolveDuplicateReview } from './services/duplicateReview';
+import { CapturedPhoto } from './services/itemPhotos';
+import { proposePhotoGroups } from './services/photoGrouping';
+import { keysFingerprint, runReidentifyQueue } from './services/reidentifyQueue';
+import { detectBarcodes } from './services/barcodeService';
+import { BarcodeLookupMode, ReferenceFile, catalogAdapterFor, createReferenceAdapter, lookupCatalog } from './services/catalogLookup';
+import { EMPTY_PROMPT_STORE, PromptConfigDraft, PromptConfigStore, activePromptConfig, addPromptVersion, mergePromptConfigs, promptVersionOf } from './services/promptConfig';
+import { preprocessImage } from './services/imagePreprocessor';
+import { DEFAULT_REVIEW_THRESHOLD } from './services/fieldConfidence';
+import { MAX_CONSENSUS_PROVIDERS } from './services/consensus';
+import { AICallRecord, DEFAULT_PRICE_TABLE, ModelPrice, getMonthSpend, recordAICalls } from './services/usageLedger';
+import { RoutingPolicyId, loadProviderStats, planRoute } from './services/routingPolicy';
+import { DEFAULT_EXPERT_ESCALATION, ExpertEscalation } from './services/expertReview';
 
 // Firebase & Cloud Sync
 import { useAuth } from './contexts/AuthContext';
 import { 
   saveUserSettings, 
   loadUserSettings, 
+  clearCloudApiKeys,
   syncBatchToCloud, 
   syncItemToCloud, 
   syncInventoryToCloud,
@@ -29,6 +50,7 @@ import {
   retryConnection
 } from './services/firestoreSync';
 import { uploadToQueue, waitForItem, isServerProcessingAvailable } from './services/serverQueue';
+import { BatchPipeline, PipelineImage } from './services/batchPipeline';
 
 interface BatchSummary {
   batch_id: string;
@@ -37,13 +59,32 @@ interface BatchSummary {
   processed: number;
   failed: number;
   created_at: string;
+  status?: BatchRecord['status'];
 }
 
 
 
-type ViewType = 'home' | 'history' | 'inventory' | 'settings' | 'progress';
+// Images identified in parallel during a batch (provider rate limits still apply)
+const DEFAULT_BATCH_CONCURRENCY = 3;
+const MAX_BATCH_CONCURRENCY = 8;
+
+const DUPLICATE_ACTION_TOASTS: Record<DuplicateAction, string> = {
+  merge: '🔗 Merged into inventory',
+  separate: '✂️ Kept as a separate item',
+  replace: '🖼️ New photo is now the inventory image'
+};
+
+type ViewType = 'home' | 'history' | 'inventory' | 'duplicates' | 'settings' | 'progress';
 type InventorySortOption = 'created_at-desc' | 'created_at-asc' | 'title-asc' | 'title-desc' | 'year-asc' | 'year-desc' | 'box_id-asc' | 'box_id-desc';
 
+// Stored era if present, otherwise parse the free-text year on the fly
+const eraOf = (item: { year?: string; era?: Era }): Era | null => item.era || parseEra(item.year);
+
+// CSV columns for the structured era: year_start, year_end, year_circa
+const eraCSVColumns = (era: Era | null): string[] => era
+  ? [String(era.start), String(era.end), era.circa ? 'yes' : 'no']
+  : ['', '', ''];
+
 // Helper to get type-specific placeholder images
 const getPlaceholderForType = (type?: string): string => {
   const typeMap: Record<string, string> = {
@@ -75,19 +116,65 @@ function App() {
   const [showMenu, setShowMenu] = useState(false);
   
   // ========== AI KEYS STATE ==========
-  const [aiKeys, setAiKeys] = useState<AIKeys>({
-    openai: localStorage.getItem('ai_key_openai') || process.env.REACT_APP_OPENAI_API_KEY || '',
-    gemini: localStorage.getItem('ai_key_gemini') || process.env.REACT_APP_GEMINI_API_KEY || '',
-    claude: localStorage.getItem('ai_key_claude') || process.env.REACT_APP_CLAUDE_API_KEY || ''
+  const [aiKeys, setAiKeys] = useState<AIKeys>(() => Object.fromEntries(
+    PROVIDER_IDS.map(id => [id, localStorage.getItem(`ai_key_${id}`) || AI_PROVIDERS[id].defaultKey || ''])
+  ));
+  const [providerSettings, setProviderSettings] = useState<AIProviderSettings>(
+    JSON.parse(localStorage.getItem('ai_provider_settings') || '{}')
+  );
+  const [providerModels, setProviderModels] = useState<Partial<Record<AIProvider, string[]>>>({});
+  const [promptConfigs, setPromptConfigs] = useState<PromptConfigStore>(
+    JSON.parse(localStorage.getItem('prompt_configs') || 'null') || EMPTY_PROMPT_STORE
+  );
+  const activePrompt = activePromptConfig(promptConfigs);
+  // Read when the cloud copy is merged in, which happens once per sign-in
+  const promptConfigsRef = useRef(promptConfigs);
+  promptConfigsRef.current = promptConfigs;
+  const [batchConcurrency, setBatchConcurrency] = useState<number>(
+    parseInt(localStorage.getItem('batch_concurrency') || '', 10) || DEFAULT_BATCH_CONCURRENCY
+  );
+  const [reviewThreshold, setReviewThreshold] = useState<number>(() => {
+    const stored = parseInt(localStorage.getItem('review_threshold') || '', 10);
+    return isNaN(stored) ? DEFAULT_REVIEW_THRESHOLD : stored;
   });
+  const [priceTable, setPriceTable] = useState<ModelPrice[]>(
+    JSON.parse(localStorage.getItem('ai_price_table') || 'null') || DEFAULT_PRICE_TABLE
+  );
+  const [monthlyBudget, setMonthlyBudget] = useState<number>(parseFloat(localStorage.getItem('monthly_budget') || '') || 0);
+  // Read by a running pipeline, so a budget raised while it is paused applies on Resume
+  const monthlyBudgetRef = useRef(monthlyBudget);
+  monthlyBudgetRef.current = monthlyBudget;
+  const [expertEscalation, setExpertEscalation] = useState<ExpertEscalation>(
+    JSON.parse(localStorage.getItem('expert_escalation') || 'null') || DEFAULT_EXPERT_ESCALATION
+  );
+  const [textExtractionMode, setTextExtractionMode] = useState<TextExtractionMode>(
+    (localStorage.getItem('text_extraction_mode') as TextExtractionMode) || 'off'
+  );
+  const [barcodeLookup, setBarcodeLookup] = useState<BarcodeLookupMode>(
+    (localStorage.getItem('barcode_lookup') as BarcodeLookupMode) || 'detect'
+  );
+  const [catalogReference, setCatalogReference] = useState<ReferenceFile | null>(
+    JSON.parse(localStorage.getItem('catalog_reference') || 'null')
+  );
+  const catalogAdapter = useMemo(() => catalogAdapterFor(barcodeLookup, catalogReference), [barcodeLookup, catalogReference]);
   const [keysLoadedFromCloud, setKeysLoadedFromCloud] = useState(false);
 
   // ========== CORE STATE ==========
   const [boxId, setBoxId] = useState(localStorage.getItem('boxId') || '');
   const [files, setFiles] = useState<File[]>([]);
+  const [autoGroupUploads, setAutoGroupUploads] = useState(localStorage.getItem('auto_group_uploads') === 'true');
+  const [consensusMode, setConsensusMode] = useState(localStorage.getItem('consensus_mode') === 'true');
+  const [consensusSize, setConsensusSize] = useState<number>(parseInt(localStorage.getItem('consensus_size') || '', 10) || 2);
+  const [routingPolicy, setRoutingPolicy] = useState<RoutingPolicyId>((localStorage.getItem('routing_policy') as RoutingPolicyId) || 'priority');
+  const [batchCategory, setBatchCategory] = useState<CategorySelection>((localStorage.getItem('batch_category') as CategorySelection) || 'general');
+  const [proposedGroups, setProposedGroups] = useState<CapturedPhoto[][] | null>(null);
+  const [groupingPhotos, setGroupingPhotos] = useState(false);
   const [processing, setProcessing] = useState(false);
-  const [progress, setProgress] = useState({ current: 0, total: 0, currentFilename: '' });
+  const [progress, setProgress] = useState({ current: 0, total: 0, currentFilename: '', startedFrom: 0 });
   const [processingQueue, setProcessingQueue] = useState<ItemStatus[]>([]);
+  const [batchPaused, setBatchPaused] = useState(false);
+  const pipelineRef = useRef<BatchPipeline | null>(null);
+  const cancelRef = useRef<AbortController | null>(null);
   const [items, setItems] = useState<CatalogItem[]>([]);
   const [batches, setBatches] = useState<BatchSummary[]>([]);
   const [devNotes, setDevNotes] = useState(localStorage.getItem('dev_notes') || '');
@@ -96,11 +183,10 @@ function App() {
   const [appStatus, setAppStatus] = useState<'initializing' | 'syncing' | 'ready' | 'error'>('initializing');
 
   // ========== AI USAGE TRACKING ==========
-  const [aiUsage, setAiUsage] = useState({
-    gemini: parseInt(localStorage.getItem('usage_gemini') || '0'),
-    openai: parseInt(localStorage.getItem('usage_openai') || '0'),
-    claude: parseInt(localStorage.getItem('usage_claude') || '0')
-  });
+  const [aiUsage, setAiUsage] = useState<Record<AIProvider, number>>(() => Object.fromEntries(
+    PROVIDER_IDS.map(id => [id, parseInt(localStorage.getItem(`usage_${id}`) || '0')])
+  ) as Record<AIProvider, number>);
+  const [usageRecords, setUsageRecords] = useState<AICallRecord[]>([]);
 
   const [batchStartTime, setBatchStartTime] = useState<Date | null>(null);
   const [testResults, setTestResults] = useState<TestResult[] | null>(null);
@@ -111,7 +197,14 @@ function App() {
   const [isDbInitialized, setIsDbInitialized] = useState(false);
   const [dbError, setDbError] = useState(false);
   const [inventoryLastDate, setInventoryLastDate] = useState<string | undefined>(undefined);
+  const [inventoryLoaded, setInventoryLoaded] = useState(0); // Next page's offset for in-memory sorts
   const [inventorySort, setInventorySort] = useState<InventorySortOption>('created_at-desc');
+  const [showNeedsReview, setShowNeedsReview] = useState(false);
+  const [inventoryEraFilter, setInventoryEraFilter] = useState('');
+  const [duplicateReviews, setDuplicateReviews] = useState<DuplicateReviewEntry[]>([]);
+  const [pendingDuplicateCount, setPendingDuplicateCount] = useState(0);
+  const [reidentifyCount, setReidentifyCount] = useState(0);
+  const reidentifyingRef = useRef(false);
 
   // Helper to show a toast
   const showToast = useCallback((message: string, duration = 3000) => {
@@ -140,6 +233,7 @@ function App() {
         processed: b.processed,
         failed: b.failed,
         created_at: b.created_at,
+        status: b.status,
         thumbnail: firstItem ? (typeof firstItem.image_data === 'string' ? firstItem.image_data : undefined) : undefined
       };
     }));
@@ -148,7 +242,7 @@ function App() {
     // Auto-load recent items for Home Screen (if empty)
     if (batchesWithThumbs.length > 0 && items.length === 0) {
       const latestBatchId = batchesWithThumbs[0].batch_id;
-      const batchItems = await getBatchItems(latestBatchId);
+      const batchItems = (await getBatchItems(latestBatchId)).filter(item => item.status === 'completed');
       setItems(batchItems.map(item => ({
         id: item.id,
         batch_id: item.batch_id,
@@ -157,6 +251,7 @@ function App() {
         title: item.title,
         type: item.type,
         year: item.year,
+        era: item.era,
         notes: item.notes,
         confidence: item.confidence,
         processed_at: item.processed_at,
@@ -170,9 +265,13 @@ function App() {
   const loadInventory = useCallback(async (reset = true) => {
     const limit = 50;
     const lastDate = reset ? undefined : inventoryLastDate;
+    const offset = reset ? 0 : inventoryLoaded;
+    // Era filter accepts anything parseEra understands: "1930-1949", "1950s", "19th century"
+    const filterEra = parseEra(inventoryEraFilter);
+    const eraRange = filterEra ? { from: filterEra.start, to: filterEra.end } : undefined;
     
     // Pass sort option to DB
-    const newItems = await getAllInventory(limit, lastDate, inventorySort);
+    const newItems = await getAllInventory(limit, lastDate, inventorySort, eraRange, offset);
     
     if (reset) {
       setInventory(newItems);
@@ -184,13 +283,30 @@ function App() {
       const lastItem = newItems[newItems.length - 1];
       setInventoryLastDate(lastItem.last_seen);
     }
-  }, [inventoryLastDate, inventorySort]);
+    setInventoryLoaded(offset + newItems.length);
+  }, [inventoryLastDate, inventoryLoaded, inventorySort, inventoryEraFilter]);
+
+  const refreshDuplicateCount = useCallback(async () => {
+    setPendingDuplicateCount(await getPendingDuplicateCount());
+  }, []);
+
+  const refreshReidentifyCount = useCallback(async () => {
+    setReidentifyCount(await getReidentifyCount());
+  }, []);
+
+  const loadDuplicateReviews = useCallback(async () => {
+    const entries = await getDuplicateReviewQueue();
+    setDuplicateReviews(entries);
+    setPendingDuplicateCount(entries.length);
+  }, []);
+
+  const loadUsageRecords = useCallback(async () => {
+    setUsageRecords(await getAICalls());
+  }, []);
 
   // Keep usage in sync with localStorage
   useEffect(() => {
-    localStorage.setItem('usage_gemini', aiUsage.gemini.toString());
-    localStorage.setItem('usage_openai', aiUsage.openai.toString());
-    localStorage.setItem('usage_claude', aiUsage.claude.toString());
+    PROVIDER_IDS.forEach(id => localStorage.setItem(`usage_${id}`, aiUsage[id].toString()));
   }, [aiUsage]);
 
   // UX Hardening: Back Button Trap
@@ -322,10 +438,19 @@ function App() {
     }
   };
 
-  const incrementUsage = (provider: AIProvider) => {
+  // Counts the provider that actually answered (analyzeImage tags it in raw_metadata)
+  const incrementUsage = (provider?: AIProvider) => {
+    if (!provider || !(provider in AI_PROVIDERS)) return;
     setAiUsage(prev => ({ ...prev, [provider]: prev[provider] + 1 }));
   };
 
+  // Price and store the requests behind an answer; the per-provider counters
+  // count the identification requests that were answered
+  const recordUsage = (result: AIResult, context: { batch_id?: string; box_id?: string } = {}) => {
+    (result.usage || []).filter(call => call.ok && call.purpose === 'identify').forEach(call => incrementUsage(call.provider as AIProvider));
+    recordAICalls(result.usage, priceTable, context).catch(err => console.error('Failed to record AI usage:', err));
+  };
+
 
 
 
@@ -334,7 +459,8 @@ function App() {
 
 
   const loadBatch = async (batchId: string) => {
-    const batchItems = await getBatchItems(batchId);
+    // Pending / skipped / failed records have no identification to show
+    const batchItems = (await getBatchItems(batchId)).filter(item => item.status === 'completed');
     setItems(batchItems.map(item => ({
       id: item.id,
       batch_id: item.batch_id,
@@ -343,6 +469,7 @@ function App() {
       title: item.title,
       type: item.type,
       year: item.year,
+      era: item.era,
       notes: item.notes,
       confidence: item.confidence,
       processed_at: item.processed_at,
@@ -373,6 +500,7 @@ function App() {
         title: item.title,
         type: item.type,
         year: item.year,
+        era: item.era,
         notes: item.notes,
         confidence: item.confidence,
         processed_at: item.last_seen,
@@ -398,6 +526,8 @@ function App() {
         setIsDbInitialized(true); // Signal that DB is safe to use
         setStatusMessage('Loading history...');
         await loadBatchHistory();
+        refreshDuplicateCount();
+        refreshReidentifyCount();
         
         // Initial Check for incomplete batches
         const incomplete = await getIncompleteBatches();
@@ -430,7 +560,7 @@ function App() {
       }
     };
     boot();
-  }, [loadBatchHistory, user]);
+  }, [loadBatchHistory, refreshDuplicateCount, refreshReidentifyCount, user]);
 
   // ========== CLOUD SYNC: LOAD SETTINGS & CLOUD DATA ==========
   useEffect(() => {
@@ -443,14 +573,39 @@ function App() {
         setAppStatus('syncing');
         setStatusMessage('Syncing with cloud...');
         
-        // 1. Sync Settings (API Keys)
+        // 1. Sync Settings. Keys synced in plaintext by older versions fill
+        // in providers this device has no key for (a local key may be newer)
+        // and are then removed from the cloud.
         const cloudSettings = await loadUserSettings(user.uid);
         if (cloudSettings?.apiKeys) {
-          setAiKeys(prev => ({ ...prev, ...cloudSettings.apiKeys }));
-          Object.entries(cloudSettings.apiKeys).forEach(([provider, val]) => {
-            if (val) localStorage.setItem(`ai_key_${provider}`, val);
+          setAiKeys(prev => {
+            const next = { ...prev };
+            for (const [provider, val] of Object.entries(cloudSettings.apiKeys!) as Array<[AIProvider, string]>) {
+              if (!val || next[provider]) continue;
+              next[provider] = val;
+              localStorage.setItem(`ai_key_${provider}`, val);
+            }
+            return next;
+          });
+          clearCloudApiKeys(user.uid).catch(err => console.warn('Failed to remove synced API keys:', err));
+        }
+        if (cloudSettings?.providerSettings) {
+          setProviderSettings(prev => {
+            const merged = { ...prev, ...cloudSettings.providerSettings };
+            localStorage.setItem('ai_provider_settings', JSON.stringify(merged));
+            return merged;
           });
         }
+        if (cloudSettings?.promptConfigs || promptConfigsRef.current.versions.length > 0) {
+          // Saved back too, so versions made on this device reach the others
+          const cloudPrompts = cloudSettings?.promptConfigs || EMPTY_PROMPT_STORE;
+          const merged = mergePromptConfigs(promptConfigsRef.current, cloudPrompts);
+          setPromptConfigs(merged);
+          localStorage.setItem('prompt_configs', JSON.stringify(merged));
+          if (JSON.stringify(merged) !== JSON.stringify(cloudPrompts)) {
+            saveUserSettings(user.uid, { promptConfigs: merged }).catch(err => console.warn('Failed to sync prompt versions:', err));
+          }
+        }
         if (cloudSettings?.dev_notes) {
             setDevNotes(cloudSettings.dev_notes);
             localStorage.setItem('dev_notes', cloudSettings.dev_notes);
@@ -517,8 +672,10 @@ function App() {
   useEffect(() => {
     if (currentView === 'history') loadBatchHistory();
     if (currentView === 'inventory') loadInventory(true);
+    if (currentView === 'duplicates') loadDuplicateReviews();
+    if (currentView === 'settings') loadUsageRecords().catch(err => console.error('Failed to load AI usage:', err));
     if (currentView === 'home') loadBatchHistory(); // Load recent items for dashboard
-  }, [currentView, inventorySort, loadBatchHistory, loadInventory]);
+  }, [currentView, inventorySort, loadBatchHistory, loadInventory, loadDuplicateReviews, loadUsageRecords]);
 
   // Save boxId to localStorage
   useEffect(() => {
@@ -526,239 +683,264 @@ function App() {
   }, [boxId]);
 
 
-  const processBatch = async (overrideFiles?: File[], overrideBoxId?: string) => {
+  // ========== BATCH PIPELINE ==========
+  // processBatch, resumeBatch and handleRetryAI all drive the same engine;
+  // they differ only in what they feed it and which events they render.
+  const createPipeline = (useServerQueue: boolean) => new BatchPipeline({
+    identify: async (aiImage, extraImages, { category, consensus, routing, batch_id, box_id, catalog, signal } = {}) => {
+      const budget = monthlyBudgetRef.current;
+      const decision = routing && routing !== 'priority'
+        ? planRoute(routing, PROVIDER_IDS, await loadProviderStats(), { monthly: budget, spent: budget > 0 ? await getMonthSpend() : 0 })
+        : null;
+      const aiData = await analyzeImage(aiImage, aiKeys, {
+        priority: decision?.route,
+        providerSettings,
+        imageIsPrepared: true,
+        extraImages,
+        textExtraction: textExtractionMode,
+        category,
+        promptConfig: activePrompt,
+        consensus,
+        escalateBelow: decision?.escalate_below,
+        expert: expertEscalation,
+        catalog,
+        signal
+      });
+      recordUsage(aiData, { batch_id, box_id });
+      if (!decision) return aiData;
+      return {
+        ...aiData,
+        raw_metadata: { ...(aiData.raw_metadata || {}), routing: { ...decision, answered_by: aiData.raw_metadata?.ai_provider } }
+      };
+    },
+    overBudget: async () => monthlyBudgetRef.current > 0 && (await getMonthSpend()) >= monthlyBudgetRef.current,
+    detectBarcodes: barcodeLookup !== 'off' ? detectBarcodes : undefined,
+    reviewThreshold,
+    lookupCatalog: catalogAdapter ? codes => lookupCatalog(codes, catalogAdapter) : undefined,
+    // Server-side processing survives tab close; the pipeline stops using it
+    // for the rest of the run after the first miss
+    identifyOnServer: useServerQueue && user && isServerProcessingAvailable(user.uid)
+      ? async (aiImage, image, batch) => {
+          // The server runs the built-in prompt on one provider, without category fields
+          if (!batch || (batch.category && batch.category !== 'general') || batch.consensus || batch.routing_policy || activePrompt.version !== 0) return null;
+          console.log('🌐 Attempting server-side processing...');
+          const queueItemId = await uploadToQueue(user.uid, batch.batch_id, image.filename, batch.box_id, aiImage);
+          const serverResult = await waitForItem(user.uid, queueItemId, 30000); // 30s timeout for first
+          if (!serverResult) {
+            showToast('📱 Server busy, using local AI');
+            return null;
+          }
+          return { ...serverResult, raw_metadata: serverResult.raw_metadata || {} };
+        }
+      : undefined,
+    sync: user ? {
+      batch: batch => syncBatchToCloud(user.uid, batch),
+      item: item => syncItemToCloud(user.uid, item),
+      inventory: inventoryItem => syncInventoryToCloud(user.uid, inventoryItem)
+    } : undefined
+  });
+
+  const toDataUrl = (data: Blob | string) => typeof data === 'string' ? `data:image/jpeg;base64,${data}` : undefined;
+
+  const toCatalogItem = (record: ItemRecord): CatalogItem => ({
+    ...record,
+    image_data: toDataUrl(record.image_data),
+    extra_photos: record.extra_photos?.map(photo => ({ ...photo, image_data: toDataUrl(photo.image_data) || '' }))
+  });
+
+  // Mirror pipeline events into the progress view
+  const trackPipeline = (pipeline: BatchPipeline, showResults: boolean) => pipeline.subscribe(event => {
+    switch (event.type) {
+      case 'item-started':
+        setProgress(prev => ({ ...prev, currentFilename: event.image.filename }));
+        setProcessingQueue(prev => prev.map(p => p.id === event.image.id ? { ...p, status: 'processing' } : p));
+        break;
+      case 'item-deduped':
+        showToast(event.confirmed
+          ? `♻️ Duplicate: "${event.existing.title}" already in inventory`
+          : `♻️ Possible duplicate of "${event.existing.title}" — added to review`);
+        break;
+      case 'item-possible-match': {
+        const best = event.candidates[0];
+        showToast(`🔍 Possible match: "${best.title}" (${Math.round(best.score * 100)}%)`);
+        break;
+      }
+      case 'item-identified':
+        console.log(event.source === 'server' ? '✅ Used server-side result' : '📱 Used local AI processing');
+        break;
+      case 'item-saved':
+        if (showResults) setItems(prev => [...prev, toCatalogItem(event.item)]);
+        setProcessingQueue(prev => prev.map(p => p.id === event.image.id ? { ...p, status: 'completed' } : p));
+        setProgress(prev => ({ ...prev, current: prev.current + 1 }));
+        break;
+      case 'item-failed':
+        setProcessingQueue(prev => prev.map(p => p.id === event.image.id ? { ...p, status: 'failed', error_message: event.error.message } : p));
+        setProgress(prev => ({ ...prev, current: prev.current + 1 }));
+        break;
+      case 'item-skipped':
+        setProcessingQueue(prev => prev.map(p => p.id === event.image.id ? { ...p, status: 'skipped' } : p));
+        setProgress(prev => ({ ...prev, current: prev.current + 1 }));
+        break;
+      case 'batch-paused':
+      case 'batch-resumed':
+        setBatchPaused(event.type === 'batch-paused');
+        break;
+      case 'budget-exceeded':
+        showToast(`💸 Monthly AI budget of $${monthlyBudgetRef.current} reached. Batch paused; raise the budget in Settings to continue.`, 6000);
+        break;
+      case 'batch-finished':
+        refreshDuplicateCount();
+        refreshReidentifyCount();
+        if (event.cancelled) showToast('⏹️ Batch cancelled. Resume it any time from Batch History.');
+        break;
+    }
+  });
+
+  // Run a batch with the pause/cancel controls wired up
+  const runControlledBatch = async (images: PipelineImage[], batch: BatchRecord, showResults: boolean) => {
+    const pipeline = createPipeline(true);
+    const controller = new AbortController();
+    pipelineRef.current = pipeline;
+    cancelRef.current = controller;
+    setBatchPaused(false);
+    const unsubscribe = trackPipeline(pipeline, showResults);
+    try {
+      await pipeline.run(images, { batch, concurrency: batchConcurrency, signal: controller.signal });
+    } finally {
+      unsubscribe();
+      pipelineRef.current = null;
+      cancelRef.current = null;
+      setBatchPaused(false);
+    }
+  };
+
+  const handlePauseBatch = () => pipelineRef.current?.pause();
+  const handleResumePausedBatch = () => pipelineRef.current?.resume();
+
+  const handleCancelBatch = () => {
+    if (!cancelRef.current) return;
+    if (!window.confirm('Cancel this batch? Images already identified are kept.')) return;
+    cancelRef.current.abort();
+  };
+
+  const handleSkipImage = (id: number) => {
+    pipelineRef.current?.skip(id);
+  };
+
+  // Reorder the visible queue too, so the list reflects what runs next
+  const handleMoveToFront = (id: number) => {
+    if (!pipelineRef.current?.moveToFront(id)) return;
+    setProcessingQueue(prev => {
+      const moved = prev.find(p => p.id === id);
+      if (!moved) return prev;
+      const rest = prev.filter(p => p.id !== id);
+      const firstPending = rest.findIndex(p => p.status === 'pending');
+      const insertAt = firstPending === -1 ? rest.length : firstPending;
+      return [...rest.slice(0, insertAt), moved, ...rest.slice(insertAt)];
+    });
+  };
+
+  const handleResolveDuplicate = async (entry: DuplicateReviewEntry, action: DuplicateAction) => {
+    try {
+      const inventoryItem = await resolveDuplicateReview(entry.review, action);
+      if (user && inventoryItem) syncInventoryToCloud(user.uid, inventoryItem);
+      showToast(DUPLICATE_ACTION_TOASTS[action]);
+    } catch (err) {
+      console.error('Failed to resolve duplicate:', err);
+      showToast('❌ Could not apply that decision');
+    }
+    await loadDuplicateReviews();
+  };
+
+  // With auto-grouping on, uploads are grouped into items and shown for
+  // review first; PhotoGroupReview then starts the batch
+  const handleStartCataloging = async () => {
+    if (!autoGroupUploads || files.length < 2) {
+      processBatch();
+      return;
+    }
+    setGroupingPhotos(true);
+    showToast(`Grouping ${files.length} photos...`);
+    try {
+      setProposedGroups(await proposePhotoGroups(files));
+    } catch (err) {
+      console.error('Photo grouping failed:', err);
+      showToast('Could not group photos, identifying them one by one');
+      processBatch();
+    } finally {
+      setGroupingPhotos(false);
+    }
+  };
+
+  // `photoGroups` (from the camera or the upload grouping review) bundles
+  // several shots into one item; the first photo of each group is the front
+  const processBatch = async (overrideFiles?: File[], overrideBoxId?: string, photoGroups?: CapturedPhoto[][]) => {
     const filesToProcess = overrideFiles || (files.length > 0 ? files : []);
     const targetBoxId = overrideBoxId || boxId || 'Uncategorized';
+    const groups = photoGroups || filesToProcess.map(file => [{ file, role: 'front' as const }]);
 
-    if (!filesToProcess || filesToProcess.length === 0) {
+    if (groups.length === 0) {
       console.warn("processBatch called with no files.");
       return;
     }
     
-    const totalFiles = filesToProcess.length;
-    const batchId = `local-${Date.now()}`;
+    const totalFiles = groups.length;
     const startTime = new Date();
-    
-    setProcessing(true);
-    setCurrentView('progress');
-    setItems([]); 
-    setBatchStartTime(startTime);
-    setProgress({ current: 0, total: totalFiles, currentFilename: '' });
-    
-    const initialQueue: ItemStatus[] = filesToProcess.map((f, idx) => ({
-      id: Date.now() + idx,
-      filename: f.name,
-      status: 'pending'
-    }));
-    setProcessingQueue(initialQueue);
-
-    const results: CatalogItem[] = [];
-    let serverFailedForBatch = false; // If server fails once, skip for rest of batch
-    
-    await saveBatch({
-      batch_id: batchId,
+    const batch: BatchRecord = {
+      batch_id: `local-${Date.now()}`,
       box_id: targetBoxId,
       total_images: totalFiles,
       processed: 0,
       failed: 0,
       created_at: startTime.toISOString(),
-      status: 'processing'
-    });
-
-    const DELAY_MS = 1500;
-    const processedHashesInBatch = new Map<string, any>(); 
+      status: 'processing',
+      category: batchCategory,
+      ...(consensusMode ? { consensus: consensusSize } : {}),
+      ...(routingPolicy !== 'priority' ? { routing_policy: routingPolicy } : {})
+    };
     
-    for (let i = 0; i < filesToProcess.length; i++) {
-      const file = filesToProcess[i];
-      const queueId = initialQueue[i].id;
-      
-      setProgress(prev => ({ ...prev, current: i, currentFilename: file.name }));
-      setProcessingQueue(prev => prev.map(p => p.id === queueId ? { ...p, status: 'processing' } : p));
-      
-      try {
-        const reader = new FileReader();
-        const base64Promise = new Promise<string>((resolve, reject) => {
-          reader.onload = () => resolve((reader.result as string).split(',')[1]);
-          reader.onerror = () => reject(new Error("Failed to read file"));
-          reader.readAsDataURL(file);
-        });
-        const base64Data = await base64Promise;
-        const imageHash = await computeImageHash(base64Data);
-        
-        const dbExisting = await findByImageHash(imageHash);
-        const batchExisting = processedHashesInBatch.get(imageHash);
-        const existingItem = batchExisting || dbExisting;
-        
-        let aiData: any;
-        let isDupe = false;
-        
-        if (existingItem) {
-          console.log(`Duplicate detected: ${existingItem.title}`);
-          showToast(`♻️ Duplicate: "${existingItem.title}" already in inventory`);
-          aiData = {
-            title: existingItem.title,
-            type: existingItem.type,
-            year: existingItem.year,
-            notes: `[Duplicate] ${existingItem.notes || ''}`,
-            confidence: existingItem.confidence,
-            condition_estimate: existingItem.condition_estimate || '',
-            raw_metadata: existingItem.raw_metadata || {}
-          };
-          isDupe = true;
-          
-          if (existingItem.id && !batchExisting) {
-            await updateInventoryItem(existingItem.id, {
-              last_seen: new Date().toISOString(),
-              times_scanned: (existingItem.times_scanned || 1) + 1
-            });
-          }
-        } else {
-          // NEW: Try server-side processing first (survives tab close)
-          // But skip if server already failed for this batch
-          let serverResult = null;
-          if (user && isServerProcessingAvailable(user.uid) && !serverFailedForBatch) {
-            try {
-              if (i === 0) showToast('☁️ Processing in cloud (survives tab close)');
-              console.log('🌐 Attempting server-side processing...');
-              const queueItemId = await uploadToQueue(user.uid, batchId, file.name, targetBoxId, base64Data);
-              serverResult = await waitForItem(user.uid, queueItemId, 30000); // 30s timeout for first
-              if (!serverResult) {
-                serverFailedForBatch = true; // Disable server for rest of batch
-                showToast('📱 Server busy, using local AI');
-              }
-            } catch (e) {
-              console.warn('Server processing failed, falling back to local:', e);
-              serverFailedForBatch = true; // Disable server for rest of batch
-            }
-          }
-          
-          // Use server result OR fall back to local AI
-          if (serverResult) {
-            aiData = serverResult;
-            console.log('✅ Used server-side result');
-          } else {
-            // FALLBACK: Local AI processing (always works)
-            incrementUsage(aiKeys.openai ? 'openai' : (aiKeys.gemini ? 'gemini' : 'claude'));
-            aiData = await analyzeImage(base64Data, aiKeys);
-            console.log('📱 Used local AI processing');
-          }
-          
-          const photoMeta = await extractPhotoMetadata(file);
-          const thumbnail = await generateThumbnail(`data:image/jpeg;base64,${base64Data}`);
-          
-          const inventoryData = {
-            image_hash: imageHash,
-            title: aiData.title,
-            type: aiData.type,
-            year: aiData.year || '',
-            notes: aiData.notes || '',
-            confidence: aiData.confidence,
-            first_seen: new Date().toISOString(),
-            last_seen: new Date().toISOString(),
-            times_scanned: 1,
-            thumbnail: thumbnail,
-            box_id: targetBoxId,
-            condition_estimate: aiData.condition_estimate || '',
-            raw_metadata: {
-              ...(aiData.raw_metadata || {}),
-              photo_metadata: photoMeta,
-              system_info: {
-                original_filename: file.name,
-                file_size: file.size,
-                last_modified: new Date(file.lastModified).toISOString(),
-                batch_id: batchId,
-                captured_at: new Date().toISOString()
-              }
-            }
-          };
-          await addToInventory(inventoryData);
-          processedHashesInBatch.set(imageHash, inventoryData);
-          if (user) syncInventoryToCloud(user.uid, inventoryData);
-        }
-
-        const item: CatalogItem = {
-          id: queueId,
-          batch_id: batchId,
-          filename: file.name,
-          box_id: targetBoxId,
-          title: aiData.title,
-          type: aiData.type,
-          year: aiData.year || '',
-          notes: aiData.notes || '',
-          confidence: aiData.confidence,
-          processed_at: new Date().toISOString(),
-          image_data: `data:image/jpeg;base64,${base64Data}`,
-          status: 'completed',
-          condition_estimate: aiData.condition_estimate || '',
-          raw_metadata: aiData.raw_metadata || {}
-        };
-
-        results.push(item);
-        setItems(prev => [...prev, item]);
-
-        const itemRecord = {
-          batch_id: batchId,
-          filename: file.name,
-          box_id: targetBoxId,
-          title: aiData.title,
-          type: aiData.type,
-          year: aiData.year || '',
-          notes: aiData.notes || '',
-          confidence: aiData.confidence,
-          processed_at: item.processed_at,
-          image_data: base64Data,
-          status: 'completed' as const,
-          image_hash: imageHash,
-          condition_estimate: aiData.condition_estimate || '',
-          raw_metadata: aiData.raw_metadata || {}
-        };
-        await saveItem(itemRecord);
-        if (user) syncItemToCloud(user.uid, itemRecord);
-
-        const batchUpdate = {
-          batch_id: batchId,
-          box_id: targetBoxId,
-          total_images: totalFiles,
-          processed: i + 1,
-          failed: 0,
-          created_at: startTime.toISOString(),
-          status: 'processing' as const
-        };
-        await saveBatch(batchUpdate);
-        if (user) syncBatchToCloud(user.uid, batchUpdate);
-
-        setProgress(prev => ({ ...prev, current: i + 1 }));
-        setProcessingQueue(prev => prev.map(p => p.id === queueId ? { ...p, status: 'completed' } : p));
-        
-        if (i < filesToProcess.length - 1 && !isDupe) {
-          await new Promise(resolve => setTimeout(resolve, DELAY_MS));
-        }
-
-      } catch (err: any) {
-        console.error(`Batch item error [${queueId}]:`, err);
-        setProcessingQueue(prev => prev.map(p => p.id === queueId ? { ...p, status: 'failed', error_message: err.message } : p));
-      }
+    setProcessing(true);
+    setCurrentView('progress');
+    setItems([]); 
+    setBatchStartTime(startTime);
+    setProgress({ current: 0, total: totalFiles, currentFilename: '', startedFrom: 0 });
+    
+    await saveBatch(batch);
+
+    // Store every image as a pending record up front so a paused, cancelled or
+    // interrupted batch can be resumed exactly where it stopped
+    const images: PipelineImage[] = [];
+    for (const [{ file }, ...extras] of groups) {
+      const extraPhotos = extras.map(photo => ({ role: photo.role, image_data: photo.file, filename: photo.file.name }));
+      const record: ItemRecord = {
+        batch_id: batch.batch_id,
+        filename: file.name,
+        box_id: targetBoxId,
+        title: '',
+        type: '',
+        year: '',
+        notes: '',
+        confidence: '',
+        processed_at: '',
+        image_data: file,
+        ...(extraPhotos.length > 0 ? { extra_photos: extraPhotos } : {}),
+        status: 'pending'
+      };
+      const id = await saveItem(record);
+      images.push({ id, filename: file.name, file, extraPhotos, record: { ...record, id } });
     }
+    setProcessingQueue(images.map(image => ({ id: image.id, filename: image.filename, status: 'pending' })));
 
-    const finalBatch = {
-      batch_id: batchId,
-      box_id: targetBoxId,
-      total_images: totalFiles,
-      processed: results.length,
-      failed: totalFiles - results.length,
-      created_at: startTime.toISOString(),
-      status: 'completed' as const
-    };
-    await saveBatch(finalBatch);
-    if (user) syncBatchToCloud(user.uid, finalBatch);
+    if (user && isServerProcessingAvailable(user.uid)) showToast('☁️ Processing in cloud (survives tab close)');
+    await runControlledBatch(images, batch, true);
 
     setFiles([]);
     setProcessing(false);
     loadBatchHistory();
   };
+
   const resumeBatch = async (batch: any) => {
     const batchId = batch.batch_id;
-    const targetBoxId = batch.box_id;
     const allItems = await getBatchItems(batchId);
     const pendingItems = allItems.filter(item => item.status === 'pending');
     
@@ -770,10 +952,11 @@ function App() {
       return;
     }
 
+    const alreadyDone = allItems.length - pendingItems.length;
     setProcessing(true);
     setCurrentView('progress');
     setBatchStartTime(new Date());
-    setProgress({ current: allItems.length - pendingItems.length, total: allItems.length, currentFilename: '' });
+    setProgress({ current: alreadyDone, total: allItems.length, currentFilename: '', startedFrom: alreadyDone });
     
     // Pre-populate queue with status
     const initialQueue: ItemStatus[] = allItems.map(item => ({
@@ -783,103 +966,16 @@ function App() {
     }));
     setProcessingQueue(initialQueue);
 
-    const DELAY_MS = 1500;
-
-    for (let i = 0; i < pendingItems.length; i++) {
-      const itemRecord = pendingItems[i];
-      const queueId = itemRecord.id!;
-      
-      setProgress(prev => ({ ...prev, currentFilename: itemRecord.filename }));
-      setProcessingQueue(prev => prev.map(p => p.id === queueId ? { ...p, status: 'processing' } : p));
-
-      try {
-        const base64Data = typeof itemRecord.image_data === 'string' 
-          ? itemRecord.image_data 
-          : await new Promise<string>((resolve) => {
-              const reader = new FileReader();
-              reader.onload = () => resolve((reader.result as string).split(',')[1]);
-              reader.readAsDataURL(itemRecord.image_data as Blob);
-            });
-
-        // Compute hash
-        const imageHash = await computeImageHash(base64Data);
-        
-        // Extract EXIF from blob/base64
-        let photoMeta = {};
-        try {
-          const arrayBuffer = typeof itemRecord.image_data === 'string' 
-            ? Uint8Array.from(atob(itemRecord.image_data), c => c.charCodeAt(0)).buffer
-            : await (itemRecord.image_data as Blob).arrayBuffer();
-          
-          photoMeta = await extractFromBuffer(arrayBuffer);
-        } catch (e) {
-          console.warn('Resume metadata extract failed', e);
-        }
-
-        // AI Analyze
-        incrementUsage(aiKeys.openai ? 'openai' : (aiKeys.gemini ? 'gemini' : 'claude'));
-        const aiData = await analyzeImage(base64Data, aiKeys);
-        
-        const thumbnail = await generateThumbnail(`data:image/jpeg;base64,${base64Data}`);
-        
-        // Update Inventory
-        const inventoryData = {
-          image_hash: imageHash,
-          title: aiData.title,
-          type: aiData.type,
-          year: aiData.year || '',
-          notes: aiData.notes || '',
-          confidence: aiData.confidence,
-          first_seen: new Date().toISOString(),
-          last_seen: new Date().toISOString(),
-          times_scanned: 1,
-          thumbnail: thumbnail,
-          box_id: targetBoxId,
-          condition_estimate: aiData.condition_estimate || '',
-          raw_metadata: {
-            ...(aiData.raw_metadata || {}), // Defensive spread
-            photo_metadata: photoMeta,
-            system_info: {
-              original_filename: itemRecord.filename,
-              batch_id: batchId,
-              resumed_at: new Date().toISOString()
-            }
-          }
-        };
-        await addToInventory(inventoryData);
-        if (user) syncInventoryToCloud(user.uid, inventoryData);
-
-        // Update Item Record
-        const updatedItem = {
-          ...itemRecord,
-          ...aiData,
-          status: 'completed' as const,
-          image_hash: imageHash,
-          condition_estimate: aiData.condition_estimate || '',
-          raw_metadata: inventoryData.raw_metadata
-        };
-        await updateItem(queueId, updatedItem);
-        if (user) syncItemToCloud(user.uid, updatedItem);
-
-        setProgress(prev => ({ ...prev, current: prev.current + 1 }));
-        setProcessingQueue(prev => prev.map(p => p.id === queueId ? { ...p, status: 'completed' } : p));
-        
-        if (i < pendingItems.length - 1) await new Promise(r => setTimeout(r, DELAY_MS));
-
-      } catch (err: any) {
-        console.error("Resume error:", err);
-        setProcessingQueue(prev => prev.map(p => p.id === queueId ? { ...p, status: 'failed', error_message: err.message } : p));
-      }
-    }
-
-    // Finalize Batch
-    const finalBatch = {
-      ...batch,
-      processed: allItems.length,
-      status: 'completed' as const
-    };
-    await saveBatch(finalBatch);
-    if (user) syncBatchToCloud(user.uid, finalBatch);
+    await runControlledBatch(
+      pendingItems.map(record => ({ id: record.id!, filename: record.filename, record, resumed: true })),
+      {
+        ...batch,
+        processed: allItems.filter(item => item.status === 'completed').length,
+        failed: allItems.filter(item => item.status === 'failed').length,
+        status: 'processing'
+      },
+      false
+    );
     
     setProcessing(false);
     loadBatchHistory();
@@ -887,57 +983,114 @@ function App() {
 
 
 
+  // BatchHistory hands back only the id
+  const resumeBatchById = async (batchId: string) => {
+    const batch = await getBatch(batchId);
+    if (!batch) return;
+    setIncompleteBatch(batch);
+    await resumeBatch(batch);
+  };
+
   const handleRetryAI = async (item: CatalogItem) => {
-    if (!item.image_data) return;
+    if (!item.image_data || !item.id) return;
     
     // Extract base64
     const base64 = item.image_data.toString().includes('base64,') 
       ? item.image_data.toString().split('base64,')[1] 
       : item.image_data.toString();
 
-    // Re-run Analysis
-    incrementUsage(aiKeys.openai ? 'openai' : (aiKeys.gemini ? 'gemini' : 'claude'));
-    const aiData = await analyzeImage(base64, aiKeys);
-    
-    // Construct updates
-    const updatedFields = {
-      title: aiData.title,
-      type: aiData.type,
-      year: aiData.year,
-      notes: aiData.notes,
-      confidence: aiData.confidence
+    const record: ItemRecord = {
+      ...item,
+      year: item.year || '',
+      notes: item.notes || '',
+      batch_id: item.batch_id || '',
+      image_data: base64,
+      status: 'completed'
     };
 
-    // Update Local State (Immediate Feedback)
-    setSelectedItem(prev => prev ? { ...prev, ...updatedFields } : null);
-    setItems(prev => prev.map(i => i.id === item.id ? { ...i, ...updatedFields } : i));
-
-    // Update DBs
-    if (item.id) {
-      await updateItem(item.id, updatedFields);
-      // Sync item to cloud
-      if (user) syncItemToCloud(user.uid, { ...item, ...updatedFields } as any);
+    // Re-run Analysis (skipDedupe: we want a fresh answer, not the stored one)
+    let updated: ItemRecord | null = null;
+    const pipeline = createPipeline(false);
+    const controller = new AbortController();
+    const unsubscribe = pipeline.subscribe(event => {
+      if (event.type === 'item-saved') updated = event.item;
+      if (event.type === 'item-failed') showToast(`❌ Retry failed: ${event.error.message}`);
+      // Nothing to resume a one-off retry from, so a spent budget ends it
+      if (event.type === 'budget-exceeded') {
+        showToast(`💸 Monthly AI budget of $${monthlyBudgetRef.current} reached`);
+        controller.abort();
+      }
+    });
+    try {
+      await pipeline.run([{ id: item.id, filename: item.filename, record }], { skipDedupe: true, signal: controller.signal });
+    } finally {
+      unsubscribe();
+      refreshReidentifyCount();
     }
-    
-    // Update Inventory if linked
-    if ((item as any).image_hash) {
-      const invItem = await findByImageHash((item as any).image_hash);
-      if (invItem && invItem.id) {
-        await updateInventoryItem(invItem.id, {
-          title: aiData.title,
-          type: aiData.type,
-          year: aiData.year || '',
-          notes: aiData.notes || '',
-          confidence: aiData.confidence,
-          last_seen: new Date().toISOString()
-        });
+    if (!updated) return;
+
+    // Update Local State
+    const updatedItem = toCatalogItem(updated);
+    setSelectedItem(prev => prev ? { ...prev, ...updatedItem } : null);
+    setItems(prev => prev.map(i => i.id === item.id ? { ...i, ...updatedItem } : i));
+  };
+
+  // Re-identify items that only got a fallback answer. Runs in the
+  // background when back online, on focus and when keys change; skipped
+  // while a batch is running.
+  const retryFallbackItems = async (force = false) => {
+    if (reidentifyingRef.current || processing || !isDbInitialized || !navigator.onLine) return;
+    const fingerprint = keysFingerprint(aiKeys, providerSettings);
+    if (!fingerprint) return; // No provider could answer yet
+    reidentifyingRef.current = true;
+    try {
+      const pipeline = createPipeline(false);
+      const controller = new AbortController();
+      const unsubscribe = pipeline.subscribe(event => {
+        // Background work stops quietly once the budget is spent
+        if (event.type === 'budget-exceeded') controller.abort();
+        if (event.type !== 'item-saved' || event.item.raw_metadata?.fallback_mode) return;
+        const updatedItem = toCatalogItem(event.item);
+        setItems(prev => prev.map(i => i.id === updatedItem.id ? { ...i, ...updatedItem } : i));
+      });
+      try {
+        const summary = await runReidentifyQueue(pipeline, fingerprint, { concurrency: batchConcurrency, force, signal: controller.signal });
+        if (summary.identified > 0) {
+          showToast(`✨ Identified ${summary.identified} item${summary.identified > 1 ? 's' : ''} that were waiting for AI`);
+        }
+      } finally {
+        unsubscribe();
       }
+    } catch (err) {
+      console.error('Re-identify queue failed:', err);
+    } finally {
+      reidentifyingRef.current = false;
+      refreshReidentifyCount();
     }
   };
+  const retryFallbackItemsRef = useRef(retryFallbackItems);
+  retryFallbackItemsRef.current = retryFallbackItems;
 
+  useEffect(() => {
+    const handleReconnect = () => retryFallbackItemsRef.current();
+    window.addEventListener('online', handleReconnect);
+    window.addEventListener('focus', handleReconnect);
+    return () => {
+      window.removeEventListener('online', handleReconnect);
+      window.removeEventListener('focus', handleReconnect);
+    };
+  }, []);
+
+  // After boot and whenever keys change (debounced: keys are typed in Settings)
+  useEffect(() => {
+    if (!isDbInitialized) return;
+    const timer = setTimeout(() => retryFallbackItemsRef.current(), 2000);
+    return () => clearTimeout(timer);
+  }, [isDbInitialized, aiKeys, providerSettings]);
 
   // ========== EDIT & DELETE ==========
-  const handleEditItem = async (updatedItem: CatalogItem) => {
+  const handleEditItem = async (edited: CatalogItem) => {
+    const updatedItem = { ...edited, era: parseEra(edited.year) || undefined };
     // Update in state
     setItems(prev => prev.map(i => i.id === updatedItem.id ? updatedItem : i));
     setSelectedItem(updatedItem);
@@ -949,6 +1102,14 @@ function App() {
         year: updatedItem.year || '',
         notes: updatedItem.notes || '',
         box_id: updatedItem.box_id,
+        category: updatedItem.category,
+        attributes: updatedItem.attributes,
+        confidence: updatedItem.confidence,
+        field_confidence: updatedItem.field_confidence,
+        condition_estimate: updatedItem.condition_estimate,
+        raw_metadata: updatedItem.raw_metadata, // Accepted answer (expert review)
+        ai_model: updatedItem.ai_model,
+        review_status: updatedItem.review_status,
         comps_quote: updatedItem.comps_quote,
         saved_comps: updatedItem.saved_comps // Persist detailed comps history
       };
@@ -967,6 +1128,13 @@ function App() {
           confidence: updatedItem.confidence,
           processed_at: updatedItem.processed_at,
           status: 'completed',
+          category: updatedItem.category,
+          attributes: updatedItem.attributes,
+          field_confidence: updatedItem.field_confidence,
+          condition_estimate: updatedItem.condition_estimate,
+          raw_metadata: updatedItem.raw_metadata,
+          ai_model: updatedItem.ai_model,
+          review_status: updatedItem.review_status,
           comps_quote: updatedItem.comps_quote,
           saved_comps: updatedItem.saved_comps
         });
@@ -981,6 +1149,7 @@ function App() {
     // Delete from DB
     if (itemToDelete.id) {
       await deleteItem(itemToDelete.id);
+      refreshReidentifyCount();
       
       // Sync deletion to cloud
       if (user && itemToDelete.batch_id) {
@@ -991,7 +1160,7 @@ function App() {
 
   // ========== CSV DOWNLOAD ==========
   const downloadBatchCSV = async (batchId: string) => {
-    const batchItems = await getBatchItems(batchId);
+    const batchItems = (await getBatchItems(batchId)).filter(item => item.status === 'completed');
     
     const escapeCSV = (value: any): string => {
       if (value === null || value === undefined) return '';
@@ -1003,15 +1172,20 @@ function App() {
     };
 
     const csvRows = [
-      ['filename', 'box_id', 'title', 'type', 'year', 'notes', 'confidence', 'processed_at'],
+      ['filename', 'box_id', 'title', 'type', 'year', 'year_start', 'year_end', 'year_circa', 'notes', 'confidence', 'barcodes', 'category', 'attributes', 'ai_model', 'processed_at'],
       ...batchItems.map(item => [
         escapeCSV(item.filename),
         escapeCSV(item.box_id),
         escapeCSV(item.title || ''),
         escapeCSV(item.type || ''),
         escapeCSV(item.year || ''),
+        ...eraCSVColumns(eraOf(item)),
         escapeCSV(item.notes || ''),
         escapeCSV(item.confidence || ''),
+        escapeCSV(item.barcodes?.map(code => code.value).join(' ') || ''),
+        escapeCSV(item.category || ''),
+        escapeCSV(item.attributes ? JSON.stringify(item.attributes) : ''),
+        escapeCSV(item.ai_model || ''),
         escapeCSV(item.processed_at)
       ])
     ];
@@ -1025,26 +1199,166 @@ function App() {
   };
 
   // ========== KEY MANAGEMENT ==========
-  const updateKey = async (provider: AIProvider, val: string) => {
+  // Keys stay on this device; to use one elsewhere, hold it on the server
+  // (moveKeyToServer), where it is stored encrypted
+  const updateKey = (provider: AIProvider, val: string) => {
     const newKeys = { ...aiKeys, [provider]: val };
     setAiKeys(newKeys);
     localStorage.setItem(`ai_key_${provider}`, val);
-    
-    // Sync to cloud if logged in
+  };
+
+  // URLs, models and rates are typed in Settings, so the cloud copy is saved
+  // once typing pauses rather than on every keystroke
+  const providerSettingsSaveRef = useRef<ReturnType<typeof setTimeout>>();
+  const updateProviderSetting = (provider: AIProvider, updates: ProviderSettings) => {
+    const newSettings = { ...providerSettings, [provider]: { ...providerSettings[provider], ...updates } };
+    setProviderSettings(newSettings);
+    localStorage.setItem('ai_provider_settings', JSON.stringify(newSettings));
+
     if (user) {
-      await saveUserSettings(user.uid, {
-        apiKeys: { [provider]: val }
-      });
+      clearTimeout(providerSettingsSaveRef.current);
+      providerSettingsSaveRef.current = setTimeout(() => {
+        saveUserSettings(user.uid, { providerSettings: newSettings }).catch(err => console.error('Failed to sync provider settings:', err));
+      }, 1000);
+    }
+  };
+
+  const updatePromptConfigs = async (store: PromptConfigStore) => {
+    setPromptConfigs(store);
+    localStorage.setItem('prompt_configs', JSON.stringify(store));
+
+    if (user) {
+      await saveUserSettings(user.uid, { promptConfigs: store });
+    }
+  };
+
+  // Settings preview: the unsaved prompt on one image, nothing stored
+  const previewPrompt = async (draft: PromptConfigDraft, sample: File) => {
+    const { aiImage } = await preprocessImage(sample);
+    const result = await analyzeImage(aiImage, aiKeys, {
+      providerSettings,
+      imageIsPrepared: true,
+      textExtraction: textExtractionMode,
+      category: batchCategory,
+      promptConfig: { ...draft, version: -1, created_at: '' }
+    });
+    recordUsage(result);
+    return result;
+  };
+
+  const updateTextExtractionMode = (mode: TextExtractionMode) => {
+    setTextExtractionMode(mode);
+    localStorage.setItem('text_extraction_mode', mode);
+  };
+
+  const updateBarcodeLookup = (mode: BarcodeLookupMode) => {
+    setBarcodeLookup(mode);
+    localStorage.setItem('barcode_lookup', mode);
+  };
+
+  const handleReferenceFile = async (file: File) => {
+    const reference = { filename: file.name, content: await file.text() };
+    let adapter;
+    try {
+      adapter = createReferenceAdapter(reference.content, reference.filename);
+    } catch (err) {
+      showToast(`❌ Could not read ${file.name}: ${(err as Error).message}`);
+      return;
+    }
+    setCatalogReference(reference);
+    try {
+      localStorage.setItem('catalog_reference', JSON.stringify(reference));
+    } catch (err) {
+      showToast('⚠️ Reference file is too large to keep after a reload');
+    }
+    showToast(`📚 Loaded ${adapter.label}`);
+  };
+
+  const updateAutoGroupUploads = (value: boolean) => {
+    setAutoGroupUploads(value);
+    localStorage.setItem('auto_group_uploads', String(value));
+  };
+
+  const updateConsensusMode = (value: boolean) => {
+    setConsensusMode(value);
+    localStorage.setItem('consensus_mode', String(value));
+  };
+
+  const updateConsensusSize = (value: number) => {
+    setConsensusSize(value);
+    localStorage.setItem('consensus_size', String(value));
+  };
+
+  const updateExpertEscalation = (updates: Partial<ExpertEscalation>) => {
+    const next = { ...expertEscalation, ...updates };
+    next.threshold = Math.min(100, Math.max(0, next.threshold || 0));
+    setExpertEscalation(next);
+    localStorage.setItem('expert_escalation', JSON.stringify(next));
+  };
+
+  const updateRoutingPolicy = (value: RoutingPolicyId) => {
+    setRoutingPolicy(value);
+    localStorage.setItem('routing_policy', value);
+  };
+
+  const updateBatchCategory = (value: CategorySelection) => {
+    setBatchCategory(value);
+    localStorage.setItem('batch_category', value);
+  };
+
+  const updateReviewThreshold = (value: number) => {
+    const clamped = Math.min(100, Math.max(0, value || 0));
+    setReviewThreshold(clamped);
+    localStorage.setItem('review_threshold', String(clamped));
+  };
+
+  const updatePriceTable = (table: ModelPrice[]) => {
+    setPriceTable(table);
+    localStorage.setItem('ai_price_table', JSON.stringify(table));
+  };
+
+  const updateMonthlyBudget = (value: number) => {
+    const budget = Math.max(0, value || 0);
+    setMonthlyBudget(budget);
+    localStorage.setItem('monthly_budget', String(budget));
+  };
+
+  const updateBatchConcurrency = (value: number) => {
+    const clamped = Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, value || 1));
+    setBatchConcurrency(clamped);
+    localStorage.setItem('batch_concurrency', String(clamped));
+  };
+
+  const refreshProviderModels = async (provider: AIProvider) => {
+    const models = await listProviderModels(provider, aiKeys[provider], providerSettings, { refresh: true });
+    setProviderModels(prev => ({ ...prev, [provider]: models }));
+    showToast(`Found ${models.length} model${models.length === 1 ? '' : 's'} for ${AI_PROVIDERS[provider].label}`);
+  };
+
+  // Hand the local key to the aiProxy function (stored encrypted) and call the
+  // provider through it from now on
+  const moveKeyToServer = async (provider: AIProvider) => {
+    try {
+      await saveServerKey(provider, (aiKeys[provider] || '').trim());
+      updateProviderSetting(provider, { proxy: true });
+      updateKey(provider, '');
+      showToast(`🔐 ${AI_PROVIDERS[provider].label} key is now held on the server`);
+    } catch (err: any) {
+      console.error('Failed to store key on server:', err);
+      showToast(`❌ Couldn't store the key on the server: ${err.message || err}`);
     }
   };
 
   // ========== ETA CALCULATION ==========
+  // Based on observed completions/sec, so it already reflects parallel workers.
+  // Items finished before a resume don't count toward the rate.
   const calculateETA = (): string => {
-    if (!batchStartTime || progress.current === 0 || progress.total === 0) return 'Calculating...';
+    const completedThisRun = progress.current - progress.startedFrom;
+    if (!batchStartTime || completedThisRun <= 0 || progress.total === 0) return 'Calculating...';
     const elapsed = (new Date().getTime() - batchStartTime.getTime()) / 1000;
-    const avgTimePerImage = elapsed / progress.current;
+    const throughput = completedThisRun / elapsed; // images per second
     const remaining = progress.total - progress.current;
-    const etaSeconds = remaining * avgTimePerImage;
+    const etaSeconds = remaining / throughput;
     return etaSeconds < 60 ? `~${Math.round(etaSeconds)}s` : `~${Math.floor(etaSeconds/60)}m`;
   };
 
@@ -1085,9 +1399,9 @@ function App() {
         <CameraCapture 
           initialBoxId={boxId} 
           onExit={() => setShowCameraFullscreen(false)} 
-          onFilesCaptured={(files, capturedBoxId) => {
+          onFilesCaptured={(files, capturedBoxId, photoGroups) => {
             setShowCameraFullscreen(false);
-            processBatch(files, capturedBoxId);
+            processBatch(files, capturedBoxId, photoGroups);
           }}
           standalone={true}
         />
@@ -1098,6 +1412,11 @@ function App() {
         onMenuClick={() => setShowMenu(!showMenu)} 
         currentView={currentView}
         onBack={() => setCurrentView('home')}
+        awaitingAICount={reidentifyCount}
+        onAwaitingAIClick={() => {
+          showToast(`⏳ ${reidentifyCount} item${reidentifyCount > 1 ? 's' : ''} waiting for AI. Retrying now...`);
+          retryFallbackItems(true);
+        }}
       />
       
       {/* Status Bar */}
@@ -1170,7 +1489,7 @@ function App() {
           zIndex: 50,
           minWidth: '160px'
         }}>
-          {(['home', 'inventory'] as ViewType[]).map(view => (
+          {(['home', 'inventory', 'duplicates'] as ViewType[]).map(view => (
             <button
               key={view}
               onClick={() => { setCurrentView(view); setShowMenu(false); }}
@@ -1187,7 +1506,10 @@ function App() {
                 cursor: 'pointer'
               }}
             >
-              {view === 'home' ? '📦 Catalog' : view === 'inventory' ? '📋 Inventory' : '⚙️ Settings'}
+              {view === 'home' ? '📦 Catalog'
+                : view === 'inventory' ? '📋 Inventory'
+                : view === 'duplicates' ? `🔍 Possible Duplicates${pendingDuplicateCount > 0 ? ` (${pendingDuplicateCount})` : ''}`
+                : '⚙️ Settings'}
             </button>
           ))}
           {/* Show Progress option when actively processing */}
@@ -1355,9 +1677,17 @@ function App() {
                   boxId={boxId}
                   onBoxIdChange={setBoxId}
                   onFilesSelected={setFiles}
-                  onStartCataloging={() => processBatch()}
-                  isProcessing={processing}
+                  onStartCataloging={handleStartCataloging}
+                  isProcessing={processing || groupingPhotos}
                   selectedCount={files.length}
+                  groupPhotos={autoGroupUploads}
+                  onGroupPhotosChange={updateAutoGroupUploads}
+                  category={batchCategory}
+                  onCategoryChange={updateBatchCategory}
+                  consensus={consensusMode}
+                  onConsensusChange={updateConsensusMode}
+                  routingPolicy={routingPolicy}
+                  onRoutingPolicyChange={updateRoutingPolicy}
                 />
 
                 {/* Recent Identifications (Empty) */}
@@ -1387,9 +1717,17 @@ function App() {
                   boxId={boxId}
                   onBoxIdChange={setBoxId}
                   onFilesSelected={setFiles}
-                  onStartCataloging={() => processBatch()}
-                  isProcessing={processing}
+                  onStartCataloging={handleStartCataloging}
+                  isProcessing={processing || groupingPhotos}
                   selectedCount={files.length}
+                  groupPhotos={autoGroupUploads}
+                  onGroupPhotosChange={updateAutoGroupUploads}
+                  category={batchCategory}
+                  onCategoryChange={updateBatchCategory}
+                  consensus={consensusMode}
+                  onConsensusChange={updateConsensusMode}
+                  routingPolicy={routingPolicy}
+                  onRoutingPolicyChange={updateRoutingPolicy}
                 />
 
                 {/* Section Header with Sorting (More Compact) */}
@@ -1417,15 +1755,27 @@ function App() {
                     <option value="box_id-asc">Box</option>
                   </select>
                 </div>
+                {(showNeedsReview || items.some(item => item.review_status === 'needs_review')) && (
+                  <div style={{ padding: '0 16px', marginBottom: '8px' }}>
+                    <button
+                      className="badge badge-btn"
+                      onClick={() => setShowNeedsReview(!showNeedsReview)}
+                      style={{ padding: '4px 10px', fontSize: '11px', fontWeight: 700, background: showNeedsReview ? '#F59E0B' : '#FEF3C7', color: showNeedsReview ? 'white' : '#92400E', border: '1px solid #FDE68A' }}
+                    >
+                      ⚠️ Needs review ({items.filter(item => item.review_status === 'needs_review').length}){showNeedsReview ? ' ✕' : ''}
+                    </button>
+                  </div>
+                )}
 
                 {/* Item Grid (NOW HORIZONTAL SCROLL) */}
                 <div className="horizontal-scroll">
                   {items
+                    .filter(item => !showNeedsReview || item.review_status === 'needs_review')
                     .sort((a, b) => {
                       if (inventorySort === 'title-asc') return (a.title || '').localeCompare(b.title || '');
                       if (inventorySort === 'title-desc') return (b.title || '').localeCompare(a.title || '');
-                      if (inventorySort === 'year-asc') return (a.year || '').localeCompare(b.year || '');
-                      if (inventorySort === 'year-desc') return (b.year || '').localeCompare(a.year || '');
+                      if (inventorySort === 'year-asc') return compareEras(eraOf(a), eraOf(b), 'asc');
+                      if (inventorySort === 'year-desc') return compareEras(eraOf(a), eraOf(b), 'desc');
                       if (inventorySort === 'box_id-asc') return (a.box_id || '').localeCompare(b.box_id || '');
                       if (inventorySort === 'box_id-desc') return (b.box_id || '').localeCompare(a.box_id || '');
                       if (inventorySort === 'created_at-asc') return (a.processed_at || '').localeCompare(b.processed_at || '');
@@ -1436,6 +1786,7 @@ function App() {
                         key={item.id || index}
                         item={item}
                         onCardClick={setSelectedItem}
+                        reviewThreshold={reviewThreshold}
                       />
                     ))}
                 </div>
@@ -1455,10 +1806,10 @@ function App() {
                         return str;
                       };
                       const rows = [
-                        ['filename', 'box_id', 'title', 'type', 'year', 'notes', 'confidence'],
+                        ['filename', 'box_id', 'title', 'type', 'year', 'year_start', 'year_end', 'year_circa', 'notes', 'confidence'],
                         ...items.map(i => [
                           escapeCSV(i.filename), escapeCSV(i.box_id), escapeCSV(i.title),
-                          escapeCSV(i.type), escapeCSV(i.year || ''), escapeCSV(i.notes || ''),
+                          escapeCSV(i.type), escapeCSV(i.year || ''), ...eraCSVColumns(eraOf(i)), escapeCSV(i.notes || ''),
                           escapeCSV(i.confidence)
                         ])
                       ];
@@ -1486,6 +1837,7 @@ function App() {
               onLoadBatch={loadBatch} 
               onDownloadCSV={downloadBatchCSV}
               onRefresh={() => loadBatchHistory(10)} 
+              onResume={resumeBatchById}
               standalone={true} 
               hasMore={batches.length >= 10 && batches.length % 10 === 0}
               onLoadMore={() => loadBatchHistory(batches.length + 10)}
@@ -1510,7 +1862,7 @@ function App() {
               <div className="card" style={{ padding: '16px' }}>
                 <div style={{ marginBottom: '16px', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                   <span style={{ fontWeight: 700, color: 'var(--text-main)' }}>
-                    {processing ? 'Running...' : 'Finished'}
+                    {processing ? (batchPaused ? 'Paused' : 'Running...') : 'Finished'}
                   </span>
                   <span style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
                     {processingQueue.filter(i => i.status === 'completed').length} / {processingQueue.length} Completed
@@ -1518,7 +1870,16 @@ function App() {
                 </div>
                 
                 {/* Re-use ImageProgressList but possibly bigger styling if needed, currently it's compact */}
-                <ImageProgressList items={processingQueue} />
+                <ImageProgressList
+                  items={processingQueue}
+                  running={processing}
+                  paused={batchPaused}
+                  onPause={handlePauseBatch}
+                  onResume={handleResumePausedBatch}
+                  onCancel={handleCancelBatch}
+                  onSkip={handleSkipImage}
+                  onMoveToFront={handleMoveToFront}
+                />
                 
                 {!processing && (
                   <button 
@@ -1579,6 +1940,15 @@ function App() {
                     <option value="created_at-desc">Date Added (Newest First)</option>
                     <option value="created_at-asc">Date Added (Oldest First)</option>
                   </select>
+                  <label htmlFor="era-filter-inventory" style={{ fontSize: '11px', color: 'var(--text-secondary)', fontWeight: 700, marginLeft: '8px' }}>Era:</label>
+                  <input
+                    id="era-filter-inventory"
+                    type="text"
+                    value={inventoryEraFilter}
+                    onChange={(e) => setInventoryEraFilter(e.target.value)}
+                    placeholder="e.g. 1930-1949, 1950s"
+                    style={{ flex: 1, minWidth: 0, padding: '6px 10px', fontSize: '13px' }}
+                  />
                 </div>
                 <div className="triage-grid">
                   {inventory.map((item, idx) => (
@@ -1592,6 +1962,7 @@ function App() {
                         title: item.title,
                         type: item.type,
                         year: item.year,
+                        era: item.era,
                         notes: item.notes,
                         confidence: item.confidence,
                         processed_at: item.last_seen,
@@ -1608,6 +1979,19 @@ function App() {
           </div>
         )}
 
+        {/* DUPLICATE REVIEW VIEW */}
+        {currentView === 'duplicates' && (
+          <div style={{ padding: '16px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '16px' }}>
+              <h2 style={{ fontFamily: 'Outfit, sans-serif', fontSize: '18px', fontWeight: 800, margin: 0 }}>🔍 Possible Duplicates</h2>
+              <button className="btn-seamless btn-ghost" onClick={loadDuplicateReviews} style={{ padding: '6px 10px', fontSize: '12px' }}>
+                🔄 Refresh
+              </button>
+            </div>
+            <DuplicateReviewList entries={duplicateReviews} onResolve={handleResolveDuplicate} />
+          </div>
+        )}
+
         {/* SETTINGS VIEW */}
         {currentView === 'settings' && (
           <div className="card" style={{ margin: '16px', padding: '20px' }}>
@@ -1620,7 +2004,7 @@ function App() {
               Settings
             </h2>
             <p style={{ fontSize: '13px', color: 'var(--text-secondary)', marginBottom: '20px' }}>
-              Keys are saved locally on your device. The app tries each provider in order.
+              Keys are saved locally on your device unless held on the server. The app tries each provider in order.
             </p>
             
             <details style={{ 
@@ -1635,51 +2019,298 @@ function App() {
                 </summary>
                 
                 <div style={{ marginTop: '16px' }}>
-                    <div style={{ marginBottom: '16px' }}>
+            {PROVIDER_IDS.map((id, idx) => (
+              <div key={id} style={{ marginBottom: '16px' }}>
+                {AI_PROVIDERS[id].userEndpoint && (
+                  <>
                     <label style={{ fontSize: '12px', fontWeight: 600, color: 'var(--text-secondary)', display: 'block', marginBottom: '6px' }}>
-                        GEMINI API KEY (Recommended)
+                      {AI_PROVIDERS[id].label.toUpperCase()} BASE URL
                     </label>
-              <input 
-                type="password" 
-                value={aiKeys.gemini} 
-                onChange={e => updateKey('gemini', e.target.value)} 
-                placeholder="AIza..."
-                style={{ fontFamily: 'monospace', fontSize: '13px' }}
+                    <input 
+                      type="url" 
+                      value={providerSettings[id]?.baseUrl || ''} 
+                      onChange={e => updateProviderSetting(id, { baseUrl: e.target.value })} 
+                      placeholder="http://192.168.1.50:11434/v1"
+                      style={{ fontFamily: 'monospace', fontSize: '13px', marginBottom: '8px' }}
+                    />
+                  </>
+                )}
+                <label style={{ fontSize: '12px', fontWeight: 600, color: 'var(--text-secondary)', display: 'block', marginBottom: '6px' }}>
+                  {AI_PROVIDERS[id].label.toUpperCase()} MODEL
+                </label>
+                <div style={{ display: 'flex', gap: '8px', marginBottom: '8px' }}>
+                  <select
+                    value={providerSettings[id]?.model || ''}
+                    onChange={e => updateProviderSetting(id, { model: e.target.value || undefined })}
+                    style={{ flex: 1, padding: '8px', borderRadius: '8px', border: '1px solid #E5E7EB', fontSize: '13px', backgroundColor: 'white' }}
+                  >
+                    <option value="">Auto ({AI_PROVIDERS[id].autoDiscover ? 'best available' : AI_PROVIDERS[id].models[0]})</option>
+                    {Array.from(new Set([
+                      ...(providerModels[id] || AI_PROVIDERS[id].models),
+                      ...(providerSettings[id]?.model ? [providerSettings[id]!.model!] : [])
+                    ])).map(model => (
+                      <option key={model} value={model}>{model}</option>
+                    ))}
+                  </select>
+                  {AI_PROVIDERS[id].discoverModels && (
+                    <button
+                      className="btn-seamless btn-ghost"
+                      onClick={() => refreshProviderModels(id)}
+                      disabled={AI_PROVIDERS[id].userEndpoint ? !providerSettings[id]?.baseUrl : !aiKeys[id]}
+                      title="List the vision models your key can use"
+                      style={{ width: 'auto', padding: '8px 12px', fontSize: '12px' }}
+                    >
+                      🔄 Models
+                    </button>
+                  )}
+                </div>
+                <label style={{ fontSize: '12px', fontWeight: 600, color: 'var(--text-secondary)', display: 'block', marginBottom: '6px' }}>
+                  {AI_PROVIDERS[id].label.toUpperCase()} API KEY{idx === 0 ? ' (Recommended)' : AI_PROVIDERS[id].keyOptional ? ' (Optional)' : ''}
+                </label>
+                <input 
+                  type="password" 
+                  value={aiKeys[id] || ''} 
+                  onChange={e => updateKey(id, e.target.value)} 
+                  placeholder={providerSettings[id]?.proxy ? 'Held on server' : AI_PROVIDERS[id].keyPlaceholder}
+                  disabled={!!providerSettings[id]?.proxy}
+                  style={{ fontFamily: 'monospace', fontSize: '13px' }}
+                />
+                {canProxy(id) && isFirebaseConfigured() && user && (
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '6px', flexWrap: 'wrap' }}>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', color: 'var(--text-secondary)', cursor: 'pointer' }}>
+                      <input
+                        type="checkbox"
+                        checked={!!providerSettings[id]?.proxy}
+                        onChange={e => updateProviderSetting(id, { proxy: e.target.checked || undefined })}
+                        style={{ width: 'auto', margin: 0 }}
+                      />
+                      Key held on server (your stored key, or the organisation's)
+                    </label>
+                    {!providerSettings[id]?.proxy && (aiKeys[id] || '').trim() && (
+                      <button
+                        onClick={() => moveKeyToServer(id)}
+                        style={{ fontSize: '11px', color: '#94A3B8', background: 'none', border: 'none', cursor: 'pointer', textDecoration: 'underline', padding: 0 }}
+                      >
+                        Move key to server
+                      </button>
+                    )}
+                  </div>
+                )}
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '6px' }}>
+                  <label htmlFor={`rpm-${id}`} style={{ fontSize: '11px', color: 'var(--text-secondary)' }}>
+                    Requests / minute
+                  </label>
+                  <input
+                    id={`rpm-${id}`}
+                    type="number"
+                    min={1}
+                    value={providerSettings[id]?.requestsPerMinute || ''}
+                    onChange={e => updateProviderSetting(id, { requestsPerMinute: parseInt(e.target.value, 10) || undefined })}
+                    placeholder="15"
+                    style={{ width: '80px', padding: '4px 8px', fontSize: '12px' }}
+                  />
+                </div>
+              </div>
+            ))}
+
+            <div style={{ marginBottom: '16px' }}>
+              <label htmlFor="batch-concurrency" style={{ fontSize: '12px', fontWeight: 600, color: 'var(--text-secondary)', display: 'block', marginBottom: '6px' }}>
+                PARALLEL IMAGES PER BATCH
+              </label>
+              <input
+                id="batch-concurrency"
+                type="number"
+                min={1}
+                max={MAX_BATCH_CONCURRENCY}
+                value={batchConcurrency}
+                onChange={e => updateBatchConcurrency(parseInt(e.target.value, 10))}
+                style={{ width: '80px', padding: '4px 8px', fontSize: '13px' }}
               />
+              <p style={{ fontSize: '11px', color: 'var(--text-secondary)', margin: '4px 0 0' }}>
+                Images identified at once. Per-provider request limits still apply.
+              </p>
             </div>
-            
+
             <div style={{ marginBottom: '16px' }}>
-              <label style={{ fontSize: '12px', fontWeight: 600, color: 'var(--text-secondary)', display: 'block', marginBottom: '6px' }}>
-                OPENAI API KEY
+              <label htmlFor="consensus-size" style={{ fontSize: '12px', fontWeight: 600, color: 'var(--text-secondary)', display: 'block', marginBottom: '6px' }}>
+                CONSENSUS MODE: MODELS PER ITEM
               </label>
-              <input 
-                type="password" 
-                value={aiKeys.openai} 
-                onChange={e => updateKey('openai', e.target.value)} 
-                placeholder="sk-..."
-                style={{ fontFamily: 'monospace', fontSize: '13px' }}
+              <select
+                id="consensus-size"
+                value={consensusSize}
+                onChange={e => updateConsensusSize(parseInt(e.target.value, 10))}
+                style={{ padding: '4px 8px', fontSize: '13px' }}
+              >
+                {Array.from({ length: MAX_CONSENSUS_PROVIDERS - 1 }, (_, i) => i + 2).map(size => (
+                  <option key={size} value={size}>{size}</option>
+                ))}
+              </select>
+              <p style={{ fontSize: '11px', color: 'var(--text-secondary)', margin: '4px 0 0' }}>
+                For batches started with "ask several AI models": the first configured providers in priority order are asked at once and their answers compared.
+              </p>
+            </div>
+
+            <div style={{ marginBottom: '16px' }}>
+              <label htmlFor="expert-threshold" style={{ fontSize: '12px', fontWeight: 600, color: 'var(--text-secondary)', display: 'block', marginBottom: '6px' }}>
+                EXPERT SECOND PASS BELOW (% CONFIDENCE)
+              </label>
+              <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+                <input
+                  id="expert-threshold"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={expertEscalation.threshold}
+                  onChange={e => updateExpertEscalation({ threshold: parseInt(e.target.value, 10) })}
+                  style={{ width: '80px', padding: '4px 8px', fontSize: '13px' }}
+                />
+                <select
+                  aria-label="Expert provider"
+                  value={expertEscalation.provider}
+                  onChange={e => updateExpertEscalation({ provider: e.target.value as AIProvider, model: '' })}
+                  style={{ padding: '4px 8px', fontSize: '13px' }}
+                >
+                  {PROVIDER_IDS.map(id => <option key={id} value={id}>{AI_PROVIDERS[id].label}</option>)}
+                </select>
+                <input
+                  type="text"
+                  aria-label="Expert model"
+                  value={expertEscalation.model}
+                  onChange={e => updateExpertEscalation({ model: e.target.value.trim() })}
+                  placeholder={providerSettings[expertEscalation.provider]?.model || AI_PROVIDERS[expertEscalation.provider].models[0]}
+                  style={{ flex: 1, minWidth: '140px', padding: '4px 8px', fontSize: '13px', fontFamily: 'monospace' }}
+                />
+              </div>
+              <p style={{ fontSize: '11px', color: 'var(--text-secondary)', margin: '4px 0 0' }}>
+                Less certain answers are sent to this model with the first answer as a draft to check. Both answers are kept on the item. 0 turns it off.
+              </p>
+            </div>
+
+            <div style={{ marginBottom: '16px' }}>
+              <label htmlFor="review-threshold" style={{ fontSize: '12px', fontWeight: 600, color: 'var(--text-secondary)', display: 'block', marginBottom: '6px' }}>
+                NEEDS REVIEW BELOW (% CONFIDENCE)
+              </label>
+              <input
+                id="review-threshold"
+                type="number"
+                min={0}
+                max={100}
+                value={reviewThreshold}
+                onChange={e => updateReviewThreshold(parseInt(e.target.value, 10))}
+                style={{ width: '80px', padding: '4px 8px', fontSize: '13px' }}
               />
+              <p style={{ fontSize: '11px', color: 'var(--text-secondary)', margin: '4px 0 0' }}>
+                Items with a less certain title, year or other field are flagged for review. 0 turns flagging off.
+              </p>
             </div>
             
+            <div style={{ marginBottom: '16px' }}>
+              <label htmlFor="text-extraction" style={{ fontSize: '12px', fontWeight: 600, color: 'var(--text-secondary)', display: 'block', marginBottom: '6px' }}>
+                READ TEXT BEFORE IDENTIFYING (OCR)
+              </label>
+              <select
+                id="text-extraction"
+                value={textExtractionMode}
+                onChange={e => updateTextExtractionMode(e.target.value as TextExtractionMode)}
+                style={{ padding: '4px 8px', fontSize: '13px' }}
+              >
+                <option value="off">Off</option>
+                <option value="auto">Cloud Vision, on-device if unavailable</option>
+                <option value="cloud">Cloud Vision only</option>
+                <option value="local">On-device only</option>
+              </select>
+              <p style={{ fontSize: '11px', color: 'var(--text-secondary)', margin: '4px 0 0' }}>
+                Printed text, labels and barcodes are passed to the AI as context. Adds a few seconds per image.
+              </p>
+            </div>
+
+            <div style={{ marginBottom: '16px' }}>
+              <label htmlFor="barcode-lookup" style={{ fontSize: '12px', fontWeight: 600, color: 'var(--text-secondary)', display: 'block', marginBottom: '6px' }}>
+                BARCODES (ISBN / UPC / EAN)
+              </label>
+              <select
+                id="barcode-lookup"
+                value={barcodeLookup}
+                onChange={e => updateBarcodeLookup(e.target.value as BarcodeLookupMode)}
+                style={{ padding: '4px 8px', fontSize: '13px' }}
+              >
+                <option value="off">Off</option>
+                <option value="detect">Detect and save codes</option>
+                <option value="openlibrary">Look up ISBNs in Open Library</option>
+                <option value="reference">Look up in a reference file</option>
+              </select>
+              {barcodeLookup === 'reference' && (
+                <div style={{ marginTop: '8px', fontSize: '12px' }}>
+                  <input
+                    type="file"
+                    accept=".csv,.json,text/csv,application/json"
+                    onChange={e => e.target.files?.[0] && handleReferenceFile(e.target.files[0])}
+                    style={{ fontSize: '12px' }}
+                  />
+                  <p style={{ fontSize: '11px', color: 'var(--text-secondary)', margin: '4px 0 0' }}>
+                    {catalogAdapter ? `Using ${catalogAdapter.label}. ` : 'No file loaded. '}
+                    CSV or JSON with a code/isbn/upc column and title, plus optional year, publisher, type.
+                  </p>
+                </div>
+              )}
+              <p style={{ fontSize: '11px', color: 'var(--text-secondary)', margin: '4px 0 0' }}>
+                A catalog match fills in title, publisher and year ahead of the AI's answer.
+              </p>
+            </div>
+
+            <details style={{ marginBottom: '16px' }}>
+              <summary style={{ fontSize: '12px', fontWeight: 600, color: 'var(--text-secondary)', cursor: 'pointer', marginBottom: '8px' }}>
+                AI PROMPT & CUSTOM FIELDS (v{activePrompt.version})
+              </summary>
+              <PromptSettings
+                store={promptConfigs}
+                onSaveVersion={draft => {
+                  const next = addPromptVersion(promptConfigs, draft);
+                  updatePromptConfigs(next);
+                  showToast(`📝 Prompt v${next.active_version} saved and active`);
+                }}
+                onActivateVersion={version => updatePromptConfigs({ ...promptConfigs, active_version: version })}
+                onPreview={previewPrompt}
+              />
+            </details>
+
             <div style={{ marginBottom: '24px', background: 'var(--canvas-bg)', padding: '16px', borderRadius: '12px', border: '1px solid #E5E7EB' }}>
               <h3 style={{ fontSize: '14px', fontWeight: 700, margin: '0 0 12px' }}>📊 AI Usage & Cost Estimate</h3>
               <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
-                <div style={{ padding: '8px', background: 'white', borderRadius: '8px', border: '1px solid #F1F5F9' }}>
-                  <div style={{ fontSize: '11px', color: 'var(--text-secondary)' }}>Gemini (Mostly Free)</div>
-                  <div style={{ fontSize: '16px', fontWeight: 700 }}>{aiUsage.gemini} <small style={{ fontSize: '10px', color: '#059669' }}>LIMITS APPLY</small></div>
-                </div>
-                <div style={{ padding: '8px', background: 'white', borderRadius: '8px', border: '1px solid #F1F5F9' }}>
-                  <div style={{ fontSize: '11px', color: 'var(--text-secondary)' }}>OpenAI (Paid)</div>
-                  <div style={{ fontSize: '16px', fontWeight: 700 }}>{aiUsage.openai} <small style={{ fontSize: '10px', color: '#DC2626' }}>~${(aiUsage.openai * 0.01).toFixed(2)}</small></div>
-                </div>
+                {PROVIDER_IDS.map(id => (
+                  <div key={id} style={{ padding: '8px', background: 'white', borderRadius: '8px', border: '1px solid #F1F5F9' }}>
+                    <div style={{ fontSize: '11px', color: 'var(--text-secondary)' }}>
+                      {AI_PROVIDERS[id].label} ({AI_PROVIDERS[id].usageNote})
+                    </div>
+                    <div style={{ fontSize: '16px', fontWeight: 700 }}>
+                      {aiUsage[id]}{' '}
+                      {AI_PROVIDERS[id].estCostPerCall > 0 ? (
+                        <small style={{ fontSize: '10px', color: '#DC2626' }}>~${(aiUsage[id] * AI_PROVIDERS[id].estCostPerCall).toFixed(2)}</small>
+                      ) : (
+                        <small style={{ fontSize: '10px', color: '#059669' }}>{AI_PROVIDERS[id].userEndpoint ? 'ON YOUR NETWORK' : 'LIMITS APPLY'}</small>
+                      )}
+                    </div>
+                  </div>
+                ))}
               </div>
               <button 
-                onClick={() => setAiUsage({ gemini: 0, openai: 0, claude: 0 })}
+                onClick={() => setAiUsage(Object.fromEntries(PROVIDER_IDS.map(id => [id, 0])) as Record<AIProvider, number>)}
                 style={{ marginTop: '12px', fontSize: '11px', color: '#94A3B8', background: 'none', border: 'none', cursor: 'pointer', textDecoration: 'underline' }}
               >
                 Reset Counters
               </button>
             </div>
+
+            <div style={{ marginBottom: '24px', background: 'var(--canvas-bg)', padding: '16px', borderRadius: '12px', border: '1px solid #E5E7EB' }}>
+              <h3 style={{ fontSize: '14px', fontWeight: 700, margin: '0 0 12px' }}>💵 AI Spend</h3>
+              <UsageDashboard
+                records={usageRecords}
+                priceTable={priceTable}
+                monthlyBudget={monthlyBudget}
+                onPriceTableChange={updatePriceTable}
+                onBudgetChange={updateMonthlyBudget}
+              />
+            </div>
             
             <div style={{ borderTop: '1px solid #E5E7EB', paddingTop: '20px', marginBottom: '24px' }}>
                <h3 style={{ fontSize: '14px', fontWeight: 700, marginBottom: '12px' }}>
@@ -1688,10 +2319,7 @@ function App() {
                <div style={{ maxHeight: '300px', overflowY: 'auto', border: '1px solid #E5E7EB', borderRadius: '8px' }}>
                   <BatchHistory 
                     batches={batches}
-                    onResume={(batch) => {
-                      setIncompleteBatch(batch);
-                      resumeBatch(batch);
-                    }}
+                    onResume={resumeBatchById}
                     onDownloadCSV={downloadBatchCSV}
                     onDelete={async (batchId) => {
                        // Delete local logic would act here
@@ -1711,10 +2339,7 @@ function App() {
                <div style={{ maxHeight: '300px', overflowY: 'auto', border: '1px solid #E5E7EB', borderRadius: '8px' }}>
                   <BatchHistory 
                     batches={batches}
-                    onResume={(batch) => {
-                      setIncompleteBatch(batch);
-                      resumeBatch(batch);
-                    }}
+                    onResume={resumeBatchById}
                     onDownloadCSV={downloadBatchCSV}
                     onLoadBatch={() => {}} // Not needed in settings view context
                     onRefresh={loadBatchHistory}
@@ -1797,7 +2422,7 @@ function App() {
                   onClick={async () => {
                     setRunningTests(true);
                     setTestResults(null);
-                    const results = await SystemValidator.runAllTests(aiKeys);
+                    const results = await SystemValidator.runAllTests(aiKeys, providerSettings);
                     setTestResults(results);
                     setRunningTests(false);
                   }}
@@ -1874,6 +2499,18 @@ function App() {
 
       </main>
 
+      {/* Upload Grouping Review */}
+      {proposedGroups && (
+        <PhotoGroupReview
+          groups={proposedGroups}
+          onConfirm={(groups) => {
+            setProposedGroups(null);
+            processBatch(undefined, undefined, groups);
+          }}
+          onCancel={() => setProposedGroups(null)}
+        />
+      )}
+
       {/* Detail Modal */}
       {selectedItem && (
         <ItemDetail
@@ -1882,6 +2519,9 @@ function App() {
           onSave={handleEditItem}
           onDelete={handleDeleteItem}
           onRetry={handleRetryAI}
+          customFields={activePrompt.fields}
+          promptVersion={promptVersionOf(promptConfigs, selectedItem)}
+          reviewThreshold={reviewThreshold}
         />
       )}
 
@@ -7,9 +7,19 @@ interface BatchSummary {
   processed: number;
   failed: number;
   created_at: string;
+  status?: 'pending' | 'processing' | 'paused' | 'cancelled' | 'completed' | 'failed';
   thumbnail?: string;
 }
 
+// Batches stopped before every image was handled; resumeBatch continues them
+const RESUMABLE_STATUSES = ['processing', 'paused', 'cancelled'];
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  processing: { label: 'IN PROGRESS', className: 'bg-indigo-100 text-indigo-600' },
+  paused: { label: 'PAUSED', className: 'bg-amber-100 text-amber-600' },
+  cancelled: { label: 'CANCELLED', className: 'bg-rose-100 text-rose-600' }
+};
+
 interface BatchHistoryProps {
   batches: BatchSummary[];
   onLoadBatch: (batchId: string) => void;
@@ -66,6 +76,8 @@ const BatchHistory: React.FC<BatchHistoryProps> = ({ batches, onLoadBatch, onDow
             <tbody className="divide-y divide-slate-50">
               {batches.map((batch) => {
                 const isLocal = batch.batch_id.startsWith('local-');
+                const badge = batch.status ? STATUS_BADGES[batch.status] : undefined;
+                const canResume = !!batch.status && RESUMABLE_STATUSES.includes(batch.status);
                 return (
                   <tr key={batch.batch_id} className="group hover:bg-indigo-50/30 transition-all cursor-default">
                     <td className="px-8 py-6">
@@ -96,6 +108,7 @@ const BatchHistory: React.FC<BatchHistoryProps> = ({ batches, onLoadBatch, onDow
                           <div className="flex items-center gap-2">
                             <p className="text-slate-400 text-[10px] font-black tracking-widest uppercase">Captured</p>
                             {isLocal && <span className="text-[9px] bg-sky-100 text-sky-600 px-1.5 py-0.5 rounded font-black tracking-tighter">LOCAL</span>}
+                            {badge && <span className={`text-[9px] ${badge.className} px-1.5 py-0.5 rounded font-black tracking-tighter`}>{badge.label}</span>}
                           </div>
                         </div>
                       </div>
@@ -125,7 +138,7 @@ const BatchHistory: React.FC<BatchHistoryProps> = ({ batches, onLoadBatch, onDow
                         >
                           Explore
                         </button>
-                        {batch.processed < batch.total_images && onResume && !isLocal && (
+                        {batch.processed < batch.total_images && onResume && (canResume || !isLocal) && (
                           <button
                             onClick={() => onResume(batch.batch_id)}
                             className="bg-amber-500 text-white font-black text-[10px] uppercase tracking-widest px-3 py-2 rounded-lg shadow-lg shadow-amber-100 transition-all active:scale-95"
@@ -1,4 +1,5 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { CapturedPhoto, PhotoRole, PHOTO_ROLE_LABELS, defaultPhotoRole, frontFirst, nextPhotoRole } from '../services/itemPhotos';
 
 
 
@@ -6,7 +7,8 @@ interface CameraCaptureProps {
   initialBoxId?: string;
   onExit: () => void;
   onBatchComplete?: () => void; // Legacy
-  onFilesCaptured?: (files: File[], boxId: string) => void;
+  // photoGroups: shots grouped per item (front first); files is the same photos flattened
+  onFilesCaptured?: (files: File[], boxId: string, photoGroups?: CapturedPhoto[][]) => void;
   standalone?: boolean;
 }
 
@@ -14,6 +16,8 @@ interface QueueItem {
   id: string;
   file: Blob;
   filename: string;
+  groupId: string; // Shots with the same groupId are one catalog item
+  role: PhotoRole;
   status: 'queued' | 'uploading' | 'processing' | 'completed' | 'failed';
   error?: string;
 }
@@ -34,6 +38,18 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ initialBoxId = '', onExit
   const [showReview, setShowReview] = useState(false);
   const [selectedForDelete, setSelectedForDelete] = useState<Set<string>>(new Set());
   const [isProcessingBatch, setIsProcessingBatch] = useState(false);
+  // Multi-photo mode: consecutive shots join the open item until "Next item"
+  const [groupMode, setGroupMode] = useState(false);
+  const [openGroupId, setOpenGroupId] = useState<string | null>(null);
+
+  // Items in capture order, each with its shots in capture order
+  const groups = queue.reduce<QueueItem[][]>((acc, item) => {
+    const group = acc.find(g => g[0].groupId === item.groupId);
+    if (group) group.push(item);
+    else acc.push([item]);
+    return acc;
+  }, []);
+  const openGroupSize = openGroupId ? queue.filter(q => q.groupId === openGroupId).length : 0;
 
   const startCamera = useCallback(async () => {
     try {
@@ -80,14 +96,28 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ initialBoxId = '', onExit
       const filename = `capture_${timestamp}.jpg`;
       const itemId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
       
-      const newItem: QueueItem = { id: itemId, file: blob, filename, status: 'queued' };
-      setQueue(prev => [...prev, newItem]);
+      const groupId = groupMode && openGroupId ? openGroupId : itemId;
+      if (groupMode) setOpenGroupId(groupId);
+      setQueue(prev => {
+        const shotsInGroup = prev.filter(q => q.groupId === groupId).length;
+        const newItem: QueueItem = { id: itemId, file: blob, filename, groupId, role: defaultPhotoRole(shotsInGroup), status: 'queued' };
+        return [...prev, newItem];
+      });
       setLastPreview(URL.createObjectURL(blob));
       
       if (navigator.vibrate) navigator.vibrate(50);
       setIsCapturing(false);
     }, 'image/jpeg', 0.85);
-  }, [isCapturing]);
+  }, [isCapturing, groupMode, openGroupId]);
+
+  const toggleGroupMode = () => {
+    setGroupMode(prev => !prev);
+    setOpenGroupId(null);
+  };
+
+  const cycleRole = (id: string) => {
+    setQueue(prev => prev.map(q => q.id === id ? { ...q, role: nextPhotoRole(q.role) } : q));
+  };
 
   const handleFinishSession = async () => {
     if (queue.length === 0) {
@@ -99,9 +129,10 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ initialBoxId = '', onExit
 
     try {
       if (onFilesCaptured) {
-        // Convert Blobs to Files
-        const files = queue.map(item => new File([item.file], item.filename, { type: 'image/jpeg' }));
-        onFilesCaptured(files, boxId || 'CAMERA-SESSION');
+        // Convert Blobs to Files; the shot marked Front leads its group
+        const photoGroups: CapturedPhoto[][] = groups.map(group => frontFirst(group)
+          .map(item => ({ file: new File([item.file], item.filename, { type: 'image/jpeg' }), role: item.role })));
+        onFilesCaptured(photoGroups.flat().map(photo => photo.file), boxId || 'CAMERA-SESSION', photoGroups);
         // Parent will close the camera
       } else {
         // Fallback or legacy behavior (should not happen in new flow)
@@ -174,24 +205,43 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ initialBoxId = '', onExit
             <h3 style={{ margin: 0, color: '#fff', fontFamily: 'Outfit, sans-serif' }}>Review ({queue.length})</h3>
             <button onClick={() => setShowReview(false)} style={{ background: 'none', border: 'none', color: '#3b82f6', fontSize: '16px', fontWeight: 'bold', cursor: 'pointer' }}>Resume Camera</button>
           </div>
-          <div style={{ flex: 1, overflowY: 'auto', padding: '16px', display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '8px' }}>
-            {queue.map(item => (
-              <div 
-                key={item.id} 
-                onClick={() => toggleDelete(item.id)}
-                style={{ 
-                  position: 'relative', 
-                  aspectRatio: '1', 
-                  borderRadius: '8px', 
-                  overflow: 'hidden', 
-                  border: selectedForDelete.has(item.id) ? '3px solid #ef4444' : '1px solid #333',
-                  opacity: selectedForDelete.has(item.id) ? 0.6 : 1
-                }}
-              >
-                <img src={URL.createObjectURL(item.file)} alt="capture" style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
-                {selectedForDelete.has(item.id) && (
-                  <div style={{ position: 'absolute', top: '4px', right: '4px', background: '#ef4444', borderRadius: '50%', width: '20px', height: '20px', display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: '12px', color: 'white' }}>✕</div>
+          <div style={{ flex: 1, overflowY: 'auto', padding: '16px' }}>
+            {groups.map((group, groupIndex) => (
+              <div key={group[0].groupId} style={{ marginBottom: '16px' }}>
+                {group.length > 1 && (
+                  <div style={{ color: '#9ca3af', fontSize: '11px', fontWeight: 800, textTransform: 'uppercase', letterSpacing: '1px', marginBottom: '6px' }}>
+                    Item {groupIndex + 1} • {group.length} photos
+                  </div>
                 )}
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '8px' }}>
+                  {group.map(item => (
+                    <div 
+                      key={item.id} 
+                      onClick={() => toggleDelete(item.id)}
+                      style={{ 
+                        position: 'relative', 
+                        aspectRatio: '1', 
+                        borderRadius: '8px', 
+                        overflow: 'hidden', 
+                        border: selectedForDelete.has(item.id) ? '3px solid #ef4444' : '1px solid #333',
+                        opacity: selectedForDelete.has(item.id) ? 0.6 : 1
+                      }}
+                    >
+                      <img src={URL.createObjectURL(item.file)} alt="capture" style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+                      {group.length > 1 && (
+                        <button
+                          onClick={(e) => { e.stopPropagation(); cycleRole(item.id); }}
+                          style={{ position: 'absolute', bottom: '4px', left: '4px', background: 'rgba(0,0,0,0.7)', color: '#fff', border: '1px solid rgba(255,255,255,0.3)', borderRadius: '6px', fontSize: '10px', fontWeight: 800, padding: '2px 6px', cursor: 'pointer' }}
+                        >
+                          {PHOTO_ROLE_LABELS[item.role]}
+                        </button>
+                      )}
+                      {selectedForDelete.has(item.id) && (
+                        <div style={{ position: 'absolute', top: '4px', right: '4px', background: '#ef4444', borderRadius: '50%', width: '20px', height: '20px', display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: '12px', color: 'white' }}>✕</div>
+                      )}
+                    </div>
+                  ))}
+                </div>
               </div>
             ))}
           </div>
@@ -209,7 +259,7 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ initialBoxId = '', onExit
                 disabled={isProcessingBatch}
                 style={{ flex: 1, padding: '16px', background: '#22c55e', color: 'white', border: 'none', borderRadius: '12px', fontWeight: 'bold', fontSize: '16px', opacity: isProcessingBatch ? 0.5 : 1 }}
               >
-                {isProcessingBatch ? 'Saving...' : `✨ Identify ${queue.length} Items`}
+                {isProcessingBatch ? 'Saving...' : `✨ Identify ${groups.length} Items`}
               </button>
             )}
           </div>
@@ -220,7 +270,26 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ initialBoxId = '', onExit
       {!showReview && (
         <div style={bottomBarStyle}>
           <div style={statsBarStyle}>
-            <div style={{ color: '#fff', fontSize: '16px', fontWeight: 800 }}>📂 BOX: {boxId || 'No Name'} • {queue.length} PHOTOS</div>
+            <div style={{ color: '#fff', fontSize: '16px', fontWeight: 800 }}>
+              📂 BOX: {boxId || 'No Name'} • {groups.length !== queue.length ? `${groups.length} ITEMS / ` : ''}{queue.length} PHOTOS
+            </div>
+          </div>
+
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button
+              onClick={toggleGroupMode}
+              style={{ padding: '8px 14px', borderRadius: '20px', border: '1px solid rgba(255,255,255,0.3)', backgroundColor: groupMode ? '#4f46e5' : 'rgba(255,255,255,0.1)', color: '#fff', fontSize: '12px', fontWeight: 800, cursor: 'pointer' }}
+            >
+              📎 {groupMode ? 'Multi-photo ON' : 'Multi-photo'}
+            </button>
+            {groupMode && openGroupSize > 0 && (
+              <button
+                onClick={() => setOpenGroupId(null)}
+                style={{ padding: '8px 14px', borderRadius: '20px', border: '1px solid rgba(255,255,255,0.3)', backgroundColor: 'rgba(255,255,255,0.1)', color: '#fff', fontSize: '12px', fontWeight: 800, cursor: 'pointer' }}
+              >
+                Next item ▶ ({openGroupSize} shot{openGroupSize === 1 ? '' : 's'}, next: {PHOTO_ROLE_LABELS[defaultPhotoRole(openGroupSize)]})
+              </button>
+            )}
           </div>
 
           <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '30px', width: '100%', marginBottom: '10px' }}>
@@ -257,7 +326,7 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ initialBoxId = '', onExit
                 opacity: queue.length > 0 ? 1 : 0.3
               }}
             >
-              {queue.length > 0 ? `✨ SAVE & IDENTIFY (${queue.length})` : 'Take some photos first'}
+              {queue.length > 0 ? `✨ SAVE & IDENTIFY (${groups.length})` : 'Take some photos first'}
             </button>
           </div>
         </div>
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { DuplicateAction, DuplicateReviewEntry } from '../services/duplicateReview';
+
+interface DuplicateReviewListProps {
+  entries: DuplicateReviewEntry[];
+  onResolve: (entry: DuplicateReviewEntry, action: DuplicateAction) => Promise<void>;
+}
+
+const toImageSrc = (data?: Blob | string) => {
+  if (!data || typeof data !== 'string') return '';
+  return data.startsWith('data:') ? data : `data:image/jpeg;base64,${data}`;
+};
+
+const imageBoxStyle: React.CSSProperties = {
+  width: '100%',
+  aspectRatio: '1',
+  borderRadius: '8px',
+  backgroundColor: '#F3F4F6',
+  overflow: 'hidden',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center'
+};
+
+const captionStyle: React.CSSProperties = {
+  fontSize: '10px',
+  fontWeight: 800,
+  letterSpacing: '0.1em',
+  textTransform: 'uppercase',
+  color: 'var(--text-secondary)',
+  margin: '0 0 6px'
+};
+
+const DuplicateReviewList: React.FC<DuplicateReviewListProps> = ({ entries, onResolve }) => {
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const handleAction = async (entry: DuplicateReviewEntry, action: DuplicateAction) => {
+    setBusyId(entry.review.id ?? null);
+    try {
+      await onResolve(entry, action);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (entries.length === 0) {
+    return (
+      <div className="empty-state">
+        <div className="empty-state-icon">✅</div>
+        <p className="empty-state-text">No possible duplicates waiting for review.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+      {entries.map(entry => {
+        const { review, capture, match } = entry;
+        const busy = busyId === review.id;
+        const captureSrc = toImageSrc(capture?.image_data);
+        const matchSrc = toImageSrc(match.thumbnail);
+        return (
+          <div key={review.id} className="card" style={{ padding: '16px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+              <span style={{ fontWeight: 700, fontSize: '13px', color: 'var(--text-main)' }}>
+                {review.match_type === 'exact' ? 'Identical photo' : 'Looks similar'}
+              </span>
+              <span style={{
+                fontSize: '12px',
+                fontWeight: 800,
+                padding: '2px 8px',
+                borderRadius: '999px',
+                background: review.score >= 0.95 ? '#FEE2E2' : '#FEF3C7',
+                color: review.score >= 0.95 ? '#991B1B' : '#92400E'
+              }}>
+                {Math.round(review.score * 100)}% match
+              </span>
+            </div>
+
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+              <div>
+                <p style={captionStyle}>New capture</p>
+                <div style={imageBoxStyle}>
+                  {captureSrc
+                    ? <img src={captureSrc} alt="New capture" style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+                    : <span style={{ fontSize: '24px' }}>📷</span>}
+                </div>
+                <p style={{ fontSize: '13px', fontWeight: 600, margin: '8px 0 2px' }}>{capture?.title || 'Unknown capture'}</p>
+                <p style={{ fontSize: '11px', color: 'var(--text-secondary)', margin: 0 }}>
+                  {capture ? `${capture.filename} · Box ${capture.box_id}` : 'Capture record was deleted'}
+                </p>
+              </div>
+              <div>
+                <p style={captionStyle}>In inventory</p>
+                <div style={imageBoxStyle}>
+                  {matchSrc
+                    ? <img src={matchSrc} alt={match.title} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+                    : <span style={{ fontSize: '24px' }}>📦</span>}
+                </div>
+                <p style={{ fontSize: '13px', fontWeight: 600, margin: '8px 0 2px' }}>{match.title}</p>
+                <p style={{ fontSize: '11px', color: 'var(--text-secondary)', margin: 0 }}>
+                  Scanned {match.times_scanned || 1}× · Box {match.box_id}
+                </p>
+              </div>
+            </div>
+
+            <div style={{ display: 'flex', gap: '8px', marginTop: '16px' }}>
+              <button
+                className="btn-seamless btn-primary"
+                disabled={busy}
+                onClick={() => handleAction(entry, 'merge')}
+                style={{ flex: 1, fontSize: '12px' }}
+                title="Same item: count another scan and keep this capture in its history"
+              >
+                Merge
+              </button>
+              <button
+                className="btn-seamless btn-ghost"
+                disabled={busy}
+                onClick={() => handleAction(entry, 'separate')}
+                style={{ flex: 1, fontSize: '12px' }}
+                title="Different items: keep both and don't ask about this pair again"
+              >
+                Keep separate
+              </button>
+              <button
+                className="btn-seamless btn-ghost"
+                disabled={busy}
+                onClick={() => handleAction(entry, 'replace')}
+                style={{ flex: 1, fontSize: '12px' }}
+                title="Same item: merge, and use the new photo as its image"
+              >
+                Replace
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DuplicateReviewList;
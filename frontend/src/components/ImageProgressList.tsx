@@ -3,15 +3,24 @@ import React, { useEffect, useRef } from 'react';
 export interface ItemStatus {
   id: number;
   filename: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'skipped';
   error_message?: string | null;
 }
 
 interface ImageProgressListProps {
   items: ItemStatus[];
+  // Run controls (shown only while a batch is running)
+  running?: boolean;
+  paused?: boolean;
+  onPause?: () => void;
+  onResume?: () => void;
+  onCancel?: () => void;
+  // Per-image controls for images still waiting in the queue
+  onSkip?: (id: number) => void;
+  onMoveToFront?: (id: number) => void;
 }
 
-const ImageProgressList: React.FC<ImageProgressListProps> = ({ items }) => {
+const ImageProgressList: React.FC<ImageProgressListProps> = ({ items, running, paused, onPause, onResume, onCancel, onSkip, onMoveToFront }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const processingIndex = items.findIndex(item => item.status === 'processing');
 
@@ -27,28 +36,89 @@ const ImageProgressList: React.FC<ImageProgressListProps> = ({ items }) => {
       case 'processing': return <div className="w-2 h-2 bg-indigo-500 rounded-full animate-pulse shadow-[0_0_8px_rgba(99,102,241,0.6)]" />;
       case 'completed': return <div className="w-2 h-2 bg-emerald-500 rounded-full shadow-[0_0_8px_rgba(16,185,129,0.4)]" />;
       case 'failed': return <div className="w-2 h-2 bg-rose-500 rounded-full shadow-[0_0_8px_rgba(244,63,94,0.4)]" />;
+      case 'skipped': return <div className="w-2 h-2 bg-amber-400 rounded-full" />;
       default: return <div className="w-2 h-2 bg-slate-300 rounded-full" />;
     }
   };
 
   if (items.length === 0) return null;
 
+  const firstPendingId = items.find(item => item.status === 'pending')?.id;
+
   return (
-    <div className="space-y-2 max-h-[120px] overflow-y-auto pr-2 custom-scrollbar">
-      {items.map((item, index) => (
-        <div 
-          key={item.id} 
-          className={`flex items-center gap-3 py-1 px-3 rounded-xl transition-all duration-300 ${item.status === 'processing' ? 'bg-indigo-500/10 border border-indigo-500/20' : 'bg-white/5 border border-transparent'}`}
-        >
-          {getStatusIcon(item.status)}
-          <span className={`text-[11px] font-bold flex-1 truncate ${item.status === 'completed' ? 'text-slate-400' : 'text-white'}`}>
-            {item.filename}
-          </span>
-          {item.status === 'processing' && (
-            <span className="text-[9px] font-black text-indigo-400 uppercase tracking-widest animate-pulse">Analysing</span>
+    <div>
+      {running && (onPause || onCancel) && (
+        <div className="flex gap-2 mb-3">
+          {paused ? (
+            onResume && (
+              <button
+                onClick={onResume}
+                className="flex-1 bg-indigo-500 text-white font-black text-[10px] uppercase tracking-widest px-3 py-2 rounded-lg transition-all active:scale-95"
+              >
+                ▶ Resume
+              </button>
+            )
+          ) : (
+            onPause && (
+              <button
+                onClick={onPause}
+                className="flex-1 bg-slate-100 text-slate-700 font-black text-[10px] uppercase tracking-widest px-3 py-2 rounded-lg transition-all active:scale-95"
+              >
+                ⏸ Pause
+              </button>
+            )
+          )}
+          {onCancel && (
+            <button
+              onClick={onCancel}
+              className="flex-1 bg-red-50 text-red-500 hover:bg-red-100 font-black text-[10px] uppercase tracking-widest px-3 py-2 rounded-lg transition-all active:scale-95"
+            >
+              ✕ Cancel
+            </button>
           )}
         </div>
-      ))}
+      )}
+      <div className="space-y-2 max-h-[120px] overflow-y-auto pr-2 custom-scrollbar">
+        {items.map((item, index) => (
+          <div 
+            key={item.id} 
+            className={`flex items-center gap-3 py-1 px-3 rounded-xl transition-all duration-300 ${item.status === 'processing' ? 'bg-indigo-500/10 border border-indigo-500/20' : 'bg-white/5 border border-transparent'}`}
+          >
+            {getStatusIcon(item.status)}
+            <span className={`text-[11px] font-bold flex-1 truncate ${item.status === 'completed' ? 'text-slate-400' : 'text-white'}`}>
+              {item.filename}
+            </span>
+            {item.status === 'processing' && (
+              <span className="text-[9px] font-black text-indigo-400 uppercase tracking-widest animate-pulse">{paused ? 'Paused' : 'Analysing'}</span>
+            )}
+            {item.status === 'skipped' && (
+              <span className="text-[9px] font-black text-amber-500 uppercase tracking-widest">Skipped</span>
+            )}
+            {running && item.status === 'pending' && (
+              <span className="flex gap-1">
+                {onMoveToFront && item.id !== firstPendingId && (
+                  <button
+                    onClick={() => onMoveToFront(item.id)}
+                    className="text-[9px] font-black text-slate-400 hover:text-indigo-500 uppercase tracking-widest px-1"
+                    title="Process next"
+                  >
+                    ⤒ Next
+                  </button>
+                )}
+                {onSkip && (
+                  <button
+                    onClick={() => onSkip(item.id)}
+                    className="text-[9px] font-black text-slate-400 hover:text-rose-500 uppercase tracking-widest px-1"
+                    title="Skip this image"
+                  >
+                    Skip
+                  </button>
+                )}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
     </div>
   );
 };
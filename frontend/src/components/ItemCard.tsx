@@ -1,5 +1,10 @@
 import React from 'react';
 import { openEbayComps } from '../services/ebaySearch';
+import { DetectedBarcode } from '../services/barcodeService';
+import { CategoryId, ItemAttributes } from '../services/categoryTemplates';
+import { DEFAULT_REVIEW_THRESHOLD, FieldConfidence, ReviewStatus, lowConfidenceFields } from '../services/fieldConfidence';
+import { Era } from '../services/era';
+import { PhotoRole } from '../services/itemPhotos';
 
 export interface CatalogItem {
   id?: number;
@@ -9,11 +14,21 @@ export interface CatalogItem {
   title: string;
   type: string;
   year?: string;
+  era?: Era;
   notes?: string;
   confidence: string;
   processed_at: string;
   image_data?: string;
-  status?: 'pending' | 'processing' | 'completed' | 'failed';
+  extra_photos?: Array<{ role: PhotoRole; image_data: string; filename?: string }>; // Data URLs, in order after the front
+  barcodes?: DetectedBarcode[];
+  category?: CategoryId | 'general';
+  attributes?: ItemAttributes;
+  prompt_version?: number;
+  prompt_id?: string;
+  ai_model?: string;
+  field_confidence?: FieldConfidence;
+  review_status?: ReviewStatus;
+  status?: 'pending' | 'processing' | 'completed' | 'failed' | 'skipped';
   comps_quote?: string;
   saved_comps?: string; // JSON string of comps history
   condition_estimate?: string;
@@ -23,9 +38,11 @@ export interface CatalogItem {
 interface ItemCardProps {
   item: CatalogItem;
   onCardClick: (item: CatalogItem) => void;
+  reviewThreshold?: number;
 }
 
-const ItemCard: React.FC<ItemCardProps> = ({ item, onCardClick }) => {
+const ItemCard: React.FC<ItemCardProps> = ({ item, onCardClick, reviewThreshold = DEFAULT_REVIEW_THRESHOLD }) => {
+  const doubtfulTitle = lowConfidenceFields(item, reviewThreshold).includes('title');
   return (
     <div 
       className="triage-card" 
@@ -66,7 +83,13 @@ const ItemCard: React.FC<ItemCardProps> = ({ item, onCardClick }) => {
 
       {/* Footer */}
       <div className="triage-card-footer">
-        <h3 className="triage-card-title">{item.title || 'Untitled'}</h3>
+        <h3
+          className="triage-card-title"
+          title={doubtfulTitle ? `AI confidence ${item.field_confidence!.title}%` : undefined}
+          style={doubtfulTitle ? { color: '#B45309', textDecoration: 'underline dotted' } : undefined}
+        >
+          {item.title || 'Untitled'}
+        </h3>
         <div className="triage-card-badges">
           {item.comps_quote ? (
             <span className="triage-card-badge" style={{ background: '#FEF3C7', color: '#92400E', fontWeight: 800 }}>
@@ -81,6 +104,16 @@ const ItemCard: React.FC<ItemCardProps> = ({ item, onCardClick }) => {
               🔍 Comps
             </span>
           )}
+          {item.review_status === 'needs_review' && (
+            <span className="triage-card-badge" title="Some fields are uncertain" style={{ background: '#FEF3C7', color: '#92400E', borderColor: '#FDE68A' }}>
+              ⚠️ Review
+            </span>
+          )}
+          {item.extra_photos && item.extra_photos.length > 0 && (
+            <span className="triage-card-badge" title="Photos of this item">
+              📷 {item.extra_photos.length + 1}
+            </span>
+          )}
           {/* Mom-Proofing: Cloud Checkmark (Always green for simplicity if item exists) */}
            <span className="triage-card-badge" style={{ background: '#ECFDF5', color: '#059669', borderColor: '#A7F3D0', padding: '2px 6px', fontSize: '11px' }}>
              ☁️✅
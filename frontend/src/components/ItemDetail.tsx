@@ -1,6 +1,13 @@
 import React, { useState } from 'react';
 import { CatalogItem } from './ItemCard';
 import { openEbayComps } from '../services/ebaySearch';
+import { PHOTO_ROLE_LABELS, PhotoRole } from '../services/itemPhotos';
+import { DEFAULT_REVIEW_THRESHOLD, lowConfidenceFields } from '../services/fieldConfidence';
+import { ConsensusReport } from '../services/consensus';
+import { ROUTING_POLICIES, RouteDecision } from '../services/routingPolicy';
+import { AnswerHistoryEntry, acceptHistoryEntry } from '../services/expertReview';
+import { AI_PROVIDERS, AIProvider } from '../services/aiProviders';
+import { CATEGORY_IDS, CATEGORY_TEMPLATES, AttributeField, AttributeValue, ItemAttributes, attributeFields, getCategoryTemplate, parseAttributeInput } from '../services/categoryTemplates';
 
 interface ItemDetailProps {
   item: CatalogItem;
@@ -8,15 +15,28 @@ interface ItemDetailProps {
   onSave?: (updatedItem: CatalogItem) => void;
   onDelete?: (item: CatalogItem) => void;
   onRetry?: (item: CatalogItem) => void;
+  customFields?: AttributeField[]; // Active prompt configuration's fields (Settings)
+  promptVersion?: number; // Item's prompt version as numbered now (promptVersionOf)
+  reviewThreshold?: number;
 }
 
-const ItemDetail: React.FC<ItemDetailProps> = ({ item, onClose, onSave, onDelete, onRetry }) => {
+const ItemDetail: React.FC<ItemDetailProps> = ({ item, onClose, onSave, onDelete, onRetry, customFields = [], promptVersion = item.prompt_version, reviewThreshold = DEFAULT_REVIEW_THRESHOLD }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editedItem, setEditedItem] = useState<CatalogItem>({ ...item });
   const [isRetrying, setIsRetrying] = useState(false);
 
   const [showCompsPrompt, setShowCompsPrompt] = useState(false);
   const [tempComps, setTempComps] = useState(item.comps_quote || '');
+  const [photoIndex, setPhotoIndex] = useState(0);
+  // Category fields as typed in the form; converted to their types on save
+  const [attributeDrafts, setAttributeDrafts] = useState<Record<string, string | boolean>>({});
+
+  // Front first, then the item's other shots in capture order
+  const photos: Array<{ role: PhotoRole; image_data?: string }> = [
+    { role: 'front', image_data: item.image_data },
+    ...(item.extra_photos || [])
+  ];
+  const shownImage = photos[photoIndex]?.image_data || item.image_data;
 
   // Helper for placeholders
   const getPlaceholder = (type?: string) => {
@@ -58,9 +78,75 @@ const ItemDetail: React.FC<ItemDetailProps> = ({ item, onClose, onSave, onDelete
     setShowCompsPrompt(false);
   };
 
+  const template = getCategoryTemplate(item.category);
+  const editFields = attributeFields(getCategoryTemplate(editedItem.category), customFields);
+  // Known fields first, then values from fields no longer configured
+  const knownFields = attributeFields(template, customFields);
+  const shownAttributes: Array<[string, string, AttributeValue]> = [
+    ...knownFields.map(field => [field.key, field.label, item.attributes?.[field.key]] as [string, string, AttributeValue]),
+    ...Object.entries(item.attributes || {})
+      .filter(([key]) => !knownFields.some(field => field.key === key))
+      .map(([key, value]) => [key, key, value] as [string, string, AttributeValue])
+  ].filter(([, , value]) => value !== undefined);
+
+  // Fields the model was unsure of are highlighted, with their score on hover
+  const lowFields = lowConfidenceFields(item, reviewThreshold);
+  const doubtful = (field: string) => lowFields.includes(field) ? {
+    title: `AI confidence ${item.field_confidence![field]}%`,
+    style: { background: '#FEF3C7', boxShadow: '0 0 0 2px #FDE68A' }
+  } : {};
+
+  const consensus: ConsensusReport | undefined = item.raw_metadata?.consensus;
+  const routing: RouteDecision | undefined = item.raw_metadata?.routing;
+  const answerHistory: AnswerHistoryEntry[] | undefined = item.raw_metadata?.answer_history;
+
+  // Expert review: make another answer from the history the item's answer
+  const acceptAnswer = (index: number) => {
+    const accepted = onSave && acceptHistoryEntry(item.raw_metadata || {}, index);
+    if (!accepted) return;
+    const { fields } = accepted;
+    onSave!({
+      ...item,
+      title: fields.title,
+      type: fields.type,
+      year: fields.year,
+      notes: fields.notes,
+      confidence: fields.confidence,
+      condition_estimate: fields.condition_estimate,
+      field_confidence: fields.field_confidence,
+      ...(fields.attributes ? { attributes: fields.attributes } : {}),
+      raw_metadata: accepted.raw_metadata,
+      ai_model: accepted.raw_metadata.ai_model,
+      review_status: 'reviewed'
+    });
+  };
+
+  const markReviewed = () => {
+    if (onSave) onSave({ ...item, review_status: 'reviewed' });
+  };
+
+  const draftValue = (value?: AttributeValue): string | boolean =>
+    typeof value === 'boolean' ? value : value === undefined ? '' : String(value);
+
+  const startEditing = () => {
+    setEditedItem({ ...item });
+    setAttributeDrafts(Object.fromEntries(Object.entries(item.attributes || {}).map(([key, value]) => [key, draftValue(value)])));
+    setIsEditing(true);
+  };
+
   const handleSave = () => {
     if (onSave) {
-      onSave(editedItem);
+      const attributes: ItemAttributes = {};
+      for (const field of editFields) {
+        const value = parseAttributeInput(field, attributeDrafts[field.key] ?? '');
+        if (value !== undefined) attributes[field.key] = value;
+      }
+      onSave({
+        ...editedItem,
+        attributes: editFields.length > 0 ? attributes : undefined,
+        // Checking and saving the fields is the review
+        review_status: editedItem.review_status === 'needs_review' ? 'reviewed' : editedItem.review_status
+      });
     }
     setIsEditing(false);
   };
@@ -117,7 +203,7 @@ const ItemDetail: React.FC<ItemDetailProps> = ({ item, onClose, onSave, onDelete
             overflow: 'hidden'
         }}>
             <img
-                src={item.image_data ? (item.image_data.startsWith('data:') ? item.image_data : `data:image/jpeg;base64,${item.image_data}`) : getPlaceholder(item.type)}
+                src={shownImage ? (shownImage.startsWith('data:') ? shownImage : `data:image/jpeg;base64,${shownImage}`) : getPlaceholder(item.type)}
                 alt={item.title}
                 style={{
                 width: '100%',
@@ -127,6 +213,35 @@ const ItemDetail: React.FC<ItemDetailProps> = ({ item, onClose, onSave, onDelete
             />
         </div>
 
+        {/* Photo strip (multi-photo items) */}
+        {photos.length > 1 && (
+          <div style={{ display: 'flex', gap: '8px', padding: '12px 20px 0', overflowX: 'auto' }}>
+            {photos.map((photo, index) => (
+              <button
+                key={index}
+                onClick={() => setPhotoIndex(index)}
+                style={{
+                  flexShrink: 0,
+                  width: '64px',
+                  padding: 0,
+                  border: index === photoIndex ? '2px solid var(--primary)' : '1px solid #E5E7EB',
+                  borderRadius: '8px',
+                  background: 'white',
+                  overflow: 'hidden',
+                  cursor: 'pointer'
+                }}
+              >
+                {photo.image_data && (
+                  <img src={photo.image_data} alt={PHOTO_ROLE_LABELS[photo.role]} style={{ width: '100%', height: '48px', objectFit: 'cover', display: 'block' }} />
+                )}
+                <span style={{ display: 'block', fontSize: '10px', fontWeight: 700, padding: '2px 0', color: 'var(--text-secondary)' }}>
+                  {PHOTO_ROLE_LABELS[photo.role]}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Info Panel */}
         <div style={{ padding: '20px' }}>
           {isEditing ? (
@@ -176,6 +291,50 @@ const ItemDetail: React.FC<ItemDetailProps> = ({ item, onClose, onSave, onDelete
                   onChange={(e) => setEditedItem({ ...editedItem, box_id: e.target.value })}
                 />
               </div>
+              <div style={{ marginBottom: '12px' }}>
+                <label style={{ fontSize: '11px', fontWeight: 600, color: 'var(--text-secondary)', display: 'block', marginBottom: '4px' }}>
+                  CATEGORY
+                </label>
+                <select
+                  value={editedItem.category || 'general'}
+                  onChange={(e) => setEditedItem({ ...editedItem, category: e.target.value as CatalogItem['category'] })}
+                >
+                  <option value="general">General</option>
+                  {CATEGORY_IDS.map(id => <option key={id} value={id}>{CATEGORY_TEMPLATES[id].label}</option>)}
+                </select>
+              </div>
+              {editFields.length > 0 && (
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', marginBottom: '12px' }}>
+                  {editFields.map(field => {
+                    const value = attributeDrafts[field.key] ?? (field.type === 'boolean' ? false : '');
+                    const setValue = (next: string | boolean) => setAttributeDrafts({ ...attributeDrafts, [field.key]: next });
+                    return (
+                      <div key={field.key}>
+                        <label style={{ fontSize: '11px', fontWeight: 600, color: 'var(--text-secondary)', display: 'block', marginBottom: '4px', textTransform: 'uppercase' }}>
+                          {field.label}
+                        </label>
+                        {field.type === 'boolean' ? (
+                          <input type="checkbox" checked={value === true} onChange={(e) => setValue(e.target.checked)} style={{ width: 'auto' }} />
+                        ) : field.type === 'select' ? (
+                          <select value={String(value)} onChange={(e) => setValue(e.target.value)}>
+                            <option value="">—</option>
+                            {/* Keep a value the model gave outside the list */}
+                            {value && !(field.options || []).includes(String(value)) && <option value={String(value)}>{String(value)}</option>}
+                            {(field.options || []).map(option => <option key={option} value={option}>{option}</option>)}
+                          </select>
+                        ) : (
+                          <input
+                            type={field.type === 'number' ? 'number' : 'text'}
+                            value={String(value)}
+                            placeholder={field.hint}
+                            onChange={(e) => setValue(e.target.value)}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
               <div style={{ marginBottom: '16px' }}>
                 <label style={{ fontSize: '11px', fontWeight: 600, color: 'var(--text-secondary)', display: 'block', marginBottom: '4px' }}>
                   NOTES
@@ -218,7 +377,9 @@ const ItemDetail: React.FC<ItemDetailProps> = ({ item, onClose, onSave, onDelete
                   color: 'var(--text-main)',
                   lineHeight: 1.2
                 }}>
-                  {item.title || 'Untitled Item'}
+                  <span title={doubtful('title').title} style={{ borderRadius: '4px', ...doubtful('title').style }}>
+                    {item.title || 'Untitled Item'}
+                  </span>
                 </h2>
               </div>
 
@@ -232,11 +393,80 @@ const ItemDetail: React.FC<ItemDetailProps> = ({ item, onClose, onSave, onDelete
                   🔍 View Price Comps
                 </button>
                 {item.comps_quote && <span className="badge" style={{ background: '#fef3c7', color: '#92400e', border: '1px solid #fde68a', fontWeight: 800 }}>💰 Est. ${item.comps_quote}</span>}
-                {item.year && <span className="badge" style={{ padding: '8px 12px', background: '#F1F5F9', color: '#475569', fontSize: '13px' }}>📅 {item.year}</span>}
-                {item.type && <span className="badge" style={{ padding: '8px 12px', background: '#F1F5F9', color: '#475569', fontSize: '13px' }}>📁 {item.type}</span>}
+                {item.year && <span className="badge" title={doubtful('year').title} style={{ padding: '8px 12px', background: '#F1F5F9', color: '#475569', fontSize: '13px', ...doubtful('year').style }}>📅 {item.year}</span>}
+                {item.type && <span className="badge" title={doubtful('type').title} style={{ padding: '8px 12px', background: '#F1F5F9', color: '#475569', fontSize: '13px', ...doubtful('type').style }}>📁 {item.type}</span>}
                 {item.box_id && <span className="badge" style={{ padding: '8px 12px', background: '#ecfdf5', color: '#065f46', border: '1px solid #d1fae5' }}>📦 {item.box_id}</span>}
+                {item.barcodes?.map(code => (
+                  <span
+                    key={code.value}
+                    className="badge"
+                    title={item.raw_metadata?.catalog_match?.code === code.value ? `Matched in ${item.raw_metadata.catalog_match.source}` : undefined}
+                    style={{ padding: '8px 12px', background: '#F1F5F9', color: '#475569', fontSize: '13px', fontFamily: 'monospace' }}
+                  >
+                    ▮▯ {code.kind.toUpperCase()} {code.value}{item.raw_metadata?.catalog_match?.code === code.value ? ' ✓' : ''}
+                  </span>
+                ))}
               </div>
 
+              {item.review_status === 'needs_review' && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '10px', padding: '10px 14px', marginBottom: '20px', background: '#FFFBEB', border: '1px solid #FDE68A', borderRadius: '12px', fontSize: '13px', color: '#92400E' }}>
+                  <span style={{ flex: 1 }}>
+                    ⚠️ Needs review{lowFields.length > 0 ? `: the AI is unsure of ${lowFields.join(', ')}` : ': low overall confidence'}
+                  </span>
+                  {onSave && (
+                    <button className="btn-seamless btn-ghost" onClick={markReviewed} style={{ width: 'auto', padding: '6px 12px', fontSize: '12px' }}>
+                      ✓ Looks right
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Consensus mode: where the models diverged */}
+              {consensus && (
+                <div style={{ background: '#F9FAFB', padding: '16px', borderRadius: '12px', border: '1px solid #F1F5F9', marginBottom: '20px', fontSize: '13px' }}>
+                  <label style={{ fontSize: '10px', fontWeight: 800, color: '#94A3B8', textTransform: 'uppercase', display: 'block', marginBottom: '8px' }}>
+                    {consensus.providers.map(id => AI_PROVIDERS[id]?.label || id).join(' · ')}
+                  </label>
+                  {consensus.disagreements.length === 0 ? (
+                    <p style={{ margin: 0, color: '#059669' }}>✓ The models agreed on every field.</p>
+                  ) : consensus.disagreements.map(disagreement => (
+                    <div key={disagreement.field} style={{ marginBottom: '6px' }}>
+                      <strong>{knownFields.find(field => field.key === disagreement.field)?.label || disagreement.field}</strong>
+                      {(Object.entries(disagreement.values) as Array<[AIProvider, string]>).map(([provider, value]) => (
+                        <div key={provider} style={{ paddingLeft: '8px', color: value === disagreement.chosen ? 'var(--text-main)' : 'var(--text-secondary)' }}>
+                          {AI_PROVIDERS[provider]?.label || provider}: {value}{value === disagreement.chosen ? ' ✓' : ''}
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Expert review: the first answer and the expert's, the accepted one marked */}
+              {answerHistory && answerHistory.length > 1 && (
+                <div style={{ background: '#F9FAFB', padding: '16px', borderRadius: '12px', border: '1px solid #F1F5F9', marginBottom: '20px', fontSize: '13px' }}>
+                  <label style={{ fontSize: '10px', fontWeight: 800, color: '#94A3B8', textTransform: 'uppercase', display: 'block', marginBottom: '8px' }}>
+                    Answer history
+                  </label>
+                  {answerHistory.map((entry, index) => (
+                    <div key={index} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '6px', color: entry.accepted ? 'var(--text-main)' : 'var(--text-secondary)' }}>
+                      <span style={{ flex: 1 }}>
+                        <strong>{entry.role === 'expert' ? 'Expert' : 'First answer'}</strong>
+                        {' '}({AI_PROVIDERS[entry.provider as AIProvider]?.label || entry.provider || 'unknown'}{entry.model ? ` · ${entry.model}` : ''}, {entry.answer.confidence}):
+                        {' '}{entry.answer.title}{entry.answer.year ? `, ${entry.answer.year}` : ''}
+                      </span>
+                      {entry.accepted ? (
+                        <span style={{ color: '#059669', fontWeight: 700 }}>✓ Accepted</span>
+                      ) : onSave && (
+                        <button className="btn-seamless btn-ghost" onClick={() => acceptAnswer(index)} style={{ width: 'auto', padding: '4px 10px', fontSize: '12px' }}>
+                          Use this
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Retry AI Button (Only for Failed Items) */}
               {(item.title === 'Manual Entry Required' || item.confidence === '0%') && onRetry && (
                 <button 
@@ -283,23 +513,60 @@ const ItemDetail: React.FC<ItemDetailProps> = ({ item, onClose, onSave, onDelete
                   lineHeight: 1.6,
                   fontStyle: item.notes ? 'normal' : 'italic'
                 }}>
-                  {item.notes || 'No extra notes recorded.'}
+                  <span title={doubtful('notes').title} style={{ borderRadius: '4px', ...doubtful('notes').style }}>
+                    {item.notes || 'No extra notes recorded.'}
+                  </span>
                 </p>
               </div>
 
+              {/* Category fields */}
+              {shownAttributes.length > 0 && (
+                <div style={{ background: '#F9FAFB', padding: '16px', borderRadius: '12px', border: '1px solid #F1F5F9', marginBottom: '20px' }}>
+                  <label style={{ fontSize: '10px', fontWeight: 800, color: '#94A3B8', textTransform: 'uppercase', display: 'block', marginBottom: '8px' }}>
+                    {template ? `${template.label} Details` : 'Details'}
+                  </label>
+                  <dl style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '6px 16px', margin: 0, fontSize: '14px' }}>
+                    {shownAttributes.map(([key, label, value]) => (
+                      <React.Fragment key={key}>
+                        <dt style={{ color: 'var(--text-secondary)', fontWeight: 600 }}>{label}</dt>
+                        <dd title={doubtful(key).title} style={{ margin: 0, color: 'var(--text-main)', borderRadius: '4px', ...doubtful(key).style }}>
+                          {typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value)}
+                        </dd>
+                      </React.Fragment>
+                    ))}
+                  </dl>
+                </div>
+              )}
+
               <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '24px', opacity: 0.7 }}>
                 <span style={{ fontSize: '12px', fontWeight: 700, color: 'var(--text-secondary)' }}>AI Confidence:</span>
                 <div style={{ flex: 1, height: '6px', background: '#E5E7EB', borderRadius: '3px', overflow: 'hidden' }}>
                   <div style={{ height: '100%', width: item.confidence || '0%', background: '#10B981' }} />
                 </div>
                 <span style={{ fontSize: '12px', fontWeight: 800, color: '#059669' }}>{item.confidence || '0%'}</span>
+                {promptVersion !== undefined && (
+                  <span style={{ fontSize: '11px', color: 'var(--text-secondary)' }} title="Prompt version (Settings)">· prompt v{promptVersion}</span>
+                )}
+                {item.ai_model && (
+                  <span style={{ fontSize: '11px', color: 'var(--text-secondary)', fontFamily: 'monospace' }} title="Model that answered">· {item.ai_model}</span>
+                )}
               </div>
 
+              {/* Routing policy: which providers were tried, in what order and why */}
+              {routing && (
+                <p style={{ fontSize: '11px', color: 'var(--text-secondary)', margin: '-16px 0 24px' }} title={routing.reason}>
+                  🧭 {ROUTING_POLICIES[routing.policy]?.label || routing.policy}: {routing.route.map(id => AI_PROVIDERS[id]?.label || id).join(' → ')}
+                  {routing.answered_by ? ` · answered by ${AI_PROVIDERS[routing.answered_by]?.label || routing.answered_by}` : ''}
+                  {item.raw_metadata?.escalated_from?.length ? ` · escalated past ${item.raw_metadata.escalated_from.map((id: AIProvider) => AI_PROVIDERS[id]?.label || id).join(', ')}` : ''}
+                  <br />{routing.reason}
+                </p>
+              )}
+
               {/* Primary Actions */}
               <div style={{ display: 'flex', gap: '12px', marginBottom: '12px' }}>
                 <button 
                   className="btn-seamless btn-primary" 
-                  onClick={() => setIsEditing(true)} 
+                  onClick={startEditing} 
                   style={{ flex: 2, padding: '14px', fontSize: '16px', fontWeight: 700 }}
                 >
                   ✏️ Edit Info
@@ -5,9 +5,11 @@ interface NavbarProps {
   onMenuClick?: () => void;
   currentView?: string;
   onBack?: () => void;
+  awaitingAICount?: number; // Fallback items queued for re-identification
+  onAwaitingAIClick?: () => void;
 }
 
-const Navbar: React.FC<NavbarProps> = ({ onMenuClick, currentView, onBack }) => {
+const Navbar: React.FC<NavbarProps> = ({ onMenuClick, currentView, onBack, awaitingAICount = 0, onAwaitingAIClick }) => {
   const showBackButton = currentView && currentView !== 'home';
   
   return (
@@ -68,6 +70,26 @@ const Navbar: React.FC<NavbarProps> = ({ onMenuClick, currentView, onBack }) =>
           READY
         </div>
 
+        {/* Items waiting for a real AI answer */}
+        {awaitingAICount > 0 && (
+          <button
+            onClick={onAwaitingAIClick}
+            title="Items identified offline, waiting to be re-identified by AI"
+            style={{
+              background: '#FEF3C7',
+              color: '#92400E',
+              border: 'none',
+              borderRadius: '999px',
+              padding: '4px 10px',
+              fontSize: '12px',
+              fontWeight: 700,
+              cursor: 'pointer'
+            }}
+          >
+            ⏳ {awaitingAICount}
+          </button>
+        )}
+
         {/* Login/User Button */}
         <LoginButton compact />
 
@@ -1,5 +1,7 @@
 import React, { useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
+import { CATEGORY_IDS, CATEGORY_TEMPLATES, CategorySelection } from '../services/categoryTemplates';
+import { ROUTING_POLICIES, ROUTING_POLICY_IDS, RoutingPolicyId } from '../services/routingPolicy';
 
 interface NewSessionCardProps {
   boxId: string;
@@ -8,6 +10,14 @@ interface NewSessionCardProps {
   onStartCataloging: () => void;
   isProcessing?: boolean;
   selectedCount?: number;
+  groupPhotos?: boolean;
+  onGroupPhotosChange?: (value: boolean) => void;
+  category?: CategorySelection;
+  onCategoryChange?: (value: CategorySelection) => void;
+  consensus?: boolean;
+  onConsensusChange?: (value: boolean) => void;
+  routingPolicy?: RoutingPolicyId;
+  onRoutingPolicyChange?: (value: RoutingPolicyId) => void;
 }
 
 const NewSessionCard: React.FC<NewSessionCardProps> = ({
@@ -16,7 +26,15 @@ const NewSessionCard: React.FC<NewSessionCardProps> = ({
   onFilesSelected,
   onStartCataloging,
   isProcessing = false,
-  selectedCount = 0
+  selectedCount = 0,
+  groupPhotos = false,
+  onGroupPhotosChange,
+  category = 'general',
+  onCategoryChange,
+  consensus = false,
+  onConsensusChange,
+  routingPolicy = 'priority',
+  onRoutingPolicyChange
 }) => {
   const onDrop = useCallback((acceptedFiles: File[]) => {
     onFilesSelected(acceptedFiles);
@@ -111,6 +129,69 @@ const NewSessionCard: React.FC<NewSessionCardProps> = ({
         </div>
       </div>
 
+      {onGroupPhotosChange && (
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px', color: 'var(--text-secondary)', margin: '-8px 0 20px', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={groupPhotos}
+            onChange={(e) => onGroupPhotosChange(e.target.checked)}
+            disabled={isProcessing}
+            style={{ width: 'auto', margin: 0 }}
+          />
+          Group front/back shots of the same item (review before identifying)
+        </label>
+      )}
+
+      {onCategoryChange && (
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px', color: 'var(--text-secondary)', margin: '-8px 0 20px' }}>
+          What's in this batch?
+          <select
+            value={category}
+            onChange={(e) => onCategoryChange(e.target.value as CategorySelection)}
+            disabled={isProcessing}
+            style={{ width: 'auto', flex: 1, margin: 0, padding: '6px 8px' }}
+          >
+            <option value="auto">Auto-detect per item</option>
+            <option value="general">Mixed / general</option>
+            {CATEGORY_IDS.map(id => (
+              <option key={id} value={id}>{CATEGORY_TEMPLATES[id].label}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {onConsensusChange && (
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px', color: 'var(--text-secondary)', margin: '-8px 0 20px', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={consensus}
+            onChange={(e) => onConsensusChange(e.target.checked)}
+            disabled={isProcessing}
+            style={{ width: 'auto', margin: 0 }}
+          />
+          Valuable items: ask several AI models and compare (costs more)
+        </label>
+      )}
+
+      {onRoutingPolicyChange && (
+        <label
+          title={ROUTING_POLICIES[routingPolicy].description}
+          style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px', color: 'var(--text-secondary)', margin: '-8px 0 20px' }}
+        >
+          Which AI first?
+          <select
+            value={routingPolicy}
+            onChange={(e) => onRoutingPolicyChange(e.target.value as RoutingPolicyId)}
+            disabled={isProcessing}
+            style={{ width: 'auto', flex: 1, margin: 0, padding: '6px 8px' }}
+          >
+            {ROUTING_POLICY_IDS.map(id => (
+              <option key={id} value={id}>{ROUTING_POLICIES[id].label}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
       {/* Step 3: Start */}
       <button
         className="btn-seamless btn-primary"
@@ -0,0 +1,110 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CapturedPhoto, PHOTO_ROLE_LABELS, defaultPhotoRole, frontFirst, nextPhotoRole } from '../services/itemPhotos';
+
+interface PhotoGroupReviewProps {
+  groups: CapturedPhoto[][];
+  onConfirm: (groups: CapturedPhoto[][]) => void;
+  onCancel: () => void;
+}
+
+// Roles follow position again after a split or merge
+const reassignRoles = (group: CapturedPhoto[]) => group.map((photo, index) => ({ ...photo, role: defaultPhotoRole(index) }));
+
+const PhotoGroupReview: React.FC<PhotoGroupReviewProps> = ({ groups: proposed, onConfirm, onCancel }) => {
+  const [groups, setGroups] = useState<CapturedPhoto[][]>(proposed);
+
+  // One object URL per file for the whole review, released on close
+  const previews = useMemo(() => new Map(proposed.flat().map(photo => [photo.file, URL.createObjectURL(photo.file)])), [proposed]);
+  useEffect(() => () => previews.forEach(url => URL.revokeObjectURL(url)), [previews]);
+
+  const splitAt = (groupIndex: number, photoIndex: number) => {
+    setGroups(prev => {
+      const group = prev[groupIndex];
+      return [
+        ...prev.slice(0, groupIndex),
+        reassignRoles(group.slice(0, photoIndex)),
+        reassignRoles(group.slice(photoIndex)),
+        ...prev.slice(groupIndex + 1)
+      ];
+    });
+  };
+
+  const mergeWithPrevious = (groupIndex: number) => {
+    setGroups(prev => [
+      ...prev.slice(0, groupIndex - 1),
+      [...prev[groupIndex - 1], ...prev[groupIndex].map(photo => ({ ...photo, role: 'detail' as const }))],
+      ...prev.slice(groupIndex + 1)
+    ]);
+  };
+
+  const cycleRole = (groupIndex: number, photoIndex: number) => {
+    setGroups(prev => prev.map((group, g) => g !== groupIndex ? group : group.map((photo, p) =>
+      p === photoIndex ? { ...photo, role: nextPhotoRole(photo.role) } : photo
+    )));
+  };
+
+  const photoCount = groups.reduce((sum, group) => sum + group.length, 0);
+
+  return (
+    <div className="modal-overlay" style={{ display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+      <div className="modal-content" style={{ maxHeight: '90vh', overflowY: 'auto', padding: '20px' }} onClick={(e) => e.stopPropagation()}>
+        <h2 style={{ fontFamily: 'Outfit, sans-serif', fontSize: '20px', fontWeight: 800, margin: '0 0 4px' }}>Review Items</h2>
+        <p style={{ fontSize: '13px', color: 'var(--text-secondary)', margin: '0 0 16px' }}>
+          {photoCount} photos grouped into {groups.length} items. ✂️ splits a group before that photo; tap a role to change it.
+        </p>
+
+        {groups.map((group, groupIndex) => (
+          <div key={groupIndex} className="card" style={{ padding: '12px', marginBottom: '12px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+              <span style={{ fontSize: '12px', fontWeight: 800, color: 'var(--text-main)' }}>
+                Item {groupIndex + 1}{group.length > 1 ? ` • ${group.length} photos` : ''}
+              </span>
+              {groupIndex > 0 && (
+                <button className="btn-seamless btn-ghost" onClick={() => mergeWithPrevious(groupIndex)} style={{ padding: '4px 8px', fontSize: '11px' }}>
+                  ⤴ Merge with item {groupIndex}
+                </button>
+              )}
+            </div>
+            <div style={{ display: 'flex', gap: '8px', overflowX: 'auto' }}>
+              {group.map((photo, photoIndex) => (
+                <div key={photo.file.name + photoIndex} style={{ position: 'relative', flexShrink: 0, width: '88px' }}>
+                  <img
+                    src={previews.get(photo.file)}
+                    alt={photo.file.name}
+                    style={{ width: '88px', height: '88px', objectFit: 'cover', borderRadius: '8px', display: 'block' }}
+                  />
+                  {photoIndex > 0 && (
+                    <button
+                      onClick={() => splitAt(groupIndex, photoIndex)}
+                      title="Start a new item here"
+                      style={{ position: 'absolute', top: '4px', left: '4px', background: 'rgba(0,0,0,0.6)', color: '#fff', border: 'none', borderRadius: '6px', fontSize: '11px', padding: '2px 5px', cursor: 'pointer' }}
+                    >
+                      ✂️
+                    </button>
+                  )}
+                  <button
+                    onClick={() => cycleRole(groupIndex, photoIndex)}
+                    style={{ marginTop: '4px', width: '100%', fontSize: '10px', fontWeight: 700, padding: '2px 0', border: '1px solid #E5E7EB', borderRadius: '6px', background: 'white', cursor: 'pointer' }}
+                  >
+                    {PHOTO_ROLE_LABELS[photo.role]}
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div style={{ display: 'flex', gap: '8px', marginTop: '16px' }}>
+          <button className="btn-seamless btn-ghost" onClick={onCancel} style={{ flex: 1 }}>
+            Cancel
+          </button>
+          <button className="btn-seamless btn-primary" onClick={() => onConfirm(groups.map(frontFirst))} style={{ flex: 2 }}>
+            ✨ Identify {groups.length} Items
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoGroupReview;
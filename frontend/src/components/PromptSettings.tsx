@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { AIResult } from '../services/aiService';
+import { AttributeField, AttributeType } from '../services/categoryTemplates';
+import {
+  DEFAULT_PROMPT,
+  PromptConfig,
+  PromptConfigDraft,
+  PromptConfigStore,
+  activePromptConfig,
+  fieldKeyFromLabel,
+  listPromptVersions,
+  validatePromptDraft
+} from '../services/promptConfig';
+
+interface PromptSettingsProps {
+  store: PromptConfigStore;
+  onSaveVersion: (draft: PromptConfigDraft) => void;
+  onActivateVersion: (version: number) => void;
+  onPreview: (draft: PromptConfigDraft, sample: File) => Promise<AIResult>;
+}
+
+// Options are edited as one comma-separated line
+type FieldDraft = AttributeField & { optionsText: string };
+
+const TYPE_LABELS: Record<AttributeType, string> = {
+  text: 'Text',
+  number: 'Number',
+  select: 'Enum',
+  boolean: 'Yes / No'
+};
+
+const toFieldDrafts = (config: PromptConfig): FieldDraft[] =>
+  config.fields.map(field => ({ ...field, optionsText: (field.options || []).join(', ') }));
+
+const toDraft = (prompt: string, fields: FieldDraft[], note: string): PromptConfigDraft => ({
+  prompt,
+  note,
+  fields: fields.map(({ optionsText, ...field }) => ({
+    ...field,
+    options: field.type === 'select' ? optionsText.split(',').map(o => o.trim()).filter(Boolean) : undefined
+  }))
+});
+
+const labelStyle: React.CSSProperties = { fontSize: '12px', fontWeight: 600, color: 'var(--text-secondary)', display: 'block', marginBottom: '6px' };
+const inputStyle: React.CSSProperties = { padding: '4px 8px', fontSize: '13px' };
+
+const PromptSettings: React.FC<PromptSettingsProps> = ({ store, onSaveVersion, onActivateVersion, onPreview }) => {
+  const active = activePromptConfig(store);
+  const [prompt, setPrompt] = useState(active.prompt);
+  const [fields, setFields] = useState<FieldDraft[]>(() => toFieldDrafts(active));
+  const [note, setNote] = useState('');
+  const [sample, setSample] = useState<File | null>(null);
+  const [preview, setPreview] = useState<AIResult | null>(null);
+  const [previewError, setPreviewError] = useState('');
+  const [previewing, setPreviewing] = useState(false);
+
+  const draft = toDraft(prompt, fields, note);
+  const error = validatePromptDraft(draft);
+  const changed = prompt !== active.prompt || JSON.stringify(draft.fields) !== JSON.stringify(active.fields);
+
+  const loadVersion = (config: PromptConfig) => {
+    setPrompt(config.prompt);
+    setFields(toFieldDrafts(config));
+    setPreview(null);
+  };
+
+  const updateField = (index: number, updates: Partial<FieldDraft>) => {
+    setFields(prev => prev.map((field, i) => {
+      if (i !== index) return field;
+      // The key follows the label until it's edited by hand
+      const followsLabel = updates.label !== undefined && field.key === fieldKeyFromLabel(field.label);
+      return { ...field, ...updates, ...(followsLabel ? { key: fieldKeyFromLabel(updates.label!) } : {}) };
+    }));
+  };
+
+  const handleSave = () => {
+    if (error) return;
+    onSaveVersion(draft);
+    setNote('');
+  };
+
+  const handlePreview = async () => {
+    if (!sample || error) return;
+    setPreviewing(true);
+    setPreview(null);
+    setPreviewError('');
+    try {
+      setPreview(await onPreview(draft, sample));
+    } catch (err: any) {
+      setPreviewError(err?.message || String(err));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: '16px' }}>
+      <label htmlFor="prompt-version" style={labelStyle}>
+        PROMPT VERSION
+      </label>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+        <select
+          id="prompt-version"
+          value={active.version}
+          onChange={e => {
+            const version = Number(e.target.value);
+            onActivateVersion(version);
+            loadVersion(listPromptVersions(store).find(config => config.version === version)!);
+          }}
+          style={{ ...inputStyle, width: 'auto' }}
+        >
+          {listPromptVersions(store).map(config => (
+            <option key={config.version} value={config.version}>
+              v{config.version}{config.note ? ` · ${config.note}` : ''}{config.created_at ? ` · ${new Date(config.created_at).toLocaleDateString()}` : ''}
+            </option>
+          ))}
+        </select>
+        <span style={{ fontSize: '11px', color: 'var(--text-secondary)' }}>Items record the version that identified them.</span>
+      </div>
+
+      <label htmlFor="prompt-text" style={{ ...labelStyle, marginTop: '12px' }}>
+        PROMPT
+      </label>
+      <textarea
+        id="prompt-text"
+        value={prompt}
+        onChange={e => setPrompt(e.target.value)}
+        rows={8}
+        style={{ width: '100%', padding: '8px', fontSize: '12px', fontFamily: 'monospace', border: '1px solid #E5E7EB', borderRadius: '8px', resize: 'vertical' }}
+      />
+      <button
+        onClick={() => setPrompt(DEFAULT_PROMPT)}
+        style={{ fontSize: '11px', color: '#94A3B8', background: 'none', border: 'none', cursor: 'pointer', textDecoration: 'underline', padding: 0 }}
+      >
+        Reset to built-in prompt
+      </button>
+
+      <label style={{ ...labelStyle, marginTop: '12px' }}>
+        CUSTOM FIELDS
+      </label>
+      {fields.map((field, index) => (
+        <div key={index} style={{ display: 'flex', gap: '6px', marginBottom: '6px', flexWrap: 'wrap', alignItems: 'center' }}>
+          <input
+            type="text"
+            placeholder="Label"
+            value={field.label}
+            onChange={e => updateField(index, { label: e.target.value })}
+            style={{ ...inputStyle, flex: '1 1 100px' }}
+          />
+          <input
+            type="text"
+            placeholder="key"
+            value={field.key}
+            onChange={e => updateField(index, { key: e.target.value })}
+            style={{ ...inputStyle, flex: '1 1 80px', fontFamily: 'monospace' }}
+          />
+          <select
+            value={field.type}
+            onChange={e => updateField(index, { type: e.target.value as AttributeType })}
+            style={{ ...inputStyle, width: 'auto' }}
+          >
+            {(Object.keys(TYPE_LABELS) as AttributeType[]).map(type => <option key={type} value={type}>{TYPE_LABELS[type]}</option>)}
+          </select>
+          {field.type === 'select' && (
+            <input
+              type="text"
+              placeholder="Options, comma separated"
+              value={field.optionsText}
+              onChange={e => updateField(index, { optionsText: e.target.value })}
+              style={{ ...inputStyle, flex: '2 1 160px' }}
+            />
+          )}
+          <input
+            type="text"
+            placeholder="Hint for the AI (optional)"
+            value={field.hint}
+            onChange={e => updateField(index, { hint: e.target.value })}
+            style={{ ...inputStyle, flex: '2 1 160px' }}
+          />
+          <button
+            onClick={() => setFields(prev => prev.filter((_, i) => i !== index))}
+            title="Remove field"
+            style={{ background: 'none', border: 'none', cursor: 'pointer', color: '#DC2626' }}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button
+        className="btn-seamless btn-ghost"
+        onClick={() => setFields(prev => [...prev, { key: '', label: '', type: 'text', hint: '', optionsText: '' }])}
+        style={{ fontSize: '12px', padding: '6px 12px', width: 'auto' }}
+      >
+        + Add field
+      </button>
+
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginTop: '12px', flexWrap: 'wrap' }}>
+        <input
+          type="text"
+          placeholder="What changed (optional)"
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <button
+          className="btn-seamless btn-primary"
+          onClick={handleSave}
+          disabled={!!error || !changed}
+          style={{ fontSize: '13px', padding: '6px 12px', width: 'auto', opacity: error || !changed ? 0.6 : 1 }}
+        >
+          Save as v{Math.max(0, ...store.versions.map(config => config.version)) + 1}
+        </button>
+      </div>
+      {error && <p style={{ fontSize: '11px', color: '#DC2626', margin: '4px 0 0' }}>{error}</p>}
+
+      <label style={{ ...labelStyle, marginTop: '12px' }}>
+        PREVIEW
+      </label>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+        <input
+          type="file"
+          accept="image/*"
+          onChange={e => setSample(e.target.files?.[0] || null)}
+          style={{ fontSize: '12px', flex: 1 }}
+        />
+        <button
+          className="btn-seamless btn-ghost"
+          onClick={handlePreview}
+          disabled={!sample || !!error || previewing}
+          style={{ fontSize: '12px', padding: '6px 12px', width: 'auto' }}
+        >
+          {previewing ? '⏳ Identifying...' : 'Try on sample'}
+        </button>
+      </div>
+      <p style={{ fontSize: '11px', color: 'var(--text-secondary)', margin: '4px 0 0' }}>
+        Runs the unsaved prompt on one image with your AI keys. Nothing is saved.
+      </p>
+      {previewError && <p style={{ fontSize: '11px', color: '#DC2626', margin: '4px 0 0' }}>{previewError}</p>}
+      {preview && (
+        <pre style={{ fontSize: '11px', background: '#F9FAFB', border: '1px solid #E5E7EB', borderRadius: '8px', padding: '8px', marginTop: '8px', maxHeight: '240px', overflow: 'auto', whiteSpace: 'pre-wrap' }}>
+          {JSON.stringify({
+            title: preview.title,
+            type: preview.type,
+            year: preview.year,
+            notes: preview.notes,
+            confidence: preview.confidence,
+            attributes: preview.attributes,
+            provider: preview.raw_metadata?.ai_provider || preview.raw_metadata?.fallback_mode
+          }, null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+export default PromptSettings;
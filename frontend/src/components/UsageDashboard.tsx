@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { AI_PROVIDERS, AIProvider, PROVIDER_IDS } from '../services/aiProviders';
+import { AICallRecord, DEFAULT_PRICE_TABLE, ModelPrice, UsageTotals, monthKey, monthStart, summarizeUsage } from '../services/usageLedger';
+
+interface UsageDashboardProps {
+  records: AICallRecord[]; // Ledger entries, oldest first
+  priceTable: ModelPrice[];
+  monthlyBudget: number; // USD; 0 = no budget
+  onPriceTableChange: (table: ModelPrice[]) => void;
+  onBudgetChange: (budget: number) => void;
+}
+
+type Grouping = 'month' | 'batch' | 'box' | 'model';
+
+const GROUPINGS: Record<Grouping, { label: string; keyOf: (record: AICallRecord) => string | undefined }> = {
+  month: { label: 'Month', keyOf: record => monthKey(record.at) },
+  batch: { label: 'Batch', keyOf: record => record.batch_id },
+  box: { label: 'Box', keyOf: record => record.box_id },
+  model: { label: 'Model', keyOf: record => `${AI_PROVIDERS[record.provider as AIProvider]?.label || record.provider} · ${record.model}` }
+};
+
+const formatUsd = (usd: number) => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+const formatTokens = (tokens: number) => tokens >= 1e6 ? `${(tokens / 1e6).toFixed(1)}M` : tokens >= 1e3 ? `${(tokens / 1e3).toFixed(1)}k` : String(tokens);
+
+const labelStyle: React.CSSProperties = { fontSize: '12px', fontWeight: 600, color: 'var(--text-secondary)', display: 'block', marginBottom: '6px' };
+const inputStyle: React.CSSProperties = { padding: '4px 8px', fontSize: '13px' };
+const cellStyle: React.CSSProperties = { padding: '4px 6px', borderBottom: '1px solid #F1F5F9', textAlign: 'right' };
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ records, priceTable, monthlyBudget, onPriceTableChange, onBudgetChange }) => {
+  const [grouping, setGrouping] = useState<Grouping>('month');
+  const [editingPrices, setEditingPrices] = useState(false);
+
+  const since = monthStart();
+  const monthSpend = records.filter(record => record.at >= since).reduce((sum, record) => sum + record.cost_usd, 0);
+  const budgetShare = monthlyBudget > 0 ? Math.min(1, monthSpend / monthlyBudget) : 0;
+  const rows: UsageTotals[] = summarizeUsage(records, GROUPINGS[grouping].keyOf);
+  if (grouping === 'month') rows.sort((a, b) => b.key.localeCompare(a.key));
+
+  const updatePrice = (index: number, updates: Partial<ModelPrice>) => {
+    onPriceTableChange(priceTable.map((price, i) => i === index ? { ...price, ...updates } : price));
+  };
+
+  return (
+    <div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: '6px' }}>
+        <span style={{ fontSize: '13px', fontWeight: 700 }}>This month: {formatUsd(monthSpend)}</span>
+        {monthlyBudget > 0 && (
+          <span style={{ fontSize: '11px', color: budgetShare >= 1 ? '#DC2626' : 'var(--text-secondary)' }}>
+            of {formatUsd(monthlyBudget)} budget
+          </span>
+        )}
+      </div>
+      {monthlyBudget > 0 && (
+        <div style={{ height: '6px', background: '#E5E7EB', borderRadius: '3px', overflow: 'hidden', marginBottom: '12px' }}>
+          <div style={{
+            width: `${budgetShare * 100}%`,
+            height: '100%',
+            background: budgetShare >= 1 ? '#DC2626' : budgetShare >= 0.8 ? '#F59E0B' : '#10B981'
+          }} />
+        </div>
+      )}
+
+      <label htmlFor="monthly-budget" style={labelStyle}>
+        MONTHLY AI BUDGET (USD)
+      </label>
+      <input
+        id="monthly-budget"
+        type="number"
+        min={0}
+        step={0.5}
+        value={monthlyBudget}
+        onChange={e => onBudgetChange(parseFloat(e.target.value))}
+        style={{ ...inputStyle, width: '100px' }}
+      />
+      <p style={{ fontSize: '11px', color: 'var(--text-secondary)', margin: '4px 0 12px' }}>
+        Batches pause before the next identification once this month's spend reaches it. 0 means no budget.
+      </p>
+
+      <div style={{ display: 'flex', gap: '6px', marginBottom: '8px', flexWrap: 'wrap' }}>
+        {(Object.keys(GROUPINGS) as Grouping[]).map(key => (
+          <button
+            key={key}
+            onClick={() => setGrouping(key)}
+            className={`btn-seamless ${grouping === key ? 'btn-primary' : 'btn-ghost'}`}
+            style={{ fontSize: '11px', padding: '4px 10px', width: 'auto' }}
+          >
+            By {GROUPINGS[key].label.toLowerCase()}
+          </button>
+        ))}
+      </div>
+      {rows.length === 0 ? (
+        <p style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>No AI calls recorded yet.</p>
+      ) : (
+        <div style={{ maxHeight: '220px', overflow: 'auto', background: 'white', borderRadius: '8px', border: '1px solid #F1F5F9' }}>
+          <table style={{ width: '100%', fontSize: '11px', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ color: 'var(--text-secondary)' }}>
+                <th style={{ ...cellStyle, textAlign: 'left' }}>{GROUPINGS[grouping].label}</th>
+                <th style={cellStyle}>Calls</th>
+                <th style={cellStyle}>Tokens in / out</th>
+                <th style={cellStyle}>Avg time</th>
+                <th style={cellStyle}>Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.key}>
+                  <td style={{ ...cellStyle, textAlign: 'left', fontWeight: 600, wordBreak: 'break-all' }}>{row.key}</td>
+                  <td style={cellStyle}>{row.calls}</td>
+                  <td style={cellStyle}>{formatTokens(row.input_tokens)} / {formatTokens(row.output_tokens)}</td>
+                  <td style={cellStyle}>{(row.avg_latency_ms / 1000).toFixed(1)}s</td>
+                  <td style={{ ...cellStyle, fontWeight: 700 }}>{formatUsd(row.cost_usd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <button
+        onClick={() => setEditingPrices(!editingPrices)}
+        style={{ marginTop: '12px', fontSize: '11px', color: '#94A3B8', background: 'none', border: 'none', cursor: 'pointer', textDecoration: 'underline', padding: 0 }}
+      >
+        {editingPrices ? 'Hide price table' : 'Edit price table'}
+      </button>
+      {editingPrices && (
+        <div style={{ marginTop: '8px' }}>
+          <p style={{ fontSize: '11px', color: 'var(--text-secondary)', margin: '0 0 6px' }}>
+            USD per million tokens. The longest matching model prefix applies; an empty model matches any. New prices apply to calls made from now on.
+          </p>
+          {priceTable.map((price, index) => (
+            <div key={index} style={{ display: 'flex', gap: '6px', marginBottom: '6px', alignItems: 'center', flexWrap: 'wrap' }}>
+              <select
+                value={price.provider}
+                onChange={e => updatePrice(index, { provider: e.target.value as AIProvider })}
+                style={{ ...inputStyle, width: 'auto' }}
+              >
+                {PROVIDER_IDS.map(id => <option key={id} value={id}>{AI_PROVIDERS[id].label}</option>)}
+              </select>
+              <input
+                type="text"
+                placeholder="Any model"
+                value={price.model}
+                onChange={e => updatePrice(index, { model: e.target.value })}
+                style={{ ...inputStyle, flex: '1 1 120px', fontFamily: 'monospace' }}
+              />
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                title="Input, USD per million tokens"
+                value={price.input_per_mtok}
+                onChange={e => updatePrice(index, { input_per_mtok: Math.max(0, parseFloat(e.target.value) || 0) })}
+                style={{ ...inputStyle, width: '70px' }}
+              />
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                title="Output, USD per million tokens"
+                value={price.output_per_mtok}
+                onChange={e => updatePrice(index, { output_per_mtok: Math.max(0, parseFloat(e.target.value) || 0) })}
+                style={{ ...inputStyle, width: '70px' }}
+              />
+              <button
+                onClick={() => onPriceTableChange(priceTable.filter((_, i) => i !== index))}
+                title="Remove price"
+                style={{ background: 'none', border: 'none', cursor: 'pointer', color: '#DC2626' }}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <div style={{ display: 'flex', gap: '12px' }}>
+            <button
+              className="btn-seamless btn-ghost"
+              onClick={() => onPriceTableChange([...priceTable, { provider: 'gemini', model: '', input_per_mtok: 0, output_per_mtok: 0 }])}
+              style={{ fontSize: '12px', padding: '6px 12px', width: 'auto' }}
+            >
+              + Add price
+            </button>
+            <button
+              onClick={() => onPriceTableChange(DEFAULT_PRICE_TABLE)}
+              style={{ fontSize: '11px', color: '#94A3B8', background: 'none', border: 'none', cursor: 'pointer', textDecoration: 'underline', padding: 0 }}
+            >
+              Reset to list prices
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsageDashboard;
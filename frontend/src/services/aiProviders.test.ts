@@ -0,0 +1,123 @@
+import 'whatwg-fetch'; // jsdom has no fetch; this one goes over jsdom's (real) XHR
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { analyzeImage } from './aiService';
+
+// Decoding needs a browser; the image below is passed as already prepared
+jest.mock('./imagePreprocessor', () => ({ preprocessImage: jest.fn() }));
+// No provider answering ends in the offline OCR fallback: nothing legible here
+jest.mock('./localOcr', () => ({
+  ...jest.requireActual('./localOcr'),
+  recognizeText: jest.fn(async () => ({ text: '', confidence: 0 }))
+}));
+
+const IMAGE = 'A'.repeat(200);
+
+const CANNED_ANSWER = {
+  title: 'Route 66 Motel Postcard',
+  type: 'postcard',
+  year: '1956',
+  notes: 'Linen finish, Curteich',
+  confidence: 85,
+  condition_estimate: 'Good'
+};
+
+// A stand-in for a LAN Ollama / llama.cpp server: OpenAI-compatible chat
+// completions answering with canned JSON, or with an error
+function stubServer(reply: (body: any) => { status: number; json: any }) {
+  const requests: Array<{ url?: string; body: any }> = [];
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    // The test page's origin differs from the server's, as it would for a LAN server
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : null;
+      requests.push({ url: req.url, body });
+      const { status, json } = reply(body);
+      res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(json));
+    });
+  });
+  return { server, requests };
+}
+
+function listen(server: Server): Promise<string> {
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+    resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`);
+  }));
+}
+
+describe('local OpenAI-compatible provider', () => {
+  let server: Server | null = null;
+  let warn: jest.SpyInstance;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(done => {
+    if (server) server.close(() => done());
+    else done();
+    server = null;
+  });
+
+  test('parses the server\'s answer', async () => {
+    const stub = stubServer(() => ({
+      status: 200,
+      json: {
+        choices: [{ message: { content: '```json\n' + JSON.stringify(CANNED_ANSWER) + '\n```' } }],
+        usage: { prompt_tokens: 900, completion_tokens: 60 }
+      }
+    }));
+    server = stub.server;
+    const baseUrl = await listen(server);
+
+    const result = await analyzeImage(IMAGE, {}, {
+      priority: ['local'],
+      providerSettings: { local: { baseUrl, model: 'llava' } },
+      imageIsPrepared: true
+    });
+
+    expect(result).toMatchObject({
+      title: 'Route 66 Motel Postcard',
+      type: 'postcard',
+      year: '1956',
+      confidence: '85%',
+      raw_metadata: { ai_provider: 'local', ai_model: 'llava' }
+    });
+    expect(result.usage).toEqual([expect.objectContaining({ provider: 'local', ok: true, input_tokens: 900, output_tokens: 60 })]);
+
+    expect(stub.requests).toHaveLength(1);
+    expect(stub.requests[0].url).toBe('/v1/chat/completions');
+    expect(stub.requests[0].body.model).toBe('llava');
+    const parts = stub.requests[0].body.messages[0].content;
+    expect(parts).toEqual(expect.arrayContaining([
+      expect.objectContaining({ type: 'image_url', image_url: { url: `data:image/jpeg;base64,${IMAGE}` } })
+    ]));
+  });
+
+  test('an error response falls back instead of throwing', async () => {
+    const stub = stubServer(() => ({ status: 500, json: { error: 'model not loaded' } }));
+    server = stub.server;
+    const baseUrl = await listen(server);
+
+    const result = await analyzeImage(IMAGE, {}, {
+      priority: ['local'],
+      providerSettings: { local: { baseUrl, model: 'llava' } },
+      imageIsPrepared: true
+    });
+
+    expect(result.raw_metadata?.fallback_mode).toBe(true);
+    expect(result.title).toMatch(/^Unidentified Item/);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('llava returned 500: {"error":"model not loaded"}'));
+    expect(result.usage).toEqual([expect.objectContaining({ provider: 'local', ok: false })]);
+    expect(stub.requests).toHaveLength(1);
+  });
+});
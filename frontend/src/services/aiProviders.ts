@@ -0,0 +1,318 @@
+// AI Provider Registry
+// Each provider declares how to talk to its API. The orchestration loop in
+// aiService.ts only iterates this registry, so adding a vendor (or an
+// OpenAI-compatible server) means adding an entry here.
+
+import { fetchWithTimeout } from './network';
+import { PHOTO_ROLE_LABELS, PhotoRole } from './itemPhotos';
+
+/**
+ * One photo of the item being identified (AI-sized base64 JPEG)
+ */
+export interface AIImageInput {
+  base64: string;
+  role: PhotoRole;
+}
+
+/**
+ * Everything a provider needs to build one identification request
+ */
+export interface ProviderCallContext {
+  endpoint: string;
+  apiKey: string;
+  model: string;
+  prompt: string;
+  images: AIImageInput[]; // Front first; all photos show the same item
+}
+
+// Tokens billed for one response, as reported by the provider
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface ProviderRequest {
+  url: string;
+  init: RequestInit;
+}
+
+export interface AIProviderDefinition {
+  id: string;
+  label: string;
+  keyPlaceholder: string;
+  endpoint: string;
+  models: string[]; // Tried in order until one succeeds; listed first in the Settings model picker
+  defaultKey?: string; // Build-time key from REACT_APP_* env
+  keyOptional?: boolean; // Provider is usable without an API key
+  userEndpoint?: boolean; // Base URL comes from Settings (skipped until configured)
+  estCostPerCall: number; // USD, rough figure for the Settings usage panel
+  usageNote: string; // Shown next to the provider name in the usage panel
+  discoverModels?: (apiKey: string, endpoint: string) => Promise<string[]>;
+  autoDiscover?: boolean; // With no pinned model, try the discovered ones (otherwise discovery only feeds Settings)
+  isVisionModel?: (model: string) => boolean; // Discovered models failing this can't read photos and are dropped
+  buildRequest: (ctx: ProviderCallContext) => ProviderRequest;
+  extractText: (data: any) => string;
+  extractUsage: (data: any) => TokenUsage | null; // null when the response doesn't say
+}
+
+// Image parts in order, each preceded by a "Photo 2 (Back):" caption when
+// there is more than one, so the model knows which side it is looking at
+function imageParts<T>(images: AIImageInput[], toImagePart: (base64: string) => T, toTextPart: (text: string) => T): T[] {
+  if (images.length < 2) return images.map(image => toImagePart(image.base64));
+  return images.flatMap((image, i) => [
+    toTextPart(`Photo ${i + 1} (${PHOTO_ROLE_LABELS[image.role]}):`),
+    toImagePart(image.base64)
+  ]);
+}
+
+// Shared by OpenAI and every OpenAI-compatible server (Ollama, LM Studio, vLLM, llama.cpp)
+function buildOpenAIChatBody(model: string, prompt: string, images: AIImageInput[]) {
+  return JSON.stringify({
+    model,
+    messages: [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: prompt },
+          ...imageParts<object>(
+            images,
+            base64 => ({ type: "image_url", image_url: { url: `data:image/jpeg;base64,${base64}` } }),
+            text => ({ type: "text", text })
+          )
+        ]
+      }
+    ],
+    response_format: { type: "json_object" }
+  });
+}
+
+// OpenAI and OpenAI-compatible servers report `usage` the same way
+function openAIUsage(data: any): TokenUsage | null {
+  if (!data?.usage) return null;
+  return { input_tokens: data.usage.prompt_tokens || 0, output_tokens: data.usage.completion_tokens || 0 };
+}
+
+// Keeps the literal keys of the registry while checking each entry's shape
+const defineProviders = <T extends Record<string, AIProviderDefinition>>(providers: T): Record<keyof T, AIProviderDefinition> => providers;
+
+export const AI_PROVIDERS = defineProviders({
+  gemini: {
+    id: 'gemini',
+    label: 'Gemini',
+    keyPlaceholder: 'AIza...',
+    endpoint: 'https://generativelanguage.googleapis.com/v1beta/models',
+    models: [
+      'gemini-2.0-flash-exp',
+      'gemini-1.5-flash',
+      'gemini-1.5-pro',
+      'gemini-pro-vision'
+    ],
+    defaultKey: process.env.REACT_APP_GEMINI_API_KEY,
+    estCostPerCall: 0,
+    usageNote: 'Mostly Free',
+    discoverModels: async (apiKey, endpoint) => {
+      console.log('Discovering available Gemini models...');
+      const listResponse = await fetchWithTimeout(
+        `${endpoint}?key=${apiKey}`,
+        { method: 'GET' }
+      );
+      if (!listResponse.ok) return [];
+      const listData = await listResponse.json();
+      // Filter for models that support generateContent
+      const models = (listData.models || [])
+        .filter((m: any) => m.supportedGenerationMethods?.includes('generateContent'))
+        .map((m: any) => m.name.replace('models/', ''));
+      console.log('Available Gemini models:', models);
+      return models;
+    },
+    autoDiscover: true,
+    // The list also has text-only, embedding, speech and image-generation models
+    isVisionModel: (model) => /^gemini-(1\.5|2|pro-vision|exp)/.test(model) && !/(embedding|aqa|tts|audio|image-generation)/.test(model),
+    buildRequest: ({ endpoint, apiKey, model, prompt, images }) => ({
+      url: `${endpoint}/${model}:generateContent?key=${apiKey}`,
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contents: [{
+            parts: [
+              { text: prompt },
+              ...imageParts<object>(
+                images,
+                base64 => ({ inline_data: { mime_type: "image/jpeg", data: base64 } }),
+                text => ({ text })
+              )
+            ]
+          }],
+          generationConfig: { responseMimeType: "application/json" }
+        })
+      }
+    }),
+    extractText: (data) => data.candidates[0].content.parts[0].text,
+    extractUsage: (data) => data?.usageMetadata ? {
+      input_tokens: data.usageMetadata.promptTokenCount || 0,
+      output_tokens: data.usageMetadata.candidatesTokenCount || 0
+    } : null
+  },
+
+  openai: {
+    id: 'openai',
+    label: 'OpenAI',
+    keyPlaceholder: 'sk-...',
+    endpoint: 'https://api.openai.com/v1/chat/completions',
+    models: ['gpt-4o-mini', 'gpt-4o'],
+    defaultKey: process.env.REACT_APP_OPENAI_API_KEY,
+    estCostPerCall: 0.01,
+    usageNote: 'Paid',
+    discoverModels: async (apiKey, endpoint) => {
+      const listResponse = await fetchWithTimeout(
+        endpoint.replace(/\/chat\/completions$/, '/models'),
+        { method: 'GET', headers: { 'Authorization': `Bearer ${apiKey}` } }
+      );
+      if (!listResponse.ok) return [];
+      const listData = await listResponse.json();
+      return (listData.data || []).map((m: any) => m.id);
+    },
+    isVisionModel: (model) => /^(gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|o[134])/.test(model) && !/(audio|realtime|search|transcribe|tts)/.test(model),
+    buildRequest: ({ endpoint, apiKey, model, prompt, images }) => ({
+      url: endpoint,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiKey}`
+        },
+        body: buildOpenAIChatBody(model, prompt, images)
+      }
+    }),
+    extractText: (data) => data.choices[0].message.content,
+    extractUsage: openAIUsage
+  },
+
+  claude: {
+    id: 'claude',
+    label: 'Claude',
+    keyPlaceholder: 'sk-ant-...',
+    endpoint: 'https://api.anthropic.com/v1/messages',
+    models: ['claude-3-5-sonnet-20240620', 'claude-3-haiku-20240307'],
+    defaultKey: process.env.REACT_APP_CLAUDE_API_KEY,
+    estCostPerCall: 0.01,
+    usageNote: 'Paid',
+    discoverModels: async (apiKey, endpoint) => {
+      const listResponse = await fetchWithTimeout(
+        endpoint.replace(/\/messages$/, '/models'),
+        {
+          method: 'GET',
+          headers: { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01', 'anthropic-dangerous-direct-browser-access': 'true' }
+        }
+      );
+      if (!listResponse.ok) return [];
+      const listData = await listResponse.json();
+      return (listData.data || []).map((m: any) => m.id);
+    },
+    // Every Claude 3 and later model reads images
+    isVisionModel: (model) => /^claude-(3|sonnet|opus|haiku)/.test(model),
+    // Claude usually requires a proxy due to strict CORS.
+    // We'll try direct but warn that it might need a bridge.
+    buildRequest: ({ endpoint, apiKey, model, prompt, images }) => ({
+      url: endpoint,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+          'dangerously-allow-browser': 'true' // Some SDKs/Wrappers look for this
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: 1024,
+          messages: [{
+            role: "user",
+            content: [
+              { type: "text", text: prompt },
+              ...imageParts<object>(
+                images,
+                base64 => ({ type: "image", source: { type: "base64", media_type: "image/jpeg", data: base64 } }),
+                text => ({ type: "text", text })
+              )
+            ]
+          }]
+        })
+      }
+    }),
+    // Claude returns content as an array of parts
+    extractText: (data) => data.content[0].text,
+    extractUsage: (data) => data?.usage ? {
+      input_tokens: data.usage.input_tokens || 0,
+      output_tokens: data.usage.output_tokens || 0
+    } : null
+  },
+
+  // Any OpenAI-compatible vision server on the LAN (e.g. Ollama with llava,
+  // LM Studio, llama.cpp server). Base URL is the server's /v1 root.
+  local: {
+    id: 'local',
+    label: 'Local Server',
+    keyPlaceholder: 'Optional',
+    endpoint: '',
+    models: ['llava'],
+    keyOptional: true,
+    userEndpoint: true,
+    estCostPerCall: 0,
+    usageNote: 'Self-Hosted',
+    discoverModels: async (apiKey, endpoint) => {
+      const listResponse = await fetchWithTimeout(
+        `${endpoint}/models`,
+        { method: 'GET', headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {} },
+        5000
+      );
+      if (!listResponse.ok) return [];
+      const listData = await listResponse.json();
+      return (listData.data || []).map((m: any) => m.id);
+    },
+    autoDiscover: true,
+    buildRequest: ({ endpoint, apiKey, model, prompt, images }) => ({
+      url: `${endpoint}/chat/completions`,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+        },
+        body: buildOpenAIChatBody(model, prompt, images)
+      }
+    }),
+    extractText: (data) => data.choices[0].message.content,
+    extractUsage: openAIUsage
+  }
+});
+
+export type AIProvider = keyof typeof AI_PROVIDERS;
+
+export type AIKeys = Partial<Record<AIProvider, string>>;
+
+/**
+ * Per-provider overrides from Settings (base URL for self-hosted servers, chosen model, rate limit, proxy)
+ */
+export interface ProviderSettings {
+  baseUrl?: string;
+  model?: string;
+  requestsPerMinute?: number; // Token-bucket limit shared by all batch workers
+  proxy?: boolean; // Call through the aiProxy Cloud Function with the key held on the server (aiProxy.ts)
+}
+
+export type AIProviderSettings = Partial<Record<AIProvider, ProviderSettings>>;
+
+// Registry order doubles as the default priority and the Settings display order
+export const PROVIDER_IDS = Object.keys(AI_PROVIDERS) as AIProvider[];
+
+export function getProvider(id: AIProvider): AIProviderDefinition {
+  return AI_PROVIDERS[id];
+}
+
+// Resolve the endpoint for a provider, preferring the user's base URL
+export function resolveEndpoint(id: AIProvider, settings: AIProviderSettings = {}): string {
+  const baseUrl = settings[id]?.baseUrl?.trim().replace(/\/+$/, '');
+  return baseUrl || AI_PROVIDERS[id].endpoint;
+}
@@ -0,0 +1,50 @@
+import { httpsCallable } from 'firebase/functions';
+import { proxyFetch } from './aiProxy';
+
+jest.mock('./firebase', () => ({ app: {}, isFirebaseConfigured: () => true }));
+jest.mock('firebase/functions', () => ({
+  getFunctions: jest.fn(() => ({})),
+  connectFunctionsEmulator: jest.fn(),
+  httpsCallable: jest.fn()
+}));
+
+const BODY = JSON.stringify({ contents: [] });
+
+describe('proxyFetch', () => {
+  // The aiProxy callable
+  const callable = jest.fn();
+
+  beforeEach(() => {
+    // Never answers unless a test says otherwise (mocks are reset between tests)
+    callable.mockImplementation(() => new Promise(() => {}));
+    (httpsCallable as jest.Mock).mockReturnValue(callable);
+  });
+
+  test('an aborted request is never sent', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(proxyFetch('gemini', 'gemini-1.5-flash', { body: BODY, signal: controller.signal }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+    expect(callable).not.toHaveBeenCalled();
+  });
+
+  test('aborting stops waiting for the function', async () => {
+    const controller = new AbortController();
+
+    const pending = proxyFetch('gemini', 'gemini-1.5-flash', { body: BODY, signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(callable).toHaveBeenCalledWith({ provider: 'gemini', model: 'gemini-1.5-flash', body: BODY });
+  });
+
+  test('the provider\'s answer comes back as a Response', async () => {
+    callable.mockResolvedValueOnce({ data: { status: 200, data: { ok: true }, key_source: 'org' } });
+
+    const response = await proxyFetch('gemini', 'gemini-1.5-flash', { body: BODY });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ok: true });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Server-side AI proxy
+ * A provider marked "key held on server" in Settings is called through the
+ * aiProxy Cloud Function (functions/aiProxy.js) instead of directly: the
+ * request is built exactly as for a direct call but without a key, and the
+ * function adds the user's stored key (or the organisation's) and counts the
+ * call against the user's monthly quota. The answer comes back as a Response,
+ * so the rest of aiService (rate limits, retries, usage, parsing) can't tell
+ * the difference.
+ *
+ * Set REACT_APP_FUNCTIONS_EMULATOR=localhost:5001 to use the local emulator.
+ */
+import { Functions, connectFunctionsEmulator, getFunctions, httpsCallable } from 'firebase/functions';
+import { app, isFirebaseConfigured } from './firebase';
+import { AIProvider, AIProviderSettings, getProvider } from './aiProviders';
+import { abortError } from './network';
+
+// Callable timeout; the function itself waits on the provider
+const PROXY_TIMEOUT_MS = 60000;
+
+interface ProxyResponse {
+  status: number;
+  data?: any;
+  error?: string;
+  key_source: 'user' | 'org';
+}
+
+let functions: Functions | null = null;
+
+function proxyFunctions(): Functions {
+  if (!isFirebaseConfigured() || !app) throw new Error('Firebase is not configured, so the AI proxy is unavailable');
+  if (!functions) {
+    functions = getFunctions(app);
+    const emulator = process.env.REACT_APP_FUNCTIONS_EMULATOR;
+    if (emulator) {
+      const [host, port] = emulator.split(':');
+      connectFunctionsEmulator(functions, host, parseInt(port, 10) || 5001);
+    }
+  }
+  return functions;
+}
+
+// Hosted providers only; self-hosted servers are reached directly
+export function canProxy(provider: AIProvider): boolean {
+  return !getProvider(provider).userEndpoint;
+}
+
+export function isProxied(provider: AIProvider, settings: AIProviderSettings): boolean {
+  return !!settings[provider]?.proxy && canProxy(provider) && isFirebaseConfigured();
+}
+
+/**
+ * Send a provider request through the proxy. Used in place of fetch: the
+ * provider's status and body come back as a Response. Quota and key problems
+ * throw, and so does `init.signal` firing, with an AbortError as fetch would
+ * (the callable can't be cancelled; its answer is ignored). An aborted
+ * request is never sent, so it isn't counted against the quota.
+ */
+export async function proxyFetch(provider: AIProvider, model: string, init: RequestInit): Promise<Response> {
+  const { signal } = init;
+  if (signal?.aborted) throw abortError();
+  const aiProxy = httpsCallable<unknown, ProxyResponse>(proxyFunctions(), 'aiProxy', { timeout: PROXY_TIMEOUT_MS });
+  const call = aiProxy({ provider, model, body: init.body });
+  const { data: result } = await (signal ? Promise.race([
+    call,
+    new Promise<never>((_, reject) => signal.addEventListener('abort', () => reject(abortError()), { once: true }))
+  ]) : call);
+  return result.data !== undefined
+    ? new Response(JSON.stringify(result.data), { status: result.status, headers: { 'Content-Type': 'application/json' } })
+    : new Response(result.error || '', { status: result.status });
+}
+
+/**
+ * Store the user's key for a provider on the server (encrypted), or remove
+ * it with an empty key
+ */
+export async function saveServerKey(provider: AIProvider, apiKey: string): Promise<boolean> {
+  const saveAIKey = httpsCallable<unknown, { stored: boolean }>(proxyFunctions(), 'saveAIKey');
+  const { data } = await saveAIKey({ provider, apiKey });
+  return data.stored;
+}
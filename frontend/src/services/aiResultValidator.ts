@@ -0,0 +1,223 @@
+/**
+ * AI Result Validator
+ * Turns raw model output into a well-formed AIResult, repairing what it can
+ * and rejecting what it can't. Every repair is recorded in
+ * raw_metadata.validation_repairs so a reviewer can see what was changed.
+ * A thrown error makes analyzeImage fall through to the next provider.
+ */
+import { AIResult } from './aiService';
+import { parseEra } from './era';
+
+const CONFIDENCE_WORDS: Record<string, number> = {
+  'very high': 90,
+  'high': 80,
+  'medium': 50,
+  'moderate': 50,
+  'low': 25,
+  'very low': 10
+};
+
+/**
+ * Find the first balanced {...} block in text, ignoring braces inside strings.
+ * Used when a model wraps its JSON in prose ("Sure! Here is the result: {...}").
+ */
+export function extractJSONObject(text: string): string | null {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') depth++;
+    else if (ch === '}') {
+      depth--;
+      if (depth === 0) return text.substring(start, i + 1);
+    }
+  }
+  return null;
+}
+
+/**
+ * Normalize any confidence representation to a 0-100 integer.
+ * Returns null when the value can't be interpreted.
+ */
+export function normalizeConfidence(value: any): number | null {
+  if (typeof value === 'number' && isFinite(value)) {
+    // 0-1 fractions are scaled up; everything else is clamped to 0-100
+    const scaled = value > 0 && value <= 1 ? value * 100 : value;
+    return Math.round(Math.min(100, Math.max(0, scaled)));
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim().toLowerCase();
+    if (trimmed in CONFIDENCE_WORDS) return CONFIDENCE_WORDS[trimmed];
+    const numeric = parseFloat(trimmed.replace('%', ''));
+    if (!isNaN(numeric)) {
+      // "0.5%" is already a percentage, so only bare numbers get fraction scaling
+      if (trimmed.includes('%')) return Math.round(Math.min(100, Math.max(0, numeric)));
+      return normalizeConfidence(numeric);
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse model text into JSON: strip markdown fences, then fall back to
+ * balanced-brace extraction when the JSON is wrapped in prose.
+ */
+export function parseAIJSON(text: string): { data: any; repairs: string[] } {
+  const repairs: string[] = [];
+
+  // 1. Strip Markdown code blocks
+  const clean = (text || '').replace(/```json\n?/g, '').replace(/```/g, '').trim();
+
+  // 2. Attempt parse
+  try {
+    return { data: JSON.parse(clean), repairs };
+  } catch (e) {
+    // 3. Balanced-brace extraction
+    const extracted = extractJSONObject(clean);
+    if (extracted) {
+      try {
+        repairs.push('extracted_json_from_prose');
+        return { data: JSON.parse(extracted), repairs };
+      } catch (inner) {
+        // Fall through to the error below
+      }
+    }
+    console.error("JSON Parse Failed on:", text);
+    throw new Error("Failed to parse AI JSON response");
+  }
+}
+
+const asText = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+};
+
+/**
+ * Validate and repair a parsed AI object.
+ * Throws when the result is unusable (not an object, or no title at all).
+ */
+export function validateAIResult(input: any, priorRepairs: string[] = []): AIResult {
+  const repairs = [...priorRepairs];
+
+  // Some models wrap the answer: { "result": {...} } or [{...}]
+  let data = input;
+  if (Array.isArray(data) && data.length > 0 && typeof data[0] === 'object') {
+    data = data[0];
+    repairs.push('unwrapped_array');
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error("AI response is not a JSON object");
+  }
+  if (!data.title && data.result && typeof data.result === 'object') {
+    data = data.result;
+    repairs.push('unwrapped_result');
+  }
+
+  // Title is the one field we refuse to invent
+  let title = asText(data.title);
+  if (!title) {
+    title = asText(data.name || data.item);
+    if (!title) throw new Error("AI response missing required field: title");
+    repairs.push('title_from_alias');
+  }
+
+  let type = asText(data.type || data.category);
+  if (!type) {
+    type = 'unknown';
+    repairs.push('type_defaulted');
+  } else if (!data.type) {
+    repairs.push('type_from_category');
+  }
+
+  let year = asText(data.year ?? data.date);
+  if (!year) {
+    year = 'Unknown';
+    repairs.push('year_defaulted');
+  } else if (typeof data.year === 'number') {
+    repairs.push('year_number_to_string');
+  }
+  const era = parseEra(year) || undefined;
+
+  const notes = asText(data.notes ?? data.description);
+  if (!data.notes) repairs.push(notes ? 'notes_from_description' : 'notes_defaulted');
+
+  let score = normalizeConfidence(data.confidence);
+  if (score === null) {
+    score = 50;
+    repairs.push('confidence_defaulted');
+  } else if (typeof data.confidence !== 'string' || !/^\d{1,3}%$/.test(data.confidence.trim())) {
+    repairs.push('confidence_normalized');
+  }
+
+  let rawMetadata: Record<string, any> = {};
+  if (data.raw_metadata && typeof data.raw_metadata === 'object' && !Array.isArray(data.raw_metadata)) {
+    rawMetadata = { ...data.raw_metadata };
+  } else if (typeof data.raw_metadata === 'string') {
+    try {
+      const parsed = JSON.parse(data.raw_metadata);
+      rawMetadata = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { details: parsed };
+      repairs.push('raw_metadata_parsed_from_string');
+    } catch (e) {
+      rawMetadata = { details: data.raw_metadata };
+      repairs.push('raw_metadata_wrapped_string');
+    }
+  } else if (data.raw_metadata !== undefined && data.raw_metadata !== null) {
+    rawMetadata = { details: data.raw_metadata };
+    repairs.push('raw_metadata_wrapped_value');
+  }
+
+  // Per-field confidence (fieldConfidence.ts); unreadable entries are dropped
+  let fieldConfidence: Record<string, number> | undefined;
+  if (data.field_confidence && typeof data.field_confidence === 'object' && !Array.isArray(data.field_confidence)) {
+    fieldConfidence = {};
+    for (const [field, value] of Object.entries(data.field_confidence)) {
+      const fieldScore = normalizeConfidence(value);
+      if (fieldScore !== null) fieldConfidence[field] = fieldScore;
+      else repairs.push('field_confidence_dropped');
+    }
+  }
+
+  // Category fields (see categoryTemplates.ts); typed against the template later
+  const attributes = data.attributes && typeof data.attributes === 'object' && !Array.isArray(data.attributes)
+    ? { ...data.attributes }
+    : undefined;
+
+  if (repairs.length > 0) {
+    rawMetadata.validation_repairs = repairs;
+  }
+
+  return {
+    title,
+    type,
+    year,
+    era,
+    notes,
+    confidence: `${score}%`,
+    confidence_score: score,
+    condition_estimate: asText(data.condition_estimate) || undefined,
+    ...(attributes ? { attributes } : {}),
+    ...(fieldConfidence ? { field_confidence: fieldConfidence } : {}),
+    raw_metadata: rawMetadata
+  };
+}
+
+/**
+ * Parse + validate in one step (the contract every provider response goes through)
+ */
+export function parseAIResult(text: string): AIResult {
+  const { data, repairs } = parseAIJSON(text);
+  return validateAIResult(data, repairs);
+}
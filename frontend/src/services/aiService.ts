@@ -1,105 +1,314 @@
-import { performVisionPass } from './visionService';
+import { TextExtraction, TextExtractionMode, extractTextContext } from './visionService';
+import { AIImageInput, AIProvider, AIKeys, AIProviderSettings, PROVIDER_IDS, getProvider, resolveEndpoint } from './aiProviders';
+import { abortError, fetchWithTimeout } from './network';
+import { parseAIResult } from './aiResultValidator';
+import { acquireSlot, configureRateLimits, reportRateLimited } from './rateLimiter';
+import { Era } from './era';
+import { preprocessImage } from './imagePreprocessor';
+import { extractTitleFromText, extractYearFromText, recognizeText } from './localOcr';
+import { CLASSIFY_PROMPT, CategoryId, CategorySelection, ItemAttributes, attributeFields, coerceAttributes, getCategoryTemplate, parseCategory, templatePrompt } from './categoryTemplates';
+import { DEFAULT_PROMPT, DEFAULT_PROMPT_CONFIG, PromptConfig, promptConfigId } from './promptConfig';
+import type { FieldConfidence } from './fieldConfidence';
+import { MAX_CONSENSUS_PROVIDERS, ProviderAnswer, mergeConsensus } from './consensus';
+import type { AICallUsage } from './usageLedger';
+import { markModelUnavailable, modelsToTry } from './modelDiscovery';
+import { ExpertEscalation, acceptExpertAnswer, expertReviewPrompt, shouldEscalate } from './expertReview';
+import { isProxied, proxyFetch } from './aiProxy';
+import { CatalogMatch, catalogPrompt } from './catalogLookup';
+
+export type { AIImageInput, AIProvider, AIKeys, AIProviderSettings } from './aiProviders';
+export type { TextExtractionMode } from './visionService';
+export type { CategorySelection } from './categoryTemplates';
 
 export interface AIResult {
   title: string;
   type: string;
   year: string;
   notes: string;
-  confidence: string;
+  confidence: string; // Always normalized to "NN%"
+  confidence_score?: number; // Same value as a 0-100 number
+  era?: Era;
   condition_estimate?: string;
+  category?: CategoryId | 'general'; // Prompt template used
+  attributes?: ItemAttributes; // Category and custom fields, converted to their types
+  prompt_version?: number; // PromptConfig version that produced the answer
+  prompt_id?: string; // And its id, which a sync never renumbers
+  field_confidence?: FieldConfidence; // 0-100 per field the model filled in
+  usage?: AICallUsage[]; // Every provider request behind the answer, for the usage ledger
   raw_metadata?: Record<string, any>;
 }
 
-export type AIProvider = 'openai' | 'gemini' | 'claude';
+// Part of the answer contract whatever the configured prompt says
+const FIELD_CONFIDENCE_PROMPT = `
+Also return "field_confidence": an object giving your confidence (0-100) in each field you filled in ("title", "type", "year", "notes", "condition_estimate" and each key of "attributes"), so doubtful fields can be reviewed.`;
+
+// Appended when an item has more than one photo
+const MULTI_PHOTO_PROMPT = `
+The photos all show the SAME object from different sides (each is labelled with its role).
+Combine clues across them (postmarks, messages, publisher lines, maker's marks, labels) into ONE identification.`;
 
-export interface AIKeys {
-  openai?: string;
-  gemini?: string;
-  claude?: string;
+// How one identification runs; every field has a default
+export interface AnalyzeOptions {
+  priority?: AIProvider[];
+  providerSettings?: AIProviderSettings;
+  imageIsPrepared?: boolean; // Already AI-sized by the preprocessing step; skip the resize
+  extraImages?: AIImageInput[]; // Back/detail/label shots of the same item, sent in the same request
+  textExtraction?: TextExtractionMode; // OCR/label stage whose output goes into the prompt
+  category?: CategorySelection; // Template for the extra fields; 'auto' classifies first
+  promptConfig?: PromptConfig; // User-edited prompt and custom fields (Settings)
+  consensus?: number; // Ask this many providers at once and merge their answers (consensus.ts); 0/1 = first that answers
+  escalateBelow?: number; // Routing (routingPolicy.ts): keep asking down the list while answers are less confident than this
+  expert?: ExpertEscalation | null; // Second pass for low-confidence answers (expertReview.ts)
+  catalog?: CatalogMatch | null; // Record for the item's barcode (catalogLookup.ts), given to the model
+  signal?: AbortSignal; // Cancels the provider requests; once it fires nothing falls back
 }
 
-const PROMPT = `Identify this vintage object. Return ONLY a JSON object with: 
-"title" (brief name), 
-"type" (document, photo, postcard, book, toy, card, etc.), 
-"year" (estimate, e.g. "c. 1920s"), 
-"notes" (1-2 sentences context),
-"confidence" (percentage 0-100%),
-"condition_estimate" (brief mention of visible wear),
-"raw_metadata" (an object with extra context like publisher, material, dimensions estimate, or specific markings if visible).
-Be accurate as a cataloging expert. Provide deep context in raw_metadata if possible.`;
-
-export async function analyzeImage(
-  base64Image: string,
-  keys: AIKeys,
-  priority: AIProvider[] = ['gemini', 'openai', 'claude']
-): Promise<AIResult> {
+export async function analyzeImage(base64Image: string, keys: AIKeys, options: AnalyzeOptions = {}): Promise<AIResult> {
+  const {
+    priority = PROVIDER_IDS,
+    providerSettings = {},
+    imageIsPrepared = false,
+    extraImages = [],
+    textExtraction = 'off',
+    category = 'general',
+    promptConfig = DEFAULT_PROMPT_CONFIG,
+    consensus = 0,
+    escalateBelow = 0,
+    expert = null,
+    catalog = null,
+    signal
+  } = options;
   if (!base64Image || base64Image.length < 50) {
     throw new Error("No image data provided for analysis");
   }
 
   let lastError: any = null;
+  const usage: AICallUsage[] = [];
 
-  // 1. LLM FIRST STRATEGY (User Requirement: Google Cloud Vision is too slow/blocking)
-  // We skip the explicit Vision API pass and go straight to the priority loop.
+  // 1. OPTIONAL TEXT-EXTRACTION STAGE
+  // Off by default (Cloud Vision is slow); when on, its OCR text, labels and
+  // barcodes go into the LLM prompt rather than replacing the LLM.
+  let images: AIImageInput[] | null = imageIsPrepared
+    ? [{ base64: base64Image, role: 'front' }, ...extraImages]
+    : null;
+  let textContext: ImageText[] = [];
+  if (textExtraction !== 'off') {
+    try {
+      images = images || await prepareImages(base64Image, extraImages);
+      textContext = await readImageText(images, textExtraction);
+    } catch (err) {
+      console.warn('Text extraction stage failed, continuing without it:', err);
+    }
+  }
 
+  // 2. CATEGORY: the batch's choice, or a short classification call for 'auto'
+  let resolvedCategory: CategoryId | 'general' = category === 'auto' ? 'general' : category;
+  if (category === 'auto') {
+    try {
+      images = images || await prepareImages(base64Image, extraImages);
+      resolvedCategory = await classifyCategory(images[0], keys, priority, providerSettings, usage);
+    } catch (err) {
+      console.warn('Category classification failed, using the general prompt:', err);
+    }
+  }
+  const template = getCategoryTemplate(resolvedCategory);
+  const fields = attributeFields(template, promptConfig.fields);
+  // Attributes only exist for requested fields; anything else is dropped
+  const withCategory = ({ attributes, ...result }: AIResult): AIResult => ({
+    ...result,
+    usage,
+    category: resolvedCategory,
+    ...(fields.length > 0 ? { attributes: coerceAttributes(fields, attributes, result, result.raw_metadata) } : {}),
+    raw_metadata: {
+      ...(result.raw_metadata || {}),
+      category_source: category === 'auto' ? 'auto' : 'user'
+    }
+  });
+  const promptContext = textContextPrompt(textContext) + catalogPrompt(catalog) + templatePrompt(template, fields);
 
-  // 2. LLM FALLBACK LOGIC
+  // 3. LLM FALLBACK LOGIC
   // Debug: log which keys are available
-  console.log('Available AI keys:', {
-    gemini: keys.gemini ? '✓ Set' : '✗ Missing',
-    openai: keys.openai ? '✓ Set' : '✗ Missing',
-    claude: keys.claude ? '✓ Set' : '✗ Missing'
-  });
+  console.log('Available AI keys:', Object.fromEntries(
+    PROVIDER_IDS.map(id => [id, keys[id] ? '✓ Set' : '✗ Missing'])
+  ));
+
+  configureRateLimits(Object.fromEntries(
+    PROVIDER_IDS.map(id => [id, providerSettings[id]?.requestsPerMinute])
+  ));
 
-  // 2. LLM FALLBACK LOGIC with Global Timeout to prevent E2E/UX hangs
+  // 3. LLM FALLBACK LOGIC with Global Timeout to prevent E2E/UX hangs
+  // Time spent queued behind the rate limiter extends the deadline, so a busy
+  // parallel batch doesn't fall back to "Unidentified" just for waiting its turn.
   const globalTimeout = 45000; // 45 seconds total for all cloud attempts
+  let deadline = Date.now() + globalTimeout;
+  const extendDeadline = (ms: number) => { deadline += ms; };
   
   try {
     const result = await Promise.race([
       (async () => {
-        for (const provider of priority) {
-          let key = keys[provider];
-          if (!key) continue;
-          key = key.trim();
+        let available = priority.filter(provider => isProviderAvailable(provider, keys, providerSettings));
 
+        // Consensus: the first N providers in parallel. With fewer than two
+        // answers there is nothing to compare, so use what came back or carry
+        // on down the list.
+        const panel = available.slice(0, Math.min(consensus, MAX_CONSENSUS_PROVIDERS));
+        if (panel.length >= 2) {
+          console.log(`Asking ${panel.map(p => p.toUpperCase()).join(', ')} for consensus...`);
+          images = images || await prepareImages(base64Image, extraImages);
+          const settled = await Promise.all(panel.map(provider =>
+            callProvider(provider, images!, (keys[provider] || '').trim(), providerSettings, extendDeadline, promptContext, promptConfig.prompt, usage, signal)
+              .then((result): ProviderAnswer => ({ provider, result }))
+              .catch(err => {
+                console.warn(`${provider} failed:`, err);
+                lastError = err;
+                return null;
+              })
+          ));
+          const answers = settled.filter((answer): answer is ProviderAnswer => answer !== null);
+          if (answers.length >= 2) return mergeConsensus(answers);
+          if (answers.length === 1) return answers[0].result;
+          available = available.slice(panel.length);
+        }
+
+        // Escalation: a doubtful answer is held while the next provider is
+        // asked; the most confident one is returned
+        const doubtful: AIResult[] = [];
+        const mostConfident = (answers: AIResult[]): AIResult => {
+          const best = answers.slice().sort((a, b) => (b.confidence_score ?? 0) - (a.confidence_score ?? 0))[0];
+          const passedOver = doubtful.filter(answer => answer !== best);
+          if (passedOver.length === 0) return best;
+          return {
+            ...best,
+            raw_metadata: { ...(best.raw_metadata || {}), escalated_from: passedOver.map(answer => answer.raw_metadata?.ai_provider) }
+          };
+        };
+        for (const provider of available) {
+          if (signal?.aborted) break;
+          const key = (keys[provider] || '').trim();
           try {
             console.log(`Attempting ${provider.toUpperCase()}...`);
-            const resizedImage = await resizeImageForAI(base64Image);
-            let response;
-            switch (provider) {
-              case 'openai': response = await callOpenAI(resizedImage, key); break;
-              case 'gemini': response = await callGemini(resizedImage, key); break;
-              case 'claude': response = await callClaude(resizedImage, key); break;
+            images = images || await prepareImages(base64Image, extraImages);
+            const response = await callProvider(provider, images, key, providerSettings, extendDeadline, promptContext, promptConfig.prompt, usage, signal);
+            if (!response) continue;
+            if ((response.confidence_score ?? 0) < escalateBelow && provider !== available[available.length - 1]) {
+              console.log(`${provider} answered with ${response.confidence}, escalating...`);
+              doubtful.push(response);
+              continue;
             }
-            if (response) return response;
+            return mostConfident([response, ...doubtful]);
           } catch (err) {
             console.warn(`${provider} failed:`, err);
             lastError = err;
           }
         }
+        if (doubtful.length > 0) return mostConfident(doubtful);
         throw new Error("All cloud providers exhausted");
       })(),
-      new Promise((_, reject) => 
-        setTimeout(() => reject(new Error("Global AI Timeout")), globalTimeout)
-      )
+      new Promise((_, reject) => {
+        const check = () => {
+          const remaining = deadline - Date.now();
+          if (remaining <= 0) reject(new Error("Global AI Timeout"));
+          else setTimeout(check, remaining);
+        };
+        check();
+      })
     ]);
     
-    if (result) return result as AIResult;
+    if (result) {
+      const answer = await reviewWithExpert(result as AIResult, expert, images!, keys, providerSettings, promptContext, promptConfig.prompt, usage, signal);
+      return {
+        ...withCategory(withTextContext(answer, textContext)),
+        prompt_version: promptConfig.version,
+        ...(promptConfigId(promptConfig) ? { prompt_id: promptConfigId(promptConfig) } : {})
+      };
+    }
   } catch (err) {
     console.error("Cloud AI orchestration failed/timed out:", err);
     lastError = err;
   }
+  // Cancelled: the caller has stopped waiting, so no fallback either
+  if (signal?.aborted) throw abortError('Identification was cancelled');
 
-  // 3. ZERO-KEY / LOCAL AI FALLBACKS (Chrome Gemini Nano / WebLLM)
+  // 4. ZERO-KEY / LOCAL AI FALLBACKS (Chrome Gemini Nano / WebLLM)
   try {
     const chromeAIResult = await callChromeGeminiNano(base64Image);
-    if (chromeAIResult) return chromeAIResult;
+    if (chromeAIResult) return withCategory(withTextContext(chromeAIResult, textContext));
   } catch (err) {
     console.warn('Chrome Gemini Nano unavailable:', err);
   }
 
+  // 5. OFFLINE OCR: keep whatever is legible (reuses the text stage's reading)
+  try {
+    const ocrResult = await generateOcrFallback(base64Image, lastError, joinImageText(textContext));
+    if (ocrResult) return withCategory(withTextContext(ocrResult, textContext));
+  } catch (err) {
+    console.warn('Local OCR fallback failed:', err);
+  }
+
   // FINAL SAFETY NET: Always return a valid object
-  return generateLocalFallback(base64Image, lastError);
+  return withCategory(withTextContext(generateLocalFallback(base64Image, lastError), textContext));
+}
+
+// OCR output for one photo of the item
+interface ImageText extends TextExtraction {
+  role: AIImageInput['role'];
+}
+
+// Longest transcription put into the prompt; the full text is still stored
+const MAX_PROMPT_TEXT_LENGTH = 2000;
+
+async function prepareImages(base64Image: string, extraImages: AIImageInput[]): Promise<AIImageInput[]> {
+  return [
+    { base64: await resizeImageForAI(base64Image), role: 'front' },
+    ...await Promise.all(extraImages.map(async image => ({ ...image, base64: await resizeImageForAI(image.base64) })))
+  ];
+}
+
+async function readImageText(images: AIImageInput[], mode: TextExtractionMode): Promise<ImageText[]> {
+  const results = await Promise.all(images.map(async image => {
+    const extraction = await extractTextContext(image.base64, mode);
+    return extraction ? { ...extraction, role: image.role } : null;
+  }));
+  return results.filter((result): result is ImageText => result !== null);
+}
+
+function joinImageText(textContext: ImageText[]): string {
+  const withText = textContext.filter(result => result.text.trim());
+  if (withText.length === 1) return withText[0].text.trim();
+  return withText.map(result => `[${result.role}]\n${result.text.trim()}`).join('\n\n');
+}
+
+const unique = (values: string[]) => Array.from(new Set(values));
+
+function textContextPrompt(textContext: ImageText[]): string {
+  const text = joinImageText(textContext);
+  const labels = unique(textContext.flatMap(result => result.labels));
+  const barcodes = unique(textContext.flatMap(result => result.barcodes));
+  if (!text && labels.length === 0 && barcodes.length === 0) return '';
+
+  let prompt = `
+Context read from the photo(s) before this request (OCR can misread characters; trust it over guessing for printed titles, publishers and dates):`;
+  if (text) prompt += `\nTranscribed text:\n"""\n${text.substring(0, MAX_PROMPT_TEXT_LENGTH)}\n"""`;
+  if (labels.length > 0) prompt += `\nDetected labels: ${labels.join(', ')}`;
+  if (barcodes.length > 0) prompt += `\nBarcodes: ${barcodes.join(', ')}`;
+  return prompt;
+}
+
+// Keep what the text stage read alongside the answer, whichever path produced it
+function withTextContext(result: AIResult, textContext: ImageText[]): AIResult {
+  if (textContext.length === 0) return result;
+  const text = joinImageText(textContext);
+  const barcodes = unique(textContext.flatMap(r => r.barcodes));
+  return {
+    ...result,
+    raw_metadata: {
+      ...(result.raw_metadata || {}),
+      ...(text ? { ocr_text: text } : {}),
+      ocr_labels: unique(textContext.flatMap(r => r.labels)),
+      ocr_source: textContext[0].source,
+      ...(barcodes.length > 0 ? { barcodes } : {})
+    }
+  };
 }
 
 
@@ -155,208 +364,266 @@ function generateLocalFallback(base64Image: string, error: any): AIResult {
 
 }
 
-// Resize image to reduce upload size (AI doesn't need HD)
-async function resizeImageForAI(base64Image: string, maxDimension = 800): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d')!;
-      
-      // Calculate new dimensions
-      let width = img.width;
-      let height = img.height;
-      if (width > height && width > maxDimension) {
-        height = (height / width) * maxDimension;
-        width = maxDimension;
-      } else if (height > maxDimension) {
-        width = (width / height) * maxDimension;
-        height = maxDimension;
-      }
-      
-      canvas.width = width;
-      canvas.height = height;
-      ctx.drawImage(img, 0, 0, width, height);
-      
-      // Get resized base64 (without data URL prefix)
-      const resized = canvas.toDataURL('image/jpeg', 0.8).split(',')[1];
-      console.log(`Image resized: ${img.width}x${img.height} → ${Math.round(width)}x${Math.round(height)}`);
-      resolve(resized);
-    };
-    // 🛡️ Trojan Horse Defense: Fail fast if it's not a valid image
-    img.onerror = () => {
-        console.warn("Image load failed - possibly corrupted or not an image file.");
-        reject(new Error("Invalid image data"));
-    };
-    img.src = base64Image.startsWith('data:') ? base64Image : `data:image/jpeg;base64,${base64Image}`;
-  });
+// Fewer legible characters than this is OCR noise, not text
+const MIN_OCR_TEXT = /[a-z0-9]{3,}/i;
+
+// Pre-fill the item from text read on-device (tesseract.js). Null when
+// nothing legible was found, leaving the plain fallback.
+async function generateOcrFallback(base64Image: string, error: any, knownText = ''): Promise<AIResult | null> {
+  const { text, confidence } = knownText ? { text: knownText, confidence: undefined } : await recognizeText(base64Image);
+  if (!MIN_OCR_TEXT.test(text)) return null;
+
+  const timestamp = new Date().toLocaleTimeString();
+  const excerpt = text.replace(/\s+/g, ' ').substring(0, 200);
+  return {
+    title: extractTitleFromText(text) || `Unidentified Item (${timestamp})`,
+    type: "unknown",
+    year: extractYearFromText(text) || "Unknown",
+    notes: `Read offline from the item: "${excerpt}". AI analysis unavailable (${error?.message || 'Timeout/Network'}); re-run AI identification when back online.`,
+    confidence: "20%", // Text only, nothing was identified
+    condition_estimate: "Not assessed",
+    raw_metadata: {
+        fallback_mode: 'ocr',
+        ocr_text: text,
+        ...(confidence !== undefined ? { ocr_confidence: confidence } : {}),
+        error_details: error?.message,
+        capture_time: new Date().toISOString()
+    }
+  };
 }
 
-// Helper for Network Resilience
-async function fetchWithTimeout(resource: RequestInfo, options: RequestInit = {}, timeout = 15000) {
-  const controller = new AbortController();
-  const id = setTimeout(() => controller.abort(), timeout);
+// Resize image to reduce upload size (AI doesn't need HD).
+// Shares the worker-based preprocessing step with the batch pipeline.
+async function resizeImageForAI(base64Image: string): Promise<string> {
   try {
-    const response = await fetch(resource, {
-      ...options,
-      signal: controller.signal
-    });
-    clearTimeout(id);
-    return response;
-  } catch (error: any) {
-    clearTimeout(id);
-    if (error.name === 'AbortError') {
-      throw new Error('Network timeout: The request took too long. Check your internet connection or DNS settings.');
-    }
-    throw error;
+    return (await preprocessImage(base64Image)).aiImage;
+  } catch (err) {
+    // 🛡️ Trojan Horse Defense: Fail fast if it's not a valid image
+    console.warn("Image load failed - possibly corrupted or not an image file.");
+    throw new Error("Invalid image data");
   }
 }
 
-async function callOpenAI(base64Content: string, apiKey: string): Promise<AIResult> {
-  const response = await fetchWithTimeout('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "user",
-          content: [
-            { type: "text", text: PROMPT },
-            { type: "image_url", image_url: { url: `data:image/jpeg;base64,${base64Content}` } }
-          ]
-        }
-      ],
-      response_format: { type: "json_object" }
-    })
-  });
+// Generic provider call: every registry entry is driven through the same
+// build request -> fetch -> extract text -> parse sequence
+const MAX_RATE_LIMIT_RETRIES = 2;
 
-  if (!response.ok) {
-    const errorBody = await response.text();
-    console.error('OpenAI Error Details:', errorBody);
-    throw new Error(`OpenAI error: ${response.status} ${response.statusText} - ${errorBody}`);
+type RequestSender = (url: string, init: RequestInit) => Promise<Response>;
+
+// Straight to the provider, or through the aiProxy Cloud Function when its key
+// is held on the server (the request was then built without a key)
+function senderFor(provider: AIProvider, model: string, providerSettings: AIProviderSettings): RequestSender {
+  return isProxied(provider, providerSettings)
+    ? (_url, init) => proxyFetch(provider, model, init)
+    : fetchWithTimeout;
+}
+
+// Send a request through the provider's token bucket, retrying on HTTP 429.
+// reportRateLimited() blocks the bucket for Retry-After, so the next
+// acquireSlot() call is what actually waits.
+async function fetchRateLimited(
+  provider: AIProvider,
+  url: string,
+  init: RequestInit,
+  onWait: (ms: number) => void,
+  send: RequestSender = fetchWithTimeout
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    const queuedAt = Date.now();
+    await acquireSlot(provider);
+    onWait(Date.now() - queuedAt);
+
+    const response = await send(url, init);
+    if (response.status !== 429 || attempt >= MAX_RATE_LIMIT_RETRIES) return response;
+    reportRateLimited(provider, response.headers.get('Retry-After'), attempt);
   }
-  const data = await response.json();
-  return cleanAIResponse(data.choices[0].message.content);
 }
 
-async function callGemini(base64Content: string, apiKey: string): Promise<AIResult> {
-  // First, discover available models
-  let models: string[] = [];
+// fetchRateLimited plus a usage entry for the request. Latency leaves out
+// time spent queued for a rate-limit slot; the caller adds the token counts
+// once it has read the body.
+async function meteredFetch(
+  provider: AIProvider,
+  model: string,
+  purpose: AICallUsage['purpose'],
+  url: string,
+  init: RequestInit,
+  onWait: (ms: number) => void,
+  usage: AICallUsage[],
+  send: RequestSender = fetchWithTimeout
+): Promise<{ response: Response; entry: AICallUsage }> {
+  const startedAt = Date.now();
+  let waited = 0;
+  const entry: AICallUsage = { at: new Date().toISOString(), provider, model, purpose, ok: false, input_tokens: 0, output_tokens: 0, latency_ms: 0 };
+  usage.push(entry);
   try {
-    console.log('Discovering available Gemini models...');
-    const listResponse = await fetchWithTimeout(
-      `https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`,
-      { method: 'GET' }
-    );
-    if (listResponse.ok) {
-      const listData = await listResponse.json();
-      // Filter for models that support generateContent and preferably vision
-      models = (listData.models || [])
-        .filter((m: any) => m.supportedGenerationMethods?.includes('generateContent'))
-        .map((m: any) => m.name.replace('models/', ''));
-      console.log('Available Gemini models:', models);
-    }
-  } catch (err) {
-    console.warn('Failed to list models, using fallback:', err);
+    const response = await fetchRateLimited(provider, url, init, ms => {
+      waited += ms;
+      onWait(ms);
+    }, send);
+    entry.ok = response.ok;
+    return { response, entry };
+  } finally {
+    entry.latency_ms = Date.now() - startedAt - waited;
   }
-  
-  // Fallback to known models if discovery failed
-  if (models.length === 0) {
-    models = [
-      'gemini-2.0-flash-exp',
-      'gemini-1.5-flash',
-      'gemini-1.5-pro',
-      'gemini-pro-vision'
-    ];
-  }
-  
+}
+
+async function callProvider(
+  provider: AIProvider,
+  images: AIImageInput[],
+  apiKey: string,
+  providerSettings: AIProviderSettings,
+  onWait: (ms: number) => void = () => {},
+  promptContext = '', // Text-extraction output and attribute fields, appended to the prompt
+  basePrompt = DEFAULT_PROMPT,
+  usage: AICallUsage[] = [], // Each request is appended, answered or not
+  signal?: AbortSignal // Stops the request in flight and any models not yet tried
+): Promise<AIResult> {
+  const definition = getProvider(provider);
+  const endpoint = resolveEndpoint(provider, providerSettings);
+  if (isProxied(provider, providerSettings)) apiKey = ''; // The proxy adds it
+  // Pinned model, else the cached discovery (modelDiscovery.ts), else the known models
+  const models = await modelsToTry(provider, apiKey, providerSettings);
+
+  let lastError: any = null;
   for (const model of models) {
+    if (signal?.aborted) break;
     try {
-      console.log(`Trying Gemini model: ${model}`);
-      const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
-      const response = await fetchWithTimeout(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{
-            parts: [
-              { text: PROMPT },
-              { inline_data: { mime_type: "image/jpeg", data: base64Content } }
-            ]
-          }],
-          generationConfig: { responseMimeType: "application/json" }
-        })
+      console.log(`Trying ${definition.label} model: ${model}`);
+      const { url, init } = definition.buildRequest({
+        endpoint,
+        apiKey,
+        model,
+        prompt: (images.length > 1 ? basePrompt + MULTI_PHOTO_PROMPT : basePrompt) + promptContext + FIELD_CONFIDENCE_PROMPT,
+        images
       });
+      const { response, entry } = await meteredFetch(provider, model, 'identify', url, signal ? { ...init, signal } : init, onWait, usage,
+        senderFor(provider, model, providerSettings));
 
       if (!response.ok) {
-        const errorText = await response.text();
-        console.warn(`Gemini ${model} returned ${response.status}: ${errorText.substring(0, 100)}`);
-        continue; // Try next model
+        const errorBody = await response.text();
+        console.warn(`${definition.label} ${model} returned ${response.status}: ${errorBody.substring(0, 100)}`);
+        if (response.status === 404) markModelUnavailable(provider, providerSettings, model);
+        throw new Error(`${definition.label} error: ${response.status} ${response.statusText} - ${errorBody}`);
       }
-      
+
       const data = await response.json();
-      const text = data.candidates[0].content.parts[0].text;
-      console.log(`Gemini ${model} succeeded!`);
-      return cleanAIResponse(text);
+      Object.assign(entry, definition.extractUsage(data));
+      const result: AIResult = cleanAIResponse(definition.extractText(data));
+      console.log(`${definition.label} ${model} succeeded!`);
+      return {
+        ...result,
+        raw_metadata: {
+          ...(result.raw_metadata || {}),
+          ai_provider: provider,
+          ai_model: model,
+          ...(images.length > 1 ? { photo_roles: images.map(image => image.role) } : {})
+        }
+      };
     } catch (err) {
-      console.warn(`Gemini ${model} failed:`, err);
+      console.warn(`${definition.label} ${model} failed:`, err);
+      lastError = err;
       // Continue to next model
     }
   }
-  
-  throw new Error('All Gemini models failed');
+
+  throw lastError || new Error(`All ${definition.label} models failed`);
 }
 
-async function callClaude(base64Content: string, apiKey: string): Promise<AIResult> {
-  // Claude usually requires a proxy due to strict CORS. 
-  // We'll try direct but warn that it might need a bridge.
-  const response = await fetchWithTimeout('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-      'dangerously-allow-browser': 'true' // Some SDKs/Wrappers look for this
-    },
-    body: JSON.stringify({
-      model: "claude-3-5-sonnet-20240620",
-      max_tokens: 1024,
-      messages: [{
-        role: "user",
-        content: [
-          { type: "text", text: PROMPT },
-          { type: "image", source: { type: "base64", media_type: "image/jpeg", data: base64Content } }
-        ]
-      }]
-    })
-  });
+// The expert pass starts once the first answer is in, after the cloud
+// deadline above; it has its own limit rather than none
+const EXPERT_TIMEOUT = 30000;
 
-  if (!response.ok) throw new Error(`Claude error: ${response.statusText}`);
-  const data = await response.json();
-  // Claude returns content as an array of parts
-  const text = data.content[0].text;
-  return cleanAIResponse(text);
+/**
+ * Low-confidence answers go to the expert model with the answer as a draft
+ * to verify. Without a usable expert, or if it fails or runs out of time,
+ * the draft stands.
+ */
+async function reviewWithExpert(
+  draft: AIResult,
+  expert: ExpertEscalation | null,
+  images: AIImageInput[],
+  keys: AIKeys,
+  providerSettings: AIProviderSettings,
+  promptContext: string,
+  basePrompt: string,
+  usage: AICallUsage[],
+  signal?: AbortSignal
+): Promise<AIResult> {
+  if (!shouldEscalate(draft, expert) || !isProviderAvailable(expert.provider, keys, providerSettings)) return draft;
+  console.log(`${draft.confidence} is under ${expert.threshold}%, asking ${expert.provider.toUpperCase()} to verify...`);
+  const expertSettings: AIProviderSettings = expert.model
+    ? { ...providerSettings, [expert.provider]: { ...providerSettings[expert.provider], model: expert.model } }
+    : providerSettings;
+  const controller = new AbortController();
+  signal?.addEventListener('abort', () => controller.abort());
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const verified = await Promise.race([
+      callProvider(expert.provider, images, (keys[expert.provider] || '').trim(), expertSettings, undefined,
+        promptContext + expertReviewPrompt(draft), basePrompt, usage, controller.signal),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          controller.abort();
+          reject(new Error('Expert review timed out'));
+        }, EXPERT_TIMEOUT);
+      })
+    ]);
+    return acceptExpertAnswer(draft, verified, expert.threshold);
+  } catch (err) {
+    console.warn('Expert review failed, keeping the first answer:', err);
+    return draft;
+  } finally {
+    clearTimeout(timer);
+  }
 }
 
-// Robust JSON Cleaner for AI responses
-function cleanAIResponse(text: string): any {
-  try {
-    // 1. Strip Markdown code blocks
-    let clean = text.replace(/```json\n?/g, '').replace(/```/g, '');
-    
-    // 2. Trim whitespace
-    clean = clean.trim();
-    
-    // 3. Attempt parse
-    return JSON.parse(clean);
-  } catch (e) {
-    console.error("JSON Parse Failed on:", text);
-    // Attempt relaxed parsing or partial recovery? 
-    // For now, simpler is better. If it fails, it fails, but we handled the markdown case.
-    throw new Error("Failed to parse AI JSON response");
+// A key (local, key-optional or held by the proxy) and, for self-hosted ones, an endpoint
+function isProviderAvailable(provider: AIProvider, keys: AIKeys, providerSettings: AIProviderSettings): boolean {
+  if (isProxied(provider, providerSettings)) return true;
+  const definition = getProvider(provider);
+  if (!(keys[provider] || '').trim() && !definition.keyOptional) return false;
+  return !definition.userEndpoint || !!providerSettings[provider]?.baseUrl;
+}
+
+/**
+ * Category of the item from the front photo: one short request to the first
+ * usable provider (its pinned or first known model), no retries. Anything
+ * unexpected reads as 'general'.
+ */
+async function classifyCategory(
+  image: AIImageInput,
+  keys: AIKeys,
+  priority: AIProvider[],
+  providerSettings: AIProviderSettings,
+  usage: AICallUsage[] = []
+): Promise<CategoryId | 'general'> {
+  for (const provider of priority) {
+    if (!isProviderAvailable(provider, keys, providerSettings)) continue;
+    const definition = getProvider(provider);
+    const apiKey = isProxied(provider, providerSettings) ? '' : (keys[provider] || '').trim();
+
+    const model = providerSettings[provider]?.model || definition.models[0];
+    const { url, init } = definition.buildRequest({
+      endpoint: resolveEndpoint(provider, providerSettings),
+      apiKey,
+      model,
+      prompt: CLASSIFY_PROMPT,
+      images: [image]
+    });
+    const { response, entry } = await meteredFetch(provider, model, 'classify', url, init, () => {}, usage,
+      senderFor(provider, model, providerSettings));
+    if (!response.ok) throw new Error(`${definition.label} error: ${response.status} ${response.statusText}`);
+    const data = await response.json();
+    Object.assign(entry, definition.extractUsage(data));
+    return parseCategory(definition.extractText(data));
   }
+  return 'general';
+}
+
+// Robust JSON Cleaner for AI responses
+// Parsing, repair and schema validation live in aiResultValidator.ts; a
+// validation failure throws so the caller moves on to the next provider.
+function cleanAIResponse(text: string): AIResult {
+  return parseAIResult(text);
 }
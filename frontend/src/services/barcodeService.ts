@@ -0,0 +1,116 @@
+/**
+ * Barcode detection (ISBN / UPC / EAN)
+ * Books, records and boxed toys usually carry a retail barcode; reading it
+ * gives an exact catalog lookup (see catalogLookup.ts) instead of a guess.
+ *
+ * Uses the browser's BarcodeDetector where it exists (Chromium on Android,
+ * macOS) and the zxing-cpp WASM reader otherwise, loaded on first use from
+ * public/wasm (copied there by scripts/copy-offline-assets.js) rather than
+ * zxing-wasm's default CDN, so detection works offline.
+ */
+
+export type BarcodeKind = 'isbn' | 'upc' | 'ean';
+
+export interface DetectedBarcode {
+  value: string; // Digits as printed (ISBNs normalised to ISBN-13)
+  kind: BarcodeKind;
+  format: string; // Symbology reported by the detector, e.g. "ean_13"
+}
+
+// Retail symbologies only: QR codes and the like are not catalog numbers
+const NATIVE_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e'];
+const WASM_FORMATS = ['EAN-13', 'EAN-8', 'UPC-A', 'UPC-E'] as const;
+const MAX_SYMBOLS = 4;
+const ZXING_WASM_URL = `${process.env.PUBLIC_URL}/wasm/zxing_reader.wasm`;
+let zxingPrepared = false;
+
+// GS1 mod-10 check digit (EAN-8, EAN-13, UPC-A)
+function hasValidGs1CheckDigit(digits: string): boolean {
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    // Weights alternate 3,1 from the digit next to the check digit
+    sum += Number(body[body.length - 1 - i]) * (i % 2 === 0 ? 3 : 1);
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+function hasValidIsbn10CheckDigit(isbn: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const char = isbn[i].toUpperCase();
+    const value = char === 'X' && i === 9 ? 10 : Number(char);
+    if (isNaN(value)) return false;
+    sum += value * (10 - i);
+  }
+  return sum % 11 === 0;
+}
+
+function isbn10To13(isbn10: string): string {
+  const body = `978${isbn10.slice(0, 9)}`;
+  let sum = 0;
+  for (let i = 0; i < 12; i++) sum += Number(body[i]) * (i % 2 === 0 ? 1 : 3);
+  return body + ((10 - (sum % 10)) % 10);
+}
+
+/**
+ * Validate and classify a scanned or typed code. Returns null for anything
+ * that isn't a well-formed ISBN, UPC or EAN.
+ */
+export function classifyBarcode(raw: string, format = 'manual'): DetectedBarcode | null {
+  const value = raw.replace(/[\s-]/g, '');
+  if (/^\d{9}[\dXx]$/.test(value)) {
+    return hasValidIsbn10CheckDigit(value) ? { value: isbn10To13(value), kind: 'isbn', format } : null;
+  }
+  if (!/^\d+$/.test(value) || ![8, 12, 13].includes(value.length) || !hasValidGs1CheckDigit(value)) return null;
+  if (value.length === 13 && /^97[89]/.test(value)) return { value, kind: 'isbn', format }; // Bookland EAN
+  if (value.length === 12) return { value, kind: 'upc', format };
+  return { value, kind: 'ean', format };
+}
+
+async function detectNative(image: Blob): Promise<Array<{ rawValue: string; format: string }> | null> {
+  const Detector = (window as any).BarcodeDetector;
+  if (!Detector || typeof createImageBitmap === 'undefined') return null;
+  const supported: string[] = await Detector.getSupportedFormats();
+  const formats = NATIVE_FORMATS.filter(format => supported.includes(format));
+  if (formats.length === 0) return null;
+  const bitmap = await createImageBitmap(image);
+  try {
+    return await new Detector({ formats }).detect(bitmap);
+  } finally {
+    bitmap.close();
+  }
+}
+
+async function detectWasm(image: Blob): Promise<Array<{ rawValue: string; format: string }>> {
+  const { prepareZXingModule, readBarcodes } = await import('zxing-wasm/reader');
+  if (!zxingPrepared) {
+    prepareZXingModule({
+      overrides: { locateFile: (path: string, prefix: string) => path.endsWith('.wasm') ? ZXING_WASM_URL : prefix + path }
+    });
+    zxingPrepared = true;
+  }
+  const results = await readBarcodes(image, { formats: [...WASM_FORMATS], tryHarder: true, maxNumberOfSymbols: MAX_SYMBOLS });
+  return results
+    .filter(result => result.isValid)
+    .map(result => ({ rawValue: result.text, format: result.format.toLowerCase().replace('-', '_') }));
+}
+
+/**
+ * Retail barcodes in an image, validated and de-duplicated. Never throws:
+ * an image without a readable code (the usual case) returns [].
+ */
+export async function detectBarcodes(image: Blob): Promise<DetectedBarcode[]> {
+  let found: Array<{ rawValue: string; format: string }> = [];
+  try {
+    found = (await detectNative(image)) ?? await detectWasm(image);
+  } catch (err) {
+    console.warn('Barcode detection failed:', err);
+  }
+  const codes = new Map<string, DetectedBarcode>();
+  for (const { rawValue, format } of found) {
+    const code = classifyBarcode(rawValue, format);
+    if (code && !codes.has(code.value)) codes.set(code.value, code);
+  }
+  return Array.from(codes.values());
+}
@@ -0,0 +1,209 @@
+import { Blob as NodeBlob } from 'buffer';
+import { createHash } from 'crypto';
+import { BatchPipeline, PipelineDeps, PipelineEvent, PipelineImage } from './batchPipeline';
+import { AIResult } from './aiService';
+import { BatchRecord, getItem, initDB } from './db';
+import { PreprocessedImage } from './imagePreprocessCore';
+
+// Decoding needs a browser (canvas, Worker); every test injects its own preprocess
+jest.mock('./imagePreprocessor', () => ({ preprocessImage: jest.fn() }));
+
+// jsdom's Blob can't be read back; Node's can
+const photo = (content: string) => new NodeBlob([content]) as unknown as Blob;
+
+// Same content, same hash: the hash is the photo's text, so tests control
+// dedupe. Perceptual hashes are digests, so different photos never look alike.
+const preprocess = async (blob: Blob): Promise<PreprocessedImage> => {
+  const content = await blob.text();
+  const digest = createHash('sha256').update(content).digest('hex');
+  return {
+    aiImage: `ai:${content}`,
+    hash: content,
+    phash: digest.slice(0, 16),
+    dhash: digest.slice(16, 32),
+    thumbnail: 'data:image/jpeg;base64,',
+    width: 100,
+    height: 100,
+    orientation: 1
+  };
+};
+
+const answer = (aiImage: string): AIResult => ({
+  title: `Item ${aiImage}`,
+  type: 'postcard',
+  year: '1950',
+  notes: '',
+  confidence: '90%',
+  confidence_score: 90,
+  raw_metadata: { ai_provider: 'gemini' }
+});
+
+let runId = 0;
+
+// A pipeline with a mocked provider; `stages` records the order stages ran in
+function setup(identify: PipelineDeps['identify'] = async aiImage => answer(aiImage)) {
+  const stages: string[] = [];
+  const events: PipelineEvent[] = [];
+  const pipeline = new BatchPipeline({
+    preprocess: async blob => {
+      stages.push('preprocess');
+      return preprocess(blob);
+    },
+    identify: async (aiImage, extraImages, options) => {
+      stages.push('identify');
+      return identify(aiImage, extraImages, options);
+    },
+    readMetadata: async () => {
+      stages.push('metadata');
+      return {};
+    }
+  });
+  pipeline.subscribe(event => events.push(event));
+  // Hashes unique to this run, so earlier tests' inventory doesn't dedupe them
+  const prefix = `run${++runId}-`;
+  const images = (names: string[]): PipelineImage[] =>
+    names.map((name, index) => ({ id: index + 1, filename: `${name}.jpg`, file: photo(prefix + name) }));
+  const batch: BatchRecord = {
+    batch_id: `batch-${runId}`,
+    box_id: 'Box 1',
+    created_at: new Date().toISOString(),
+    total_images: 0,
+    processed: 0,
+    failed: 0,
+    status: 'processing'
+  };
+  return { pipeline, stages, events, images, batch };
+}
+
+const typesOf = (events: PipelineEvent[]) => events.map(event => event.type);
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  await initDB();
+});
+
+test('runs the stages in order and reports each item', async () => {
+  const { pipeline, stages, events, images, batch } = setup();
+
+  const summary = await pipeline.run(images(['a', 'b']), { batch });
+
+  expect(summary).toEqual({ processed: 2, failed: 0, cancelled: false });
+  expect(stages).toEqual(['preprocess', 'identify', 'metadata', 'preprocess', 'identify', 'metadata']);
+  expect(typesOf(events)).toEqual([
+    'item-started', 'item-identified', 'item-saved',
+    'item-started', 'item-identified', 'item-saved',
+    'batch-finished'
+  ]);
+  const saved = events.find(event => event.type === 'item-saved');
+  const item = saved?.type === 'item-saved' ? await getItem(saved.item.id!) : undefined;
+  expect(item?.title).toMatch(/^Item ai:run\d+-a$/);
+  expect(item?.raw_metadata?.system_info.captured_at).toBeDefined();
+  expect(events[events.length - 1]).toMatchObject({ type: 'batch-finished', cancelled: false, batch: { status: 'completed', processed: 2 } });
+});
+
+test('identifies a photo seen earlier in the run only once', async () => {
+  const { pipeline, stages, events, images } = setup();
+
+  await pipeline.run(images(['a', 'a']));
+
+  expect(stages.filter(stage => stage === 'identify')).toHaveLength(1);
+  expect(typesOf(events)).toContain('item-deduped');
+});
+
+test('a provider failure fails the item, not the batch', async () => {
+  jest.spyOn(console, 'error').mockImplementationOnce(() => {});
+  const { pipeline, events, images } = setup(async aiImage => {
+    if (aiImage.endsWith('bad')) throw new Error('Provider down');
+    return answer(aiImage);
+  });
+
+  const summary = await pipeline.run(images(['bad', 'good']));
+
+  expect(summary).toEqual({ processed: 1, failed: 1, cancelled: false });
+  const failed = events.find(event => event.type === 'item-failed');
+  expect(failed?.type === 'item-failed' && failed.error.message).toBe('Provider down');
+});
+
+test('stops at the next stage boundary once the signal aborts', async () => {
+  const controller = new AbortController();
+  const { pipeline, stages, events, images, batch } = setup(async aiImage => {
+    controller.abort(); // Mid-identify: this item stops before EXIF, later ones never start
+    return answer(aiImage);
+  });
+
+  const summary = await pipeline.run(images(['a', 'b', 'c']), { batch, signal: controller.signal });
+
+  expect(summary).toEqual({ processed: 0, failed: 0, cancelled: true });
+  expect(stages).toEqual(['preprocess', 'identify']);
+  expect(events[events.length - 1]).toMatchObject({ type: 'batch-finished', cancelled: true, batch: { status: 'cancelled' } });
+});
+
+test('pauses, skips a queued image and resumes', async () => {
+  let pipeline: BatchPipeline;
+  const { pipeline: created, stages, events, images, batch } = setup(async aiImage => {
+    if (aiImage.endsWith('a')) {
+      pipeline.pause();
+      expect(pipeline.skip(3)).toBe(true);
+      expect(pipeline.skip(1)).toBe(false); // Already started
+    }
+    return answer(aiImage);
+  });
+  pipeline = created;
+
+  const running = pipeline.run(images(['a', 'b', 'c']), { batch });
+  // Paused: the first item waits before EXIF and nothing else starts
+  await new Promise(resolve => setTimeout(resolve, 50));
+  expect(pipeline.isPaused).toBe(true);
+  expect(stages).toEqual(['preprocess', 'identify']);
+  expect(typesOf(events)).not.toContain('item-saved');
+
+  pipeline.resume();
+  const summary = await running;
+
+  expect(summary).toEqual({ processed: 2, failed: 0, cancelled: false });
+  expect(typesOf(events)).toEqual([
+    'item-started', 'batch-paused', 'item-skipped', 'item-identified', 'batch-resumed',
+    'item-saved', 'item-started', 'item-identified', 'item-saved',
+    'batch-finished'
+  ]);
+  const skipped = events.find(event => event.type === 'item-skipped');
+  expect(skipped?.type === 'item-skipped' && skipped.image.filename).toBe('c.jpg');
+});
+
+test('an over-budget check pauses the run until a raised budget resumes it', async () => {
+  const { images, batch } = setup();
+  const events: PipelineEvent[] = [];
+  let overBudget = true;
+  const pipeline = new BatchPipeline({
+    preprocess,
+    identify: async aiImage => answer(aiImage),
+    readMetadata: async () => ({}),
+    overBudget: async () => overBudget
+  });
+  pipeline.subscribe(event => events.push(event));
+
+  const running = pipeline.run(images(['a']), { batch });
+  await new Promise(resolve => setTimeout(resolve, 50));
+  expect(typesOf(events)).toEqual(['item-started', 'batch-paused', 'budget-exceeded']);
+
+  overBudget = false; // The budget was raised in Settings
+  pipeline.resume();
+  expect(await running).toEqual({ processed: 1, failed: 0, cancelled: false });
+});
+
+test('a catalog match is looked up before identifying and passed to the prompt', async () => {
+  const { images, batch } = setup();
+  const catalog = { code: '9780140449136', title: 'The Odyssey', year: '1946', type: 'book', source: 'reference.csv' };
+  const identify = jest.fn(async (aiImage: string) => answer(aiImage));
+  const pipeline = new BatchPipeline({
+    preprocess,
+    identify,
+    readMetadata: async () => ({}),
+    detectBarcodes: async () => [{ value: catalog.code, kind: 'isbn', format: 'ean_13' }],
+    lookupCatalog: async () => catalog
+  });
+
+  await pipeline.run(images(['a']), { batch });
+
+  expect(identify).toHaveBeenCalledWith(expect.any(String), [], expect.objectContaining({ catalog }));
+});
@@ -0,0 +1,590 @@
+/**
+ * Batch Processing Pipeline
+ * One engine for new batches, resumed batches and single-item retries:
+ *
+ *   read → preprocess (AI image + hashes + thumbnail) → dedupe → barcodes → identify → EXIF → save
+ *
+ * An image may carry extra photos of the same item (back, detail, label):
+ * they are read and AI-sized alongside the front and sent in the same
+ * identify call, while dedupe and the thumbnail use the front only.
+ *
+ * Dedupe is exact on the average hash, and only merges silently into an
+ * entry the user has confirmed before; other exact matches reuse the entry's
+ * metadata and are queued for review (see duplicateReview.ts). Images that
+ * only look similar (pHash/dHash) are identified and saved as usual, carry
+ * their possible matches in raw_metadata.possible_matches, and are queued too.
+ * Items saved from a fallback answer go to the re-identify queue
+ * (reidentifyQueue.ts).
+ *
+ * The UI subscribes to the event stream instead of being called from inside
+ * the loop, and steers a running batch with pause / resume / skip /
+ * moveToFront (cancellation goes through the run's AbortSignal). Batch status
+ * changes are persisted so an interrupted batch resumes where it stopped.
+ *
+ * Everything that needs a browser (image decoding) or a network (AI
+ * providers, server queue, cloud sync) is injected, so the engine runs in
+ * Node against fake-indexeddb with a mocked provider.
+ */
+import { AIImageInput, AIResult } from './aiService';
+import { DetectedBarcode } from './barcodeService';
+import { CategorySelection } from './categoryTemplates';
+import type { RoutingPolicyId } from './routingPolicy';
+import { CatalogMatch, applyCatalogMatch } from './catalogLookup';
+import {
+  saveBatch,
+  saveItem,
+  updateItem,
+  findByImageHash,
+  addToInventory,
+  updateInventoryItem,
+  BatchRecord,
+  InventoryItem,
+  ItemRecord
+} from './db';
+import { getCaptureDecisions, queueDuplicateReview, separateInventoryHash } from './duplicateReview';
+import { parseEra } from './era';
+import { DEFAULT_REVIEW_THRESHOLD, needsReview } from './fieldConfidence';
+import { PreprocessedImage, base64ToBlob, bytesToBase64 } from './imagePreprocessCore';
+import { preprocessImage } from './imagePreprocessor';
+import { ItemPhoto } from './itemPhotos';
+import { extractFromBuffer, PhotoMetadata } from './metadataService';
+import { NearDuplicateCandidate, NearDuplicateIndex } from './nearDuplicateIndex';
+import { trackIdentification } from './reidentifyQueue';
+import { drainQueue } from './workerPool';
+
+/**
+ * One image to run through the pipeline
+ */
+export interface PipelineImage {
+  id: number; // Caller's queue id (echoed back in every event)
+  filename: string;
+  file?: Blob; // Fresh upload (front photo)
+  extraPhotos?: ItemPhoto[]; // Fresh upload: further shots of the same item
+  record?: ItemRecord; // Stored item to update in place (fresh upload / resume / retry)
+  resumed?: boolean; // Picked up from an interrupted batch (stamped resumed_at, not captured_at)
+}
+
+export type PipelineEvent =
+  | { type: 'item-started'; image: PipelineImage }
+  | { type: 'item-deduped'; image: PipelineImage; existing: InventoryItem; confirmed: boolean }
+  | { type: 'item-possible-match'; image: PipelineImage; candidates: NearDuplicateCandidate[] }
+  | { type: 'item-identified'; image: PipelineImage; result: AIResult; source: 'server' | 'local' }
+  | { type: 'item-failed'; image: PipelineImage; error: Error }
+  | { type: 'item-skipped'; image: PipelineImage }
+  | { type: 'item-saved'; image: PipelineImage; item: ItemRecord }
+  | { type: 'batch-paused'; batch?: BatchRecord }
+  | { type: 'batch-resumed'; batch?: BatchRecord }
+  | { type: 'budget-exceeded'; batch?: BatchRecord }
+  | { type: 'batch-finished'; batch?: BatchRecord; cancelled: boolean };
+
+export type PipelineListener = (event: PipelineEvent) => void;
+
+// Per-batch choices passed through to identify
+export interface IdentifyOptions {
+  category?: CategorySelection;
+  consensus?: number; // Providers to ask and compare; 0 = first that answers
+  routing?: RoutingPolicyId; // Provider order per item (routingPolicy.ts)
+  batch_id?: string; // Where the AI calls are charged in the usage ledger
+  box_id?: string;
+  catalog?: CatalogMatch | null; // Record for the item's barcode, for the prompt
+  signal?: AbortSignal; // The run's; cancelling it stops the provider requests in flight
+}
+
+export interface PipelineDeps {
+  // Both identify hooks receive the preprocessed, AI-sized JPEG (base64)
+  identify: (aiImage: string, extraImages?: AIImageInput[], options?: IdentifyOptions) => Promise<AIResult>;
+  // Optional server-side identification; null means "not available, use identify"
+  identifyOnServer?: (aiImage: string, image: PipelineImage, batch?: BatchRecord) => Promise<AIResult | null>;
+  // Optional barcode stage: codes on any of the item's photos, then a
+  // catalog lookup whose match goes into the prompt and takes precedence
+  // over the model's answer
+  detectBarcodes?: (image: Blob) => Promise<DetectedBarcode[]>;
+  lookupCatalog?: (codes: DetectedBarcode[]) => Promise<CatalogMatch | null>;
+  preprocess?: (image: Blob) => Promise<PreprocessedImage>;
+  // Answers with an overall or field confidence under this are saved as
+  // needs review (0 turns it off)
+  reviewThreshold?: number;
+  // Checked before each identification; true pauses the run (budget-exceeded)
+  // until it is resumed
+  overBudget?: () => Promise<boolean>;
+  readMetadata?: (buffer: ArrayBuffer) => Promise<PhotoMetadata>;
+  sync?: {
+    batch?: (batch: BatchRecord) => void;
+    item?: (item: ItemRecord) => void;
+    inventory?: (item: Omit<InventoryItem, 'id'>) => void;
+  };
+}
+
+export interface PipelineRunOptions {
+  batch?: BatchRecord; // Progress is saved to this batch; omitted for one-off retries
+  concurrency?: number;
+  signal?: AbortSignal;
+  skipDedupe?: boolean; // Retry: re-identify even when the hash is already in inventory
+}
+
+export interface PipelineSummary {
+  processed: number;
+  failed: number;
+  cancelled: boolean;
+}
+
+// Thrown at stage boundaries once the run's AbortSignal fires
+export class PipelineCancelledError extends Error {
+  constructor() {
+    super('Batch cancelled');
+    this.name = 'PipelineCancelledError';
+    Object.setPrototypeOf(this, PipelineCancelledError.prototype); // Keep instanceof working under an ES5 target
+  }
+}
+
+// State of the run in progress (one run per pipeline at a time)
+interface ActiveRun {
+  batch?: BatchRecord;
+  queue: PipelineImage[]; // Not yet started; workers take from the front
+  processed: number;
+  failed: number;
+  sync: NonNullable<PipelineDeps['sync']>;
+}
+
+// Original bytes (stored + EXIF source) alongside their base64 form
+async function readImage(blob: Blob): Promise<{ blob: Blob; base64: string; buffer: ArrayBuffer }> {
+  const buffer = await blob.arrayBuffer();
+  return { blob, base64: bytesToBase64(new Uint8Array(buffer)), buffer };
+}
+
+export class BatchPipeline {
+  private listeners = new Set<PipelineListener>();
+  private paused = false;
+  private resumeWaiters: Array<() => void> = [];
+  private active: ActiveRun | null = null;
+
+  constructor(private deps: PipelineDeps) {}
+
+  /**
+   * Subscribe to pipeline events. Returns an unsubscribe function.
+   */
+  subscribe(listener: PipelineListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // In-flight items finish their current stage, then wait before the next one
+  pause() {
+    if (this.paused) return;
+    this.paused = true;
+    this.saveProgress(this.active);
+    this.emit({ type: 'batch-paused', batch: this.active?.batch });
+  }
+
+  resume() {
+    if (!this.paused) return;
+    this.paused = false;
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(wake => wake());
+    this.saveProgress(this.active);
+    this.emit({ type: 'batch-resumed', batch: this.active?.batch });
+  }
+
+  /**
+   * Drop a queued image from this run. The stored record (if any) is marked
+   * 'skipped' so resuming the batch won't pick it up again.
+   * Returns false when the image has already started.
+   */
+  skip(imageId: number): boolean {
+    const queue = this.active?.queue;
+    const index = queue ? queue.findIndex(image => image.id === imageId) : -1;
+    if (!queue || index === -1) return false;
+    const [image] = queue.splice(index, 1);
+    if (image.record?.id) {
+      updateItem(image.record.id, { status: 'skipped' }).catch(err => console.error('Failed to mark item skipped:', err));
+    }
+    this.emit({ type: 'item-skipped', image });
+    return true;
+  }
+
+  /**
+   * Make a queued image the next one a worker picks up.
+   * Returns false when the image has already started.
+   */
+  moveToFront(imageId: number): boolean {
+    const queue = this.active?.queue;
+    const index = queue ? queue.findIndex(image => image.id === imageId) : -1;
+    if (!queue || index === -1) return false;
+    const [image] = queue.splice(index, 1);
+    queue.unshift(image);
+    return true;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Persist counters; status follows pause state unless the run is ending
+  private async saveProgress(run: ActiveRun | null, finalStatus?: BatchRecord['status']) {
+    if (!run?.batch) return;
+    const update: BatchRecord = {
+      ...run.batch,
+      processed: run.processed,
+      failed: run.failed,
+      status: finalStatus || (this.paused ? 'paused' : 'processing')
+    };
+    try {
+      await saveBatch(update);
+      run.sync.batch?.(update);
+    } catch (err) {
+      console.error('Failed to save batch progress:', err);
+    }
+  }
+
+  private emit(event: PipelineEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (err) {
+        console.error('Pipeline listener failed:', err);
+      }
+    });
+  }
+
+  // A failed queue write shouldn't fail an item that is already saved
+  private async queueReviews(imageHash: string, itemId: number | undefined, exactMatch: InventoryItem | null, nearMatches: NearDuplicateCandidate[], captureInventoryId?: number) {
+    try {
+      if (exactMatch?.id) {
+        await queueDuplicateReview({ image_hash: imageHash, inventory_id: exactMatch.id, item_id: itemId, match_type: 'exact', score: 1 });
+      }
+      for (const match of nearMatches) {
+        await queueDuplicateReview({
+          image_hash: imageHash,
+          inventory_id: match.inventory_id,
+          item_id: itemId,
+          capture_inventory_id: captureInventoryId,
+          match_type: 'near',
+          score: match.score
+        });
+      }
+    } catch (err) {
+      console.error('Failed to queue duplicate review:', err);
+    }
+  }
+
+  // Codes across all of an item's photos, first photo first; a failing
+  // decoder only loses the barcode stage
+  private async readBarcodes(images: Blob[]): Promise<DetectedBarcode[]> {
+    const detect = this.deps.detectBarcodes;
+    if (!detect) return [];
+    const codes = new Map<string, DetectedBarcode>();
+    for (const image of images) {
+      try {
+        for (const code of await detect(image)) {
+          if (!codes.has(code.value)) codes.set(code.value, code);
+        }
+      } catch (err) {
+        console.warn('Barcode detection failed:', err);
+      }
+    }
+    return Array.from(codes.values());
+  }
+
+  // Fallback answers wait in the re-identify queue; like queueReviews, a
+  // failed write doesn't fail the saved item
+  private async trackFallback(item: ItemRecord) {
+    try {
+      await trackIdentification(item);
+    } catch (err) {
+      console.error('Failed to update re-identify queue:', err);
+    }
+  }
+
+  // Pause the run when the monthly AI budget is spent; a failed check lets the item through
+  private async checkBudget() {
+    if (!this.deps.overBudget || this.paused) return;
+    let exceeded = false;
+    try {
+      exceeded = await this.deps.overBudget();
+    } catch (err) {
+      console.warn('Budget check failed:', err);
+    }
+    if (!exceeded || this.paused) return;
+    this.pause();
+    this.emit({ type: 'budget-exceeded', batch: this.active?.batch });
+  }
+
+  // Stage boundary: throw if cancelled, block while paused
+  private async checkpoint(signal?: AbortSignal) {
+    if (signal?.aborted) throw new PipelineCancelledError();
+    if (!this.paused) return;
+    await new Promise<void>(resolve => {
+      this.resumeWaiters.push(resolve);
+      signal?.addEventListener('abort', () => resolve(), { once: true });
+    });
+    if (signal?.aborted) throw new PipelineCancelledError();
+  }
+
+  /**
+   * Run images through every stage. Resolves once all images have finished,
+   * failed, or been skipped by cancellation.
+   */
+  async run(images: PipelineImage[], options: PipelineRunOptions = {}): Promise<PipelineSummary> {
+    if (this.active) throw new Error('Pipeline is already running');
+    const { batch, signal, skipDedupe = false } = options;
+    const preprocess = this.deps.preprocess || preprocessImage;
+    const readMetadata = this.deps.readMetadata || extractFromBuffer;
+    const sync = this.deps.sync || {};
+    const run: ActiveRun = {
+      batch,
+      queue: [...images],
+      processed: batch?.processed || 0,
+      failed: batch?.failed || 0,
+      sync
+    };
+    this.active = run;
+
+    // Hash -> inventory record (or the in-flight lookup producing it), so
+    // identical photos running in parallel are only identified once
+    const hashesInRun = new Map<string, Promise<InventoryItem | null>>();
+    let serverAvailable = !!this.deps.identifyOnServer;
+    // Loaded on first use; a failed load only disables near-duplicate hints
+    let nearDuplicates: Promise<NearDuplicateIndex | null> | null = null;
+    const getNearDuplicates = () => nearDuplicates || (nearDuplicates = NearDuplicateIndex.load().catch(err => {
+      console.warn('Near-duplicate index unavailable:', err);
+      return null;
+    }));
+
+    const identify = async (aiImage: string, image: PipelineImage, extraImages: AIImageInput[], catalog: CatalogMatch | null): Promise<AIResult> => {
+      // The server queue takes one image per item, so multi-photo items stay local
+      if (serverAvailable && this.deps.identifyOnServer && extraImages.length === 0) {
+        try {
+          const serverResult = await this.deps.identifyOnServer(aiImage, image, batch);
+          if (serverResult) {
+            this.emit({ type: 'item-identified', image, result: serverResult, source: 'server' });
+            return serverResult;
+          }
+        } catch (err) {
+          console.warn('Server processing failed, falling back to local:', err);
+        }
+        serverAvailable = false; // If server fails once, skip for rest of run
+      }
+      // The batch's category choice; re-identifying keeps the item's own
+      const result = await this.deps.identify(aiImage, extraImages, {
+        category: batch?.category || image.record?.category,
+        consensus: batch?.consensus,
+        routing: batch?.routing_policy,
+        batch_id: batch?.batch_id || image.record?.batch_id,
+        box_id: batch?.box_id || image.record?.box_id,
+        catalog,
+        signal
+      });
+      this.emit({ type: 'item-identified', image, result, source: 'local' });
+      return result;
+    };
+
+    const processImage = async (image: PipelineImage) => {
+      let resolveHash: (record: InventoryItem | null) => void = () => {};
+      try {
+        await this.checkpoint(signal);
+        this.emit({ type: 'item-started', image });
+
+        // 1. Read
+        const stored = image.record?.image_data;
+        const source = image.file || (typeof stored === 'string' ? base64ToBlob(stored) : stored);
+        if (!source) throw new Error('No image data');
+        const { blob, base64, buffer } = await readImage(source);
+        const extras = await Promise.all((image.extraPhotos || image.record?.extra_photos || []).map(async photo => {
+          const data = photo.image_data;
+          return { ...photo, ...await readImage(typeof data === 'string' ? base64ToBlob(data) : data) };
+        }));
+
+        // 2. Preprocess: one decode for the AI image, hashes and thumbnail
+        const { aiImage, hash: imageHash, phash, dhash, thumbnail } = await preprocess(blob);
+        const extraImages: AIImageInput[] = await Promise.all(extras.map(async extra => ({
+          base64: (await preprocess(extra.blob)).aiImage,
+          role: extra.role
+        })));
+
+        // 3. Dedupe (against inventory and earlier images in this run)
+        const pendingInRun = hashesInRun.get(imageHash);
+        if (!pendingInRun) {
+          hashesInRun.set(imageHash, new Promise(resolve => { resolveHash = resolve; }));
+        }
+        const dbExisting = await findByImageHash(imageHash);
+        const runExisting = pendingInRun ? await pendingInRun : null;
+        const decisions = await getCaptureDecisions(imageHash);
+        const candidate = runExisting || dbExisting;
+        const separated = !!candidate?.id && decisions.separated.has(candidate.id);
+        const existing = skipDedupe ? null : (decisions.confirmed || (separated ? null : candidate));
+        const confirmed = !!existing && existing === decisions.confirmed;
+        await this.checkpoint(signal);
+
+        let aiData: AIResult;
+        let possibleMatches: NearDuplicateCandidate[] = [];
+        let barcodes: DetectedBarcode[] = [];
+        if (existing) {
+          console.log(`Duplicate detected: ${existing.title}${confirmed ? '' : ' (queued for review)'}`);
+          this.emit({ type: 'item-deduped', image, existing, confirmed });
+          aiData = {
+            title: existing.title,
+            type: existing.type,
+            year: existing.year,
+            notes: `[Duplicate] ${existing.notes || ''}`,
+            confidence: existing.confidence,
+            condition_estimate: existing.condition_estimate || '',
+            raw_metadata: existing.raw_metadata || {}
+          };
+          // Scans only count once the user has agreed it's the same item
+          if (confirmed && existing.id && !runExisting) {
+            await updateInventoryItem(existing.id, {
+              last_seen: new Date().toISOString(),
+              times_scanned: (existing.times_scanned || 1) + 1
+            });
+          }
+          resolveHash(existing);
+        } else {
+          // Not an exact duplicate, but it may be the same item photographed again
+          const index = await getNearDuplicates();
+          possibleMatches = (index ? index.find({ phash, dhash }, { excludeId: dbExisting?.id }) : [])
+            .filter(match => !decisions.separated.has(match.inventory_id));
+          if (possibleMatches.length > 0) {
+            this.emit({ type: 'item-possible-match', image, candidates: possibleMatches });
+          }
+
+          // 4. Barcodes (full-resolution originals read better than the AI image)
+          barcodes = await this.readBarcodes([blob, ...extras.map(extra => extra.blob)]);
+          const catalogMatch = barcodes.length > 0 && this.deps.lookupCatalog ? await this.deps.lookupCatalog(barcodes) : null;
+          await this.checkpoint(signal);
+
+          // 5. Identify (this month's AI budget permitting)
+          await this.checkBudget();
+          await this.checkpoint(signal);
+          aiData = await identify(aiImage, image, extraImages, catalogMatch);
+          if (catalogMatch) aiData = applyCatalogMatch(aiData, catalogMatch);
+        }
+        await this.checkpoint(signal);
+
+        // 6. Enrich (EXIF)
+        const photoMeta = await readMetadata(buffer);
+        const now = new Date().toISOString();
+        const systemInfo = {
+          original_filename: image.filename,
+          batch_id: batch?.batch_id || image.record?.batch_id,
+          ...(image.file ? { file_size: image.file.size } : {}),
+          ...(typeof File !== 'undefined' && image.file instanceof File ? { last_modified: new Date(image.file.lastModified).toISOString() } : {}),
+          ...(image.resumed ? { resumed_at: now } : image.file ? { captured_at: now } : { reidentified_at: now })
+        };
+        const rawMetadata = {
+          ...(aiData.raw_metadata || {}), // Defensive spread
+          photo_metadata: photoMeta,
+          system_info: systemInfo,
+          ...(possibleMatches.length > 0 ? { possible_matches: possibleMatches } : {})
+        };
+        const boxId = batch?.box_id || image.record?.box_id || 'Uncategorized';
+
+        // 7. Save
+        let inventoryId: number | undefined;
+        if (!existing) {
+          // A capture kept separate from an entry with the same hash needs its own key
+          const replacesExisting = skipDedupe && !!dbExisting?.id;
+          const inventoryData = {
+            image_hash: dbExisting && !replacesExisting ? separateInventoryHash(imageHash, Date.now()) : imageHash,
+            phash,
+            dhash,
+            title: aiData.title,
+            type: aiData.type,
+            year: aiData.year || '',
+            notes: aiData.notes || '',
+            confidence: aiData.confidence,
+            first_seen: (replacesExisting && dbExisting!.first_seen) || now,
+            last_seen: now,
+            times_scanned: (replacesExisting && dbExisting!.times_scanned) || 1,
+            thumbnail: thumbnail,
+            box_id: boxId,
+            condition_estimate: aiData.condition_estimate || '',
+            raw_metadata: rawMetadata
+          };
+          // Re-identifying a known hash updates that entry rather than adding a twin
+          if (replacesExisting) {
+            inventoryId = dbExisting!.id;
+            await updateInventoryItem(inventoryId!, inventoryData);
+          } else {
+            inventoryId = await addToInventory(inventoryData);
+            // Later images in this run can then match against it
+            (await getNearDuplicates())?.add(inventoryId, inventoryData.title, { phash, dhash });
+          }
+          resolveHash({ ...inventoryData, id: inventoryId });
+          sync.inventory?.(inventoryData);
+        }
+
+        const itemFields = {
+          batch_id: batch?.batch_id || image.record?.batch_id || '',
+          filename: image.filename,
+          box_id: boxId,
+          title: aiData.title,
+          type: aiData.type,
+          year: aiData.year || '',
+          era: parseEra(aiData.year) || undefined,
+          notes: aiData.notes || '',
+          confidence: aiData.confidence,
+          processed_at: now,
+          image_data: base64,
+          ...(extras.length > 0 ? {
+            extra_photos: extras.map(({ role, filename, base64: data }) => ({ role, filename, image_data: data }))
+          } : {}),
+          ...(barcodes.length > 0 ? { barcodes } : {}),
+          ...(aiData.category ? { category: aiData.category } : {}),
+          ...(aiData.attributes ? { attributes: aiData.attributes } : {}),
+          ...(aiData.prompt_version !== undefined ? { prompt_version: aiData.prompt_version } : {}),
+          ...(aiData.prompt_id ? { prompt_id: aiData.prompt_id } : {}),
+          ...(aiData.raw_metadata?.ai_model ? { ai_model: aiData.raw_metadata.ai_model } : {}),
+          field_confidence: aiData.field_confidence,
+          review_status: needsReview(aiData, this.deps.reviewThreshold ?? DEFAULT_REVIEW_THRESHOLD) ? 'needs_review' as const : undefined,
+          status: 'completed' as const,
+          image_hash: imageHash,
+          condition_estimate: aiData.condition_estimate || '',
+          raw_metadata: rawMetadata
+        };
+        let savedItem: ItemRecord;
+        if (image.record?.id) {
+          savedItem = { ...image.record, ...itemFields };
+          await updateItem(image.record.id, itemFields);
+        } else {
+          const id = await saveItem(itemFields);
+          savedItem = { ...itemFields, id };
+        }
+        sync.item?.(savedItem);
+        await this.queueReviews(imageHash, savedItem.id, existing && !confirmed ? existing : null, possibleMatches, inventoryId);
+        await this.trackFallback(savedItem);
+
+        run.processed++;
+        await this.saveProgress(run);
+        this.emit({ type: 'item-saved', image, item: savedItem });
+      } catch (err: any) {
+        resolveHash(null); // Let waiting duplicates fall back to their own lookup
+        // Stays pending for resume (a cancelled provider request throws too)
+        if (err instanceof PipelineCancelledError || signal?.aborted) return;
+        console.error(`Pipeline item error [${image.filename}]:`, err);
+        run.failed++;
+        if (image.record?.id) await updateItem(image.record.id, { status: 'failed' }).catch(() => {});
+        await this.saveProgress(run);
+        this.emit({ type: 'item-failed', image, error: err instanceof Error ? err : new Error(String(err)) });
+      }
+    };
+
+    try {
+      await drainQueue(run.queue, options.concurrency || 1, processImage);
+    } finally {
+      this.active = null;
+      this.paused = false;
+    }
+
+    // Cancelled items stay 'pending', so a cancelled batch can still be resumed
+    const cancelled = !!signal?.aborted;
+    const finalStatus = cancelled ? 'cancelled' : 'completed';
+    await this.saveProgress(run, finalStatus);
+    this.emit({
+      type: 'batch-finished',
+      batch: batch && { ...batch, processed: run.processed, failed: run.failed, status: finalStatus },
+      cancelled
+    });
+    return { processed: run.processed, failed: run.failed, cancelled };
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Catalog lookup by barcode
+ * Adapters turn a detected ISBN/UPC/EAN into a catalog record. A match goes
+ * into the identification prompt (catalogPrompt) and pre-fills title,
+ * publisher and year with high confidence; the LLM answer still supplies
+ * notes and condition (see applyCatalogMatch).
+ *
+ * - openlibrary: Open Library's ISBN API (books only, needs a network)
+ * - reference:   a JSON or CSV file the user loads in Settings, for offline
+ *                use and testing
+ */
+import { AIResult } from './aiService';
+import { DetectedBarcode, classifyBarcode } from './barcodeService';
+import { fetchWithTimeout } from './network';
+
+export type CatalogLookupId = 'openlibrary' | 'reference';
+
+// Settings choice: no barcode stage, detect and store codes only, or detect
+// and look them up
+export type BarcodeLookupMode = 'off' | 'detect' | CatalogLookupId;
+
+export interface ReferenceFile {
+  filename: string;
+  content: string;
+}
+
+export interface CatalogMatch {
+  code: string;
+  title: string;
+  year?: string;
+  publisher?: string;
+  authors?: string[];
+  type?: string;
+  source: string; // Adapter label, shown with the item
+  url?: string;
+}
+
+export interface CatalogLookupAdapter {
+  id: CatalogLookupId;
+  label: string;
+  lookup: (code: DetectedBarcode) => Promise<CatalogMatch | null>;
+}
+
+// Catalog matches are exact, so they outrank any visual identification
+const CATALOG_CONFIDENCE = 95;
+
+// ========== OPEN LIBRARY ==========
+const OPEN_LIBRARY_URL = 'https://openlibrary.org/api/books';
+
+export const openLibraryAdapter: CatalogLookupAdapter = {
+  id: 'openlibrary',
+  label: 'Open Library',
+  lookup: async (code) => {
+    if (code.kind !== 'isbn') return null;
+    const key = `ISBN:${code.value}`;
+    const response = await fetchWithTimeout(`${OPEN_LIBRARY_URL}?bibkeys=${key}&format=json&jscmd=data`, {}, 8000);
+    if (!response.ok) throw new Error(`Open Library error: ${response.status}`);
+    const book = (await response.json())[key];
+    if (!book?.title) return null;
+    return {
+      code: code.value,
+      title: book.subtitle ? `${book.title}: ${book.subtitle}` : book.title,
+      year: book.publish_date?.match(/\d{4}/)?.[0],
+      publisher: book.publishers?.[0]?.name,
+      authors: book.authors?.map((author: { name: string }) => author.name),
+      type: 'book',
+      source: 'Open Library',
+      url: book.url
+    };
+  }
+};
+
+// ========== REFERENCE FILE ==========
+// Column / property names accepted for each field (case-insensitive)
+const CODE_FIELDS = ['code', 'barcode', 'isbn', 'upc', 'ean'];
+const FIELD_ALIASES: Record<keyof Omit<CatalogMatch, 'code' | 'source' | 'authors'>, string[]> = {
+  title: ['title', 'name'],
+  year: ['year', 'date', 'publish_date'],
+  publisher: ['publisher', 'label', 'manufacturer', 'brand'],
+  type: ['type', 'category'],
+  url: ['url', 'link']
+};
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF
+function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+function parseReferenceRecords(content: string, filename: string): Record<string, any>[] {
+  if (/\.json$/i.test(filename) || /^\s*[[{]/.test(content)) {
+    const data = JSON.parse(content);
+    if (Array.isArray(data)) return data;
+    // { "<code>": { title, ... } }
+    return Object.entries(data).map(([code, record]) => ({ code, ...(record as object) }));
+  }
+  const [header, ...rows] = parseCSV(content);
+  if (!header) return [];
+  const columns = header.map(name => name.trim().toLowerCase());
+  return rows.map(cells => Object.fromEntries(columns.map((column, i) => [column, (cells[i] || '').trim()])));
+}
+
+function pickField(record: Record<string, any>, names: string[]): string | undefined {
+  const key = Object.keys(record).find(k => names.includes(k.toLowerCase()));
+  const value = key ? record[key] : undefined;
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+/**
+ * Adapter over a user-supplied reference file (JSON array or object keyed by
+ * code, or CSV with a header row). Codes are normalised the same way as
+ * scanned ones, so ISBN-10s in the file match scanned ISBN-13s.
+ */
+export function createReferenceAdapter(content: string, filename = 'reference.csv'): CatalogLookupAdapter {
+  const entries = new Map<string, CatalogMatch>();
+  for (const record of parseReferenceRecords(content, filename)) {
+    const rawCode = pickField(record, CODE_FIELDS);
+    const title = pickField(record, FIELD_ALIASES.title);
+    if (!rawCode || !title) continue;
+    const code = classifyBarcode(rawCode)?.value || rawCode.replace(/[\s-]/g, '');
+    entries.set(code, {
+      code,
+      title,
+      year: pickField(record, FIELD_ALIASES.year),
+      publisher: pickField(record, FIELD_ALIASES.publisher),
+      type: pickField(record, FIELD_ALIASES.type),
+      url: pickField(record, FIELD_ALIASES.url),
+      source: filename
+    });
+  }
+  return {
+    id: 'reference',
+    label: `${filename} (${entries.size} codes)`,
+    lookup: async (code) => entries.get(code.value) || null
+  };
+}
+
+/**
+ * The adapter for a Settings choice; null when codes aren't looked up
+ */
+export function catalogAdapterFor(mode: BarcodeLookupMode, reference?: ReferenceFile | null): CatalogLookupAdapter | null {
+  if (mode === 'openlibrary') return openLibraryAdapter;
+  if (mode === 'reference' && reference) return createReferenceAdapter(reference.content, reference.filename);
+  return null;
+}
+
+/**
+ * First catalog record for any of the codes. A failing adapter (offline,
+ * rate-limited) counts as no match.
+ */
+export async function lookupCatalog(codes: DetectedBarcode[], adapter: CatalogLookupAdapter): Promise<CatalogMatch | null> {
+  for (const code of codes) {
+    try {
+      const match = await adapter.lookup(code);
+      if (match) return match;
+    } catch (err) {
+      console.warn(`${adapter.label} lookup failed for ${code.value}:`, err);
+    }
+  }
+  return null;
+}
+
+/**
+ * Prompt addition giving the model the catalog record, so its notes and
+ * condition describe the right edition
+ */
+export function catalogPrompt(match: CatalogMatch | null | undefined): string {
+  if (!match) return '';
+  const details = [
+    `Title: ${match.title}`,
+    match.authors?.length ? `Authors: ${match.authors.join(', ')}` : '',
+    match.publisher ? `Publisher: ${match.publisher}` : '',
+    match.year ? `Year: ${match.year}` : '',
+    match.type ? `Type: ${match.type}` : ''
+  ].filter(Boolean);
+  return `
+The item's barcode ${match.code} matches this ${match.source} catalog record. Use it for the title, type and year, and describe this edition:
+${details.join('\n')}`;
+}
+
+/**
+ * Catalog fields take precedence over the model's reading of the photo; the
+ * model's notes and condition are kept.
+ */
+export function applyCatalogMatch(result: AIResult, match: CatalogMatch): AIResult {
+  const confidence = Math.max(result.confidence_score ?? (parseInt(result.confidence, 10) || 0), CATALOG_CONFIDENCE);
+  const byline = [match.authors?.join(', '), match.publisher].filter(Boolean).join(' · ');
+  return {
+    ...result,
+    title: match.title,
+    type: match.type || result.type,
+    year: match.year || result.year,
+    notes: byline && !result.notes?.includes(byline) ? `${byline}. ${result.notes || ''}`.trim() : result.notes,
+    confidence: `${confidence}%`,
+    confidence_score: confidence,
+    raw_metadata: {
+      ...(result.raw_metadata || {}),
+      ...(match.publisher ? { publisher: match.publisher } : {}),
+      catalog_match: match
+    }
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * Category prompt templates
+ * Every item gets the base fields (title, type, year, ...); a category adds
+ * the fields collectors of that kind care about (a comic's issue number, a
+ * record's catalog number), asked for in the prompt and stored as typed
+ * `attributes` on the item.
+ *
+ * The category is picked per batch, or 'auto': a short classification call
+ * picks it before the full identification.
+ */
+
+export type CategoryId = 'comic' | 'record' | 'card' | 'postcard' | 'photo' | 'book';
+
+// Per-batch choice; 'general' uses the base prompt only
+export type CategorySelection = 'auto' | 'general' | CategoryId;
+
+export type AttributeType = 'text' | 'number' | 'boolean' | 'select';
+
+export interface AttributeField {
+  key: string; // Property name in `attributes` (and in the model's JSON)
+  label: string;
+  type: AttributeType;
+  hint: string; // What the model should put there
+  options?: string[]; // 'select' only
+}
+
+export interface CategoryTemplate {
+  id: CategoryId;
+  label: string;
+  description: string; // Used in the prompt and the classification call
+  fields: AttributeField[];
+}
+
+export type AttributeValue = string | number | boolean;
+export type ItemAttributes = Record<string, AttributeValue>;
+
+const GRADES = ['Mint', 'Near Mint', 'Very Fine', 'Fine', 'Very Good', 'Good', 'Fair', 'Poor'];
+
+export const CATEGORY_TEMPLATES: Record<CategoryId, CategoryTemplate> = {
+  comic: {
+    id: 'comic',
+    label: 'Comics',
+    description: 'comic book or comic magazine',
+    fields: [
+      { key: 'publisher', label: 'Publisher', type: 'text', hint: 'e.g. "Marvel", "DC", "Dell"' },
+      { key: 'series', label: 'Series', type: 'text', hint: 'series title as printed on the cover' },
+      { key: 'issue_number', label: 'Issue #', type: 'number', hint: 'issue number from the cover' },
+      { key: 'cover_price', label: 'Cover price', type: 'text', hint: 'e.g. "12¢"' },
+      { key: 'grade', label: 'Grade', type: 'select', options: GRADES, hint: 'visible condition grade' }
+    ]
+  },
+  record: {
+    id: 'record',
+    label: 'Records',
+    description: 'vinyl record, 78 or its sleeve',
+    fields: [
+      { key: 'artist', label: 'Artist', type: 'text', hint: 'performer or band' },
+      { key: 'label', label: 'Label', type: 'text', hint: 'record label, e.g. "Columbia"' },
+      { key: 'catalog_number', label: 'Catalog #', type: 'text', hint: 'catalog number on the label or spine' },
+      { key: 'format', label: 'Format', type: 'select', options: ['LP', 'EP', '45', '78', 'Other'], hint: 'size/speed' },
+      { key: 'pressing', label: 'Pressing', type: 'text', hint: 'country, original vs. reissue, if visible' }
+    ]
+  },
+  card: {
+    id: 'card',
+    label: 'Trading cards',
+    description: 'trading card (sports, game or non-sports)',
+    fields: [
+      { key: 'set', label: 'Set', type: 'text', hint: 'set or series name with year, e.g. "1952 Topps"' },
+      { key: 'player', label: 'Player / subject', type: 'text', hint: 'person or character on the card' },
+      { key: 'card_number', label: 'Card #', type: 'text', hint: 'number printed on the card' },
+      { key: 'manufacturer', label: 'Manufacturer', type: 'text', hint: 'e.g. "Topps", "Bowman"' },
+      { key: 'rookie_card', label: 'Rookie card', type: 'boolean', hint: 'true if marked or known as a rookie card' }
+    ]
+  },
+  postcard: {
+    id: 'postcard',
+    label: 'Postcards',
+    description: 'postcard (picture side and/or address side)',
+    fields: [
+      { key: 'publisher', label: 'Publisher', type: 'text', hint: 'e.g. "Curt Teich", "Raphael Tuck"' },
+      { key: 'location', label: 'Location shown', type: 'text', hint: 'place pictured' },
+      { key: 'postmark', label: 'Postmark', type: 'text', hint: 'postmark town and date, if posted' },
+      { key: 'stamp', label: 'Stamp', type: 'text', hint: 'stamp denomination/design, if any' },
+      { key: 'postcard_era', label: 'Postcard era', type: 'select', options: ['Undivided back', 'Divided back', 'White border', 'Linen', 'Chrome'], hint: 'postcard era from the card style' }
+    ]
+  },
+  photo: {
+    id: 'photo',
+    label: 'Photographs',
+    description: 'photograph, snapshot or cabinet card',
+    fields: [
+      { key: 'process', label: 'Process', type: 'text', hint: 'e.g. "gelatin silver", "tintype", "albumen"' },
+      { key: 'studio', label: 'Studio', type: 'text', hint: 'photographer or studio imprint' },
+      { key: 'subject', label: 'Subject', type: 'text', hint: 'people, place or event pictured' },
+      { key: 'inscription', label: 'Inscription', type: 'text', hint: 'handwriting on front or back' }
+    ]
+  },
+  book: {
+    id: 'book',
+    label: 'Books',
+    description: 'book, pamphlet or magazine',
+    fields: [
+      { key: 'author', label: 'Author', type: 'text', hint: 'author(s) as printed' },
+      { key: 'publisher', label: 'Publisher', type: 'text', hint: 'publisher name' },
+      { key: 'edition', label: 'Edition', type: 'text', hint: 'e.g. "first edition", "book club"' },
+      { key: 'binding', label: 'Binding', type: 'select', options: ['Hardcover', 'Paperback', 'Other'], hint: 'binding' }
+    ]
+  }
+};
+
+export const CATEGORY_IDS = Object.keys(CATEGORY_TEMPLATES) as CategoryId[];
+
+export function getCategoryTemplate(id?: string): CategoryTemplate | null {
+  return id && id in CATEGORY_TEMPLATES ? CATEGORY_TEMPLATES[id as CategoryId] : null;
+}
+
+/**
+ * The category's fields plus any custom ones (promptConfig.ts), without
+ * repeating a key the template already has
+ */
+export function attributeFields(template: CategoryTemplate | null, customFields: AttributeField[] = []): AttributeField[] {
+  const fields = template ? [...template.fields] : [];
+  for (const field of customFields) {
+    if (!fields.some(f => f.key === field.key)) fields.push(field);
+  }
+  return fields;
+}
+
+/**
+ * Prompt addition naming the category and asking for its fields
+ */
+export function templatePrompt(template: CategoryTemplate | null, fields: AttributeField[]): string {
+  const intro = template ? `
+This item is a ${template.description}.` : '';
+  if (fields.length === 0) return intro;
+  const described = fields.map(field => {
+    const kind = field.type === 'select' ? `one of ${field.options!.map(o => `"${o}"`).join(', ')}` : field.type;
+    return `"${field.key}" (${kind}${field.hint ? `; ${field.hint}` : ''})`;
+  });
+  return `${intro}
+Also return "attributes": an object with ${described.join(', ')}. Use null for anything not visible.`;
+}
+
+// Cheap first call for 'auto': the category only
+export const CLASSIFY_PROMPT = `Which kind of collectible is this? Return ONLY a JSON object {"category": "<id>"} where <id> is one of:
+${CATEGORY_IDS.map(id => `"${id}" (${CATEGORY_TEMPLATES[id].description})`).join(',\n')},
+or "general" for anything else.`;
+
+export function parseCategory(text: string): CategoryId | 'general' {
+  const lower = (text || '').toLowerCase();
+  const declared = lower.match(/"category"\s*:\s*"([a-z]+)"/)?.[1];
+  if (declared) return declared in CATEGORY_TEMPLATES ? declared as CategoryId : 'general';
+  return CATEGORY_IDS.find(id => new RegExp(`\\b${id}\\b`).test(lower)) || 'general';
+}
+
+function coerceValue(field: AttributeField, value: any): AttributeValue | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  switch (field.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : parseFloat(String(value).replace(/[^\d.-]/g, ''));
+      return isFinite(number) ? number : undefined;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      return /^(true|yes|y|1)$/i.test(String(value).trim());
+    case 'select': {
+      const text = String(value).trim().toLowerCase();
+      return (field.options || []).find(option => option.toLowerCase() === text) || String(value).trim();
+    }
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value).trim();
+  }
+}
+
+/**
+ * The requested fields from the model's answer, converted to their types.
+ * Looks in `attributes` first, then at the top level and in raw_metadata
+ * (where some models put them anyway). Unknown keys are dropped.
+ */
+export function coerceAttributes(fields: AttributeField[], ...sources: Array<Record<string, any> | undefined>): ItemAttributes {
+  const attributes: ItemAttributes = {};
+  for (const field of fields) {
+    const source = sources.find(s => s && s[field.key] !== undefined && s[field.key] !== null);
+    const value = source ? coerceValue(field, source[field.key]) : undefined;
+    if (value !== undefined) attributes[field.key] = value;
+  }
+  return attributes;
+}
+
+/**
+ * Convert an edited form value back to the field's type (ItemDetail)
+ */
+export function parseAttributeInput(field: AttributeField, input: string | boolean): AttributeValue | undefined {
+  return coerceValue(field, input);
+}
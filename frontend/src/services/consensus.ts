@@ -0,0 +1,155 @@
+/**
+ * Multi-model consensus
+ * For items worth a second opinion, analyzeImage can ask two or three
+ * providers at once. Their answers are compared field by field: where they
+ * agree the shared value is kept, where they don't the majority (or the most
+ * confident model) wins and the field is marked disputed, which lowers its
+ * field confidence so the item lands in review.
+ *
+ * Every answer and the disagreement report are kept in raw_metadata
+ * (`consensus_answers`, `consensus`).
+ */
+import type { AIProvider } from './aiProviders';
+import type { AIResult } from './aiService';
+import { eraOverlaps, parseEra } from './era';
+
+export interface ProviderAnswer {
+  provider: AIProvider;
+  result: AIResult;
+}
+
+export interface FieldDisagreement {
+  field: string; // Answer field, or an attribute key
+  values: Partial<Record<AIProvider, string>>;
+  chosen: string;
+}
+
+export interface ConsensusReport {
+  providers: AIProvider[];
+  agreed: string[];
+  disagreements: FieldDisagreement[];
+}
+
+// Most providers asked at once; more adds cost without changing the majority
+export const MAX_CONSENSUS_PROVIDERS = 3;
+
+// Field confidence ceiling for a disputed field
+const DISPUTED_FIELD_CONFIDENCE = 40;
+
+// Share of title words two answers need in common to count as the same item
+const TITLE_SIMILARITY = 0.5;
+
+// Notes are free text and never match word for word, so they aren't compared
+const COMPARED_FIELDS = ['title', 'type', 'year', 'condition_estimate'] as const;
+type ComparedField = typeof COMPARED_FIELDS[number];
+
+// The compared fields all hold text
+function setField(result: AIResult, field: ComparedField, value: string) {
+  result[field] = value;
+}
+
+const normalize = (value: unknown) => String(value ?? '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const words = (text: string) => new Set(normalize(text).split(' ').filter(word => word.length > 1));
+
+function sameValue(field: string, a: unknown, b: unknown): boolean {
+  if (field === 'title') {
+    const wordsA = words(String(a));
+    const wordsB = words(String(b));
+    const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length;
+    const union = new Set([...Array.from(wordsA), ...Array.from(wordsB)]).size;
+    return union > 0 && shared / union >= TITLE_SIMILARITY;
+  }
+  if (field === 'year') {
+    // "c. 1950s" and "1955" describe the same item
+    const eraA = parseEra(String(a));
+    const eraB = parseEra(String(b));
+    if (eraA && eraB) return eraOverlaps(eraA, eraB.start, eraB.end);
+  }
+  return normalize(a) === normalize(b);
+}
+
+const isEmpty = (value: unknown) => value === undefined || value === null || normalize(value) === '' || normalize(value) === 'unknown';
+
+/**
+ * Group the answers that agree on a field. The largest group wins; a tie goes
+ * to the group holding the most confident answer. Answers without the field
+ * don't take part.
+ */
+function resolveField<T>(field: string, answers: ProviderAnswer[], read: (result: AIResult) => T | undefined) {
+  const groups: ProviderAnswer[][] = [];
+  for (const answer of answers) {
+    const value = read(answer.result);
+    if (isEmpty(value)) continue;
+    const group = groups.find(g => sameValue(field, read(g[0].result), value));
+    if (group) group.push(answer);
+    else groups.push([answer]);
+  }
+  if (groups.length === 0) return null;
+  const best = (group: ProviderAnswer[]) => Math.max(...group.map(answer => answer.result.confidence_score ?? 0));
+  const winner = groups.slice().sort((a, b) => b.length - a.length || best(b) - best(a))[0];
+  // The winning group's most confident answer supplies the value
+  const source = winner.slice().sort((a, b) => (b.result.confidence_score ?? 0) - (a.result.confidence_score ?? 0))[0];
+  return { value: read(source.result), source, winner, disputed: groups.length > 1 };
+}
+
+/**
+ * One record from several providers' answers (at least two)
+ */
+export function mergeConsensus(answers: ProviderAnswer[]): AIResult {
+  const title = resolveField('title', answers, result => result.title)!;
+  const primary = title.source;
+  const merged: AIResult = { ...primary.result, raw_metadata: { ...(primary.result.raw_metadata || {}) } };
+  const fieldConfidence: Record<string, number> = { ...(primary.result.field_confidence || {}) };
+  const report: ConsensusReport = { providers: answers.map(answer => answer.provider), agreed: [], disagreements: [] };
+
+  const record = (field: string, resolved: { value: unknown; disputed: boolean } | null, read: (result: AIResult) => unknown) => {
+    if (!resolved) return;
+    if (!resolved.disputed) {
+      report.agreed.push(field);
+      // Agreement is worth as much as the surest model's word
+      const scores = answers.map(answer => answer.result.field_confidence?.[field]).filter((s): s is number => s !== undefined);
+      if (scores.length > 0) fieldConfidence[field] = Math.max(...scores);
+      return;
+    }
+    report.disagreements.push({
+      field,
+      values: Object.fromEntries(answers.filter(answer => !isEmpty(read(answer.result))).map(answer => [answer.provider, String(read(answer.result))])),
+      chosen: String(resolved.value)
+    });
+    fieldConfidence[field] = Math.min(fieldConfidence[field] ?? 100, DISPUTED_FIELD_CONFIDENCE);
+  };
+
+  for (const field of COMPARED_FIELDS) {
+    const read = (result: AIResult) => result[field];
+    const resolved = field === 'title' ? title : resolveField(field, answers, read);
+    if (resolved) setField(merged, field, String(resolved.value));
+    record(field, resolved, read);
+  }
+  merged.era = parseEra(merged.year) || undefined;
+
+  const attributeKeys = Array.from(new Set(answers.flatMap(answer => Object.keys(answer.result.attributes || {}))));
+  if (attributeKeys.length > 0) {
+    merged.attributes = {};
+    for (const key of attributeKeys) {
+      const read = (result: AIResult) => result.attributes?.[key];
+      const resolved = resolveField(key, answers, read);
+      if (resolved) merged.attributes[key] = resolved.value;
+      record(key, resolved, read);
+    }
+  }
+
+  // Mean confidence of the models that named the item, scaled by how many did
+  const agreeing = title.winner.map(answer => answer.result.confidence_score ?? 0);
+  const score = Math.round((agreeing.reduce((sum, s) => sum + s, 0) / agreeing.length) * (agreeing.length / answers.length));
+  merged.confidence = `${score}%`;
+  merged.confidence_score = score;
+  merged.field_confidence = fieldConfidence;
+  merged.raw_metadata = {
+    ...merged.raw_metadata,
+    ai_provider: primary.provider,
+    consensus: report,
+    consensus_answers: Object.fromEntries(answers.map(answer => [answer.provider, answer.result]))
+  };
+  return merged;
+}
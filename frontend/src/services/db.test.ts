@@ -0,0 +1,47 @@
+import { InventoryItem, addToInventory, getAllInventory, initDB } from './db';
+
+const entry = (n: number, year: string): Omit<InventoryItem, 'id'> => ({
+  image_hash: `hash-${n}`,
+  title: `Item ${String(n).padStart(2, '0')}`,
+  type: 'postcard',
+  year,
+  notes: '',
+  confidence: '90%',
+  first_seen: `2024-01-${String(n).padStart(2, '0')}T00:00:00.000Z`,
+  last_seen: `2024-01-${String(n).padStart(2, '0')}T00:00:00.000Z`,
+  times_scanned: 1,
+  box_id: 'Box 1'
+});
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  await initDB();
+  // Items 1-12 from the 1950s, 13-20 from the 1920s
+  for (let n = 1; n <= 20; n++) await addToInventory(entry(n, n <= 12 ? '1955' : '1925'));
+});
+
+const titles = (items: InventoryItem[]) => items.map(item => item.title);
+
+test('date sorts page from the index by the last date', async () => {
+  const first = await getAllInventory(5);
+  const second = await getAllInventory(5, first[first.length - 1].last_seen);
+  expect(titles(first)).toEqual(['Item 20', 'Item 19', 'Item 18', 'Item 17', 'Item 16']);
+  expect(titles(second)).toEqual(['Item 15', 'Item 14', 'Item 13', 'Item 12', 'Item 11']);
+});
+
+test('with an era filter, later pages continue where the last one ended', async () => {
+  const fifties = { from: 1950, to: 1959 };
+  const first = await getAllInventory(5, undefined, 'created_at-desc', fifties);
+  const second = await getAllInventory(5, first[first.length - 1].last_seen, 'created_at-desc', fifties, first.length);
+  const third = await getAllInventory(5, undefined, 'created_at-desc', fifties, first.length + second.length);
+  expect(titles(first)).toEqual(['Item 12', 'Item 11', 'Item 10', 'Item 09', 'Item 08']);
+  expect(titles(second)).toEqual(['Item 07', 'Item 06', 'Item 05', 'Item 04', 'Item 03']);
+  expect(titles(third)).toEqual(['Item 02', 'Item 01']);
+});
+
+test('in-memory sorts page by offset', async () => {
+  const first = await getAllInventory(15, undefined, 'title-asc');
+  const second = await getAllInventory(15, undefined, 'title-asc', undefined, 15);
+  expect(titles(second)).toEqual(['Item 16', 'Item 17', 'Item 18', 'Item 19', 'Item 20']);
+  expect(first.length + second.length).toBe(20);
+});
@@ -1,12 +1,21 @@
-import { openDB, DBSchema, IDBPDatabase, deleteDB } from 'idb';
+import { openDB, DBSchema, IDBPDatabase, IDBPObjectStore, StoreNames, deleteDB } from 'idb';
+import { Era, parseEra, compareEras, eraOverlaps } from './era';
+import { ItemPhoto } from './itemPhotos';
+import type { DetectedBarcode } from './barcodeService';
+import type { CategoryId, CategorySelection, ItemAttributes } from './categoryTemplates';
+import type { FieldConfidence, ReviewStatus } from './fieldConfidence';
+import type { RoutingPolicyId } from './routingPolicy';
 
 // Types for inventory
 export interface InventoryItem {
   id?: number;
-  image_hash: string;
+  image_hash: string; // Average hash, exact-match key (by-hash)
+  phash?: string; // DCT perceptual hash for near-duplicate search
+  dhash?: string; // Difference hash, second opinion when scoring near-duplicates
   title: string;
   type: string;
   year: string;
+  era?: Era; // Parsed from `year` on save (see withEra)
   notes: string;
   confidence: string;
   first_seen: string;
@@ -19,6 +28,51 @@ export interface InventoryItem {
   raw_metadata?: Record<string, any>;
 }
 
+// A capture that matched an inventory entry, waiting for (or holding) the
+// user's decision. The pair is the capture's image hash + the inventory id.
+export interface DuplicateReview {
+  id?: number;
+  image_hash: string; // The capture's average hash
+  inventory_id: number; // Matched inventory entry
+  item_id?: number; // The capture's record in 'items'
+  capture_inventory_id?: number; // Near matches: the entry the pipeline created for the capture
+  match_type: 'exact' | 'near';
+  score: number; // 0-1 similarity
+  status: 'pending' | 'merged' | 'separate' | 'replaced';
+  created_at: string;
+  decided_at?: string;
+}
+
+// An item saved from a fallback answer (no AI provider responded), waiting
+// to be identified for real
+export interface ReidentifyEntry {
+  item_id: number;
+  batch_id: string;
+  reason: string; // raw_metadata.fallback_mode of the last answer
+  queued_at: string;
+  attempts: number; // Re-identify runs that still ended in a fallback
+  last_attempt_at?: string;
+  keys_fingerprint?: string; // Which AI keys were configured at the last attempt
+  last_error?: string;
+}
+
+// One request to an AI provider, with its token counts and estimated cost
+// (see usageLedger.ts)
+export interface AICallRecord {
+  id?: number;
+  at: string; // ISO time the request was sent
+  provider: string;
+  model: string;
+  purpose: 'identify' | 'classify';
+  ok: boolean; // HTTP success; failed calls are kept for latency but cost nothing
+  input_tokens: number;
+  output_tokens: number;
+  latency_ms: number; // Excluding time queued behind the rate limiter
+  cost_usd: number;
+  batch_id?: string;
+  box_id?: string;
+}
+
 interface VintageDB extends DBSchema {
   batches: {
     key: string; // batch_id
@@ -29,7 +83,10 @@ interface VintageDB extends DBSchema {
       processed: number;
       failed: number;
       created_at: string;
-      status: 'pending' | 'processing' | 'completed' | 'failed';
+      status: 'pending' | 'processing' | 'paused' | 'cancelled' | 'completed' | 'failed';
+      category?: CategorySelection; // Prompt template chosen for the batch
+      consensus?: number; // Providers compared per item (consensus mode); unset = first that answers
+      routing_policy?: RoutingPolicyId; // How providers are ordered per item; unset = Settings order
     };
     indexes: { 'by-date': string };
   };
@@ -43,27 +100,55 @@ interface VintageDB extends DBSchema {
       title: string;
       type: string;
       year: string;
+      era?: Era;
       notes: string;
       developer_notes?: string; // New field for dev notes
       confidence: string;
       processed_at: string;
-      image_data: Blob | string;
-      status: 'pending' | 'processing' | 'completed' | 'failed';
+      image_data: Blob | string; // Front photo
+      extra_photos?: ItemPhoto[]; // Back/detail/label shots of the same item, in order
+      barcodes?: DetectedBarcode[]; // ISBN/UPC/EAN read from the photos
+      category?: CategoryId | 'general'; // Prompt template the item was identified with
+      attributes?: ItemAttributes; // That template's fields (issue #, label, set, ...) and custom ones
+      prompt_version?: number; // Settings prompt version that identified it (0 = built-in)
+      prompt_id?: string; // That version's id (promptConfig.ts), which stays right if a sync renumbers it
+      ai_model?: string; // Exact model that answered, e.g. gemini-1.5-flash-002
+      field_confidence?: FieldConfidence; // Model's 0-100 confidence per field
+      review_status?: ReviewStatus; // Set when a confidence fell under the review threshold
+      status: 'pending' | 'processing' | 'completed' | 'failed' | 'skipped';
       image_hash?: string; // Link to inventory
       comps_quote?: string;
       saved_comps?: string; // New field for saved comps JSON/String
       condition_estimate?: string;
       raw_metadata?: Record<string, any>;
     };
-    indexes: { 'by-batch': string; 'by-hash': string };
+    indexes: { 'by-batch': string; 'by-hash': string; 'by-era': number };
   };
   inventory: {
     key: number;
     value: InventoryItem;
-    indexes: { 'by-hash': string; 'by-date': string };
+    indexes: { 'by-hash': string; 'by-date': string; 'by-era': number };
+  };
+  duplicate_reviews: {
+    key: number;
+    value: DuplicateReview;
+    indexes: { 'by-hash': string; 'by-status': string };
+  };
+  reidentify_queue: {
+    key: number; // item_id
+    value: ReidentifyEntry;
+    indexes: { 'by-date': string };
+  };
+  ai_calls: {
+    key: number;
+    value: AICallRecord;
+    indexes: { 'by-date': string; 'by-batch': string };
   };
 }
 
+export type BatchRecord = VintageDB['batches']['value'];
+export type ItemRecord = VintageDB['items']['value'];
+
 // Cross-tab coordination to prevent upgrade hangs
 const dbChannel = new BroadcastChannel('vintage_db_sync');
 
@@ -93,8 +178,8 @@ export const initDB = async (retryCount = 0) => {
   }
 
   try {
-    dbPromise = openDB<VintageDB>('vintage-cataloger-db', 5, {
-      upgrade(db, oldVersion, newVersion, tx) {
+    dbPromise = openDB<VintageDB>('vintage-cataloger-db', 9, {
+      async upgrade(db, oldVersion, newVersion, tx) {
         try {
           console.log(`DB Upgrade: v${oldVersion} -> v${newVersion}`);
           
@@ -131,9 +216,54 @@ export const initDB = async (retryCount = 0) => {
              // Schema v5 adds fields to 'items' which is fine (no index needed)
              console.log("Upgrading to v5: Added developer_notes and saved_comps support");
           }
+
+          if (oldVersion < 6) {
+            // Schema v6: structured era parsed from the free-text year, indexed by earliest year
+            const invStore = tx.objectStore('inventory');
+            if (!invStore.indexNames.contains('by-era')) {
+              invStore.createIndex('by-era', 'era.start');
+            }
+            const itemStore = tx.objectStore('items');
+            if (!itemStore.indexNames.contains('by-era')) {
+              itemStore.createIndex('by-era', 'era.start');
+            }
+            await backfillEras(invStore);
+            await backfillEras(itemStore);
+          }
+
+          if (oldVersion < 7) {
+            // Schema v7: duplicate review queue and per-pair decisions
+            if (!db.objectStoreNames.contains('duplicate_reviews')) {
+              const reviewStore = db.createObjectStore('duplicate_reviews', { keyPath: 'id', autoIncrement: true });
+              reviewStore.createIndex('by-hash', 'image_hash');
+              reviewStore.createIndex('by-status', 'status');
+            }
+          }
+
+          if (oldVersion < 8) {
+            // Schema v8: fallback items waiting to be re-identified
+            if (!db.objectStoreNames.contains('reidentify_queue')) {
+              const queueStore = db.createObjectStore('reidentify_queue', { keyPath: 'item_id' });
+              queueStore.createIndex('by-date', 'queued_at');
+            }
+          }
+
+          if (oldVersion < 9) {
+            // Schema v9: per-call AI usage and cost
+            if (!db.objectStoreNames.contains('ai_calls')) {
+              const callStore = db.createObjectStore('ai_calls', { keyPath: 'id', autoIncrement: true });
+              callStore.createIndex('by-date', 'at');
+              callStore.createIndex('by-batch', 'batch_id');
+            }
+          }
         } catch (err) {
           console.error("Critical Schema Upgrade Error:", err);
-          throw err;
+          // Fail the open (initDB retries) instead of leaving the rejection unhandled
+          try {
+            tx.abort();
+          } catch (abortErr) {
+            // The failed request already aborted it
+          }
         }
       },
       blocked() {
@@ -170,6 +300,32 @@ export const initDB = async (retryCount = 0) => {
   }
 };
 
+// ========== ERA HELPERS ==========
+// Recompute the structured era whenever the free-text year is written
+const withEra = <T extends { year?: string; era?: Era }>(record: T): T => {
+  if (record.year === undefined) return record;
+  return { ...record, era: parseEra(record.year) || undefined };
+};
+
+type UpgradeStore<Name extends StoreNames<VintageDB>> = IDBPObjectStore<VintageDB, StoreNames<VintageDB>[], Name, 'versionchange'>;
+
+// Upgrade helper: parse eras for records saved before schema v6
+async function backfillEras<Name extends 'inventory' | 'items'>(store: UpgradeStore<Name>) {
+  let cursor = await store.openCursor();
+  let count = 0;
+  while (cursor) {
+    if (cursor.value.year && !cursor.value.era) {
+      const era = parseEra(cursor.value.year);
+      if (era) {
+        await cursor.update({ ...cursor.value, era });
+        count++;
+      }
+    }
+    cursor = await cursor.continue();
+  }
+  console.log(`Backfilled era for ${count} records in ${store.name}`);
+}
+
 // ========== BATCH OPERATIONS ==========
 export const saveBatch = async (batch: VintageDB['batches']['value']) => {
   const db = await dbPromise;
@@ -202,29 +358,42 @@ export const deleteBatch = async (batchId: string) => {
   }
 };
 
+export const getBatch = async (batchId: string) => {
+  const db = await dbPromise;
+  return await db.get('batches', batchId);
+};
+
+// Interrupted (tab closed mid-run) or explicitly paused; cancelled batches are
+// only resumed on request from Batch History
 export const getIncompleteBatches = async () => {
   const db = await dbPromise;
   const allBatches = await db.getAll('batches');
-  return allBatches.filter(b => b.status === 'processing');
+  return allBatches.filter(b => b.status === 'processing' || b.status === 'paused');
 };
 
 // ========== ITEM OPERATIONS ==========
 export const saveItem = async (item: VintageDB['items']['value']) => {
   const db = await dbPromise;
-  return await db.add('items', item);
+  return await db.add('items', withEra(item));
 };
 
 export const updateItem = async (id: number, updates: Partial<VintageDB['items']['value']>) => {
   const db = await dbPromise;
   const item = await db.get('items', id);
   if (item) {
-    await db.put('items', { ...item, ...updates });
+    await db.put('items', withEra({ ...item, ...updates }));
   }
 };
 
+export const getItem = async (id: number) => {
+  const db = await dbPromise;
+  return await db.get('items', id);
+};
+
 export const deleteItem = async (id: number) => {
   const db = await dbPromise;
   await db.delete('items', id);
+  await db.delete('reidentify_queue', id); // Nothing left to re-identify
 };
 
 export const getBatchItems = async (batchId: string) => {
@@ -244,27 +413,54 @@ export const getLatestItemByHash = async (hash: string) => {
 export const addToInventory = async (item: Omit<InventoryItem, 'id'>) => {
   const db = await dbPromise;
   // Use put (upsert) instead of add (insert only) to prevent ConstraintErrors during sync
-  return await db.put('inventory', item as InventoryItem);
+  return await db.put('inventory', withEra(item as InventoryItem));
 };
 
 export const updateInventoryItem = async (id: number, updates: Partial<InventoryItem>) => {
   const db = await dbPromise;
   const item = await db.get('inventory', id);
   if (item) {
-    await db.put('inventory', { ...item, ...updates });
+    await db.put('inventory', withEra({ ...item, ...updates }));
   }
 };
 
+export const getInventoryItem = async (id: number): Promise<InventoryItem | undefined> => {
+  const db = await dbPromise;
+  return await db.get('inventory', id);
+};
+
 export const findByImageHash = async (hash: string): Promise<InventoryItem | undefined> => {
   const db = await dbPromise;
   return await db.getFromIndex('inventory', 'by-hash', hash);
 };
 
-export const getAllInventory = async (limit = 50, lastKey?: string, sort: string = 'created_at-desc'): Promise<InventoryItem[]> => {
+// Just the fields the near-duplicate index needs (skips thumbnails/metadata)
+export const getInventoryPerceptualHashes = async (): Promise<Array<Pick<InventoryItem, 'id' | 'title' | 'phash' | 'dhash'>>> => {
   const db = await dbPromise;
+  const results: Array<Pick<InventoryItem, 'id' | 'title' | 'phash' | 'dhash'>> = [];
+  let cursor = await db.transaction('inventory', 'readonly').store.openCursor();
+  while (cursor) {
+    const { id, title, phash, dhash } = cursor.value;
+    if (phash) results.push({ id, title, phash, dhash });
+    cursor = await cursor.continue();
+  }
+  return results;
+};
+
+export interface EraRange {
+  from?: number;
+  to?: number;
+}
+
+// One page of inventory. Unfiltered date sorts page from the index by the
+// last page's last `last_seen` (lastKey); every other sort is done in memory
+// and pages by position (offset = items already loaded).
+export const getAllInventory = async (limit = 50, lastKey?: string, sort: string = 'created_at-desc', eraRange?: EraRange, offset = 0): Promise<InventoryItem[]> => {
+  const db = await dbPromise;
+  const hasEraFilter = !!eraRange && (eraRange.from !== undefined || eraRange.to !== undefined);
   
   // If we are sorting by date (default), we can use the index efficiently
-  if (sort === 'created_at-desc' || sort === 'created_at-asc') {
+  if (!hasEraFilter && (sort === 'created_at-desc' || sort === 'created_at-asc')) {
     const tx = db.transaction('inventory', 'readonly');
     const index = tx.objectStore('inventory').index('by-date');
     const direction = sort === 'created_at-desc' ? 'prev' : 'next';
@@ -281,17 +477,32 @@ export const getAllInventory = async (limit = 50, lastKey?: string, sort: string
     return results;
   }
 
-  // For other sorts, we fetch all and sort in memory (fine for small/medium local collections)
-  const all = await db.getAll('inventory');
+  // Era filter: the index narrows to items starting on/before `to`, then we check overlap
+  const all = hasEraFilter
+    ? (await db.getAllFromIndex('inventory', 'by-era', eraRange!.to !== undefined ? IDBKeyRange.upperBound(eraRange!.to) : undefined))
+        .filter(item => eraOverlaps(item.era, eraRange!.from, eraRange!.to))
+    : await db.getAll('inventory');
   const [field, order] = sort.split('-');
-  
-  return all.sort((a: any, b: any) => {
-    const valA = (a[field] || '').toString().toLowerCase();
-    const valB = (b[field] || '').toString().toLowerCase();
-    if (valA < valB) return order === 'asc' ? -1 : 1;
-    if (valA > valB) return order === 'asc' ? 1 : -1;
-    return 0;
-  }).slice(0, limit);
+
+  // Year sorts use the parsed era (numeric) rather than the free text
+  if (field === 'year') {
+    all.sort((a, b) => compareEras(a.era, b.era, order as 'asc' | 'desc'));
+  } else if (field === 'created_at') {
+    all.sort((a, b) => order === 'asc'
+      ? a.last_seen.localeCompare(b.last_seen)
+      : b.last_seen.localeCompare(a.last_seen)
+    );
+  } else {
+    // For other sorts, we fetch all and sort in memory (fine for small/medium local collections)
+    all.sort((a: any, b: any) => {
+      const valA = (a[field] || '').toString().toLowerCase();
+      const valB = (b[field] || '').toString().toLowerCase();
+      if (valA < valB) return order === 'asc' ? -1 : 1;
+      if (valA > valB) return order === 'asc' ? 1 : -1;
+      return 0;
+    });
+  }
+  return all.slice(offset, offset + limit);
 };
 
 export const getInventoryCount = async (): Promise<number> => {
@@ -303,3 +514,74 @@ export const deleteInventoryItem = async (id: number) => {
   const db = await dbPromise;
   await db.delete('inventory', id);
 };
+
+// ========== DUPLICATE REVIEW OPERATIONS ==========
+export const addDuplicateReview = async (review: Omit<DuplicateReview, 'id'>) => {
+  const db = await dbPromise;
+  return await db.add('duplicate_reviews', review as DuplicateReview);
+};
+
+export const updateDuplicateReview = async (id: number, updates: Partial<DuplicateReview>) => {
+  const db = await dbPromise;
+  const review = await db.get('duplicate_reviews', id);
+  if (review) {
+    await db.put('duplicate_reviews', { ...review, ...updates });
+  }
+};
+
+// Every review (pending or decided) involving captures with this hash
+export const getDuplicateReviewsByHash = async (hash: string): Promise<DuplicateReview[]> => {
+  const db = await dbPromise;
+  return await db.getAllFromIndex('duplicate_reviews', 'by-hash', hash);
+};
+
+export const getPendingDuplicateReviews = async (): Promise<DuplicateReview[]> => {
+  const db = await dbPromise;
+  return await db.getAllFromIndex('duplicate_reviews', 'by-status', 'pending');
+};
+
+export const getPendingDuplicateCount = async (): Promise<number> => {
+  const db = await dbPromise;
+  return await db.countFromIndex('duplicate_reviews', 'by-status', 'pending');
+};
+
+// ========== RE-IDENTIFY QUEUE OPERATIONS ==========
+export const getReidentifyEntry = async (itemId: number): Promise<ReidentifyEntry | undefined> => {
+  const db = await dbPromise;
+  return await db.get('reidentify_queue', itemId);
+};
+
+export const putReidentifyEntry = async (entry: ReidentifyEntry) => {
+  const db = await dbPromise;
+  await db.put('reidentify_queue', entry);
+};
+
+export const removeReidentifyEntry = async (itemId: number) => {
+  const db = await dbPromise;
+  await db.delete('reidentify_queue', itemId);
+};
+
+// Oldest first
+export const getReidentifyQueue = async (): Promise<ReidentifyEntry[]> => {
+  const db = await dbPromise;
+  return await db.getAllFromIndex('reidentify_queue', 'by-date');
+};
+
+export const getReidentifyCount = async (): Promise<number> => {
+  const db = await dbPromise;
+  return await db.count('reidentify_queue');
+};
+
+// ========== AI USAGE OPERATIONS ==========
+export const addAICalls = async (records: AICallRecord[]) => {
+  if (records.length === 0) return;
+  const db = await dbPromise;
+  const tx = db.transaction('ai_calls', 'readwrite');
+  await Promise.all([...records.map(record => tx.store.add(record)), tx.done]);
+};
+
+// Oldest first; `since` is an ISO time
+export const getAICalls = async (since?: string): Promise<AICallRecord[]> => {
+  const db = await dbPromise;
+  return await db.getAllFromIndex('ai_calls', 'by-date', since ? IDBKeyRange.lowerBound(since) : undefined);
+};
@@ -0,0 +1,191 @@
+/**
+ * Duplicate review queue
+ * The pipeline no longer merges a matching capture into inventory on its
+ * own: it saves the capture, queues a review, and the user decides.
+ *
+ * - Merge: same item. The inventory entry gains a scan (with history) and
+ *   the capture's own entry, if one was created, is removed.
+ * - Keep separate: different items. The capture keeps (or gets) its own entry.
+ * - Replace: same item, but the new photo becomes the canonical image.
+ *
+ * Decisions are stored per pair (capture hash + inventory id), so scanning
+ * the same photo again is answered from the stored decision.
+ */
+import {
+  addDuplicateReview,
+  addToInventory,
+  deleteInventoryItem,
+  getDuplicateReviewsByHash,
+  getInventoryItem,
+  getItem,
+  getPendingDuplicateReviews,
+  updateDuplicateReview,
+  updateInventoryItem,
+  updateItem,
+  DuplicateReview,
+  InventoryItem,
+  ItemRecord
+} from './db';
+import { preprocessImage } from './imagePreprocessor';
+
+export type { DuplicateReview } from './db';
+
+export type DuplicateAction = 'merge' | 'separate' | 'replace';
+
+export interface DuplicateReviewEntry {
+  review: DuplicateReview;
+  capture?: ItemRecord;
+  match: InventoryItem;
+}
+
+// What the user already said about captures with one hash
+export interface CaptureDecisions {
+  confirmed?: InventoryItem; // Merged into / replaced this entry: reuse it silently
+  separated: Set<number>; // Entries the user said are different items
+}
+
+/**
+ * Inventory key for an entry the user kept separate from an identical-looking
+ * one (by-hash is unique, and the cloud copy is keyed by it too)
+ */
+export function separateInventoryHash(hash: string, suffix: string | number): string {
+  return `${hash}:${suffix}`;
+}
+
+export async function getCaptureDecisions(imageHash: string): Promise<CaptureDecisions> {
+  const reviews = await getDuplicateReviewsByHash(imageHash);
+  const decisions: CaptureDecisions = { separated: new Set() };
+  for (const review of reviews) {
+    if (review.status === 'separate') decisions.separated.add(review.inventory_id);
+    if ((review.status === 'merged' || review.status === 'replaced') && !decisions.confirmed) {
+      decisions.confirmed = await getInventoryItem(review.inventory_id); // Undefined if since deleted
+    }
+  }
+  return decisions;
+}
+
+/**
+ * Queue a pair for review. A pair already reviewed (or waiting) is not
+ * queued twice.
+ */
+export async function queueDuplicateReview(review: Omit<DuplicateReview, 'id' | 'status' | 'created_at'>) {
+  const existing = await getDuplicateReviewsByHash(review.image_hash);
+  if (existing.some(r => r.inventory_id === review.inventory_id)) return;
+  await addDuplicateReview({ ...review, status: 'pending', created_at: new Date().toISOString() });
+}
+
+/**
+ * Pending reviews with both sides loaded, best matches first. Reviews whose
+ * inventory entry has since been deleted are left out.
+ */
+export async function getDuplicateReviewQueue(): Promise<DuplicateReviewEntry[]> {
+  const reviews = await getPendingDuplicateReviews();
+  const entries = await Promise.all(reviews.map(async (review): Promise<DuplicateReviewEntry | null> => {
+    const [capture, match] = await Promise.all([
+      review.item_id ? getItem(review.item_id) : Promise.resolve(undefined),
+      getInventoryItem(review.inventory_id)
+    ]);
+    return match ? { review, capture, match } : null;
+  }));
+  return entries
+    .filter((entry): entry is DuplicateReviewEntry => entry !== null)
+    .sort((a, b) => b.review.score - a.review.score);
+}
+
+async function captureThumbnail(capture?: ItemRecord): Promise<string> {
+  if (!capture?.image_data) return '';
+  try {
+    return (await preprocessImage(capture.image_data)).thumbnail;
+  } catch (err) {
+    return '';
+  }
+}
+
+/**
+ * Apply the user's decision. Returns the inventory entry that now represents
+ * the capture (for cloud sync), if any.
+ */
+export async function resolveDuplicateReview(review: DuplicateReview, action: DuplicateAction): Promise<InventoryItem | undefined> {
+  if (review.id === undefined) throw new Error('Review has not been saved');
+  const now = new Date().toISOString();
+  const [capture, match, captureEntry] = await Promise.all([
+    review.item_id ? getItem(review.item_id) : Promise.resolve(undefined),
+    getInventoryItem(review.inventory_id),
+    review.capture_inventory_id ? getInventoryItem(review.capture_inventory_id) : Promise.resolve(undefined)
+  ]);
+
+  if (!match || action === 'separate') {
+    let ownEntry = captureEntry;
+    if (!ownEntry && capture) {
+      const entry: Omit<InventoryItem, 'id'> = {
+        image_hash: separateInventoryHash(review.image_hash, capture.id ?? Date.now()),
+        title: capture.title,
+        type: capture.type,
+        year: capture.year,
+        notes: capture.notes,
+        confidence: capture.confidence,
+        first_seen: capture.processed_at || now,
+        last_seen: capture.processed_at || now,
+        times_scanned: 1,
+        thumbnail: await captureThumbnail(capture),
+        box_id: capture.box_id,
+        condition_estimate: capture.condition_estimate,
+        raw_metadata: capture.raw_metadata
+      };
+      ownEntry = { ...entry, id: await addToInventory(entry) };
+    }
+    if (ownEntry?.id !== undefined) {
+      // From now on this hash belongs to the capture's own entry
+      await addDuplicateReview({
+        image_hash: review.image_hash,
+        inventory_id: ownEntry.id,
+        item_id: review.item_id,
+        match_type: review.match_type,
+        score: 1,
+        status: 'merged',
+        created_at: now,
+        decided_at: now
+      });
+    }
+    await updateDuplicateReview(review.id, { status: 'separate', decided_at: now });
+    return ownEntry;
+  }
+
+  const scan: Record<string, any> = {
+    item_id: review.item_id,
+    batch_id: capture?.batch_id,
+    filename: capture?.filename,
+    image_hash: review.image_hash,
+    scanned_at: capture?.processed_at || review.created_at
+  };
+  const update: Partial<InventoryItem> = {
+    last_seen: now,
+    times_scanned: (match.times_scanned || 1) + 1
+  };
+  if (action === 'replace') {
+    scan.replaced = { image_hash: match.image_hash, thumbnail: match.thumbnail }; // Previous canonical image
+    update.thumbnail = captureEntry?.thumbnail || await captureThumbnail(capture) || match.thumbnail;
+    update.image_hash = review.image_hash;
+    update.phash = captureEntry?.phash || match.phash;
+    update.dhash = captureEntry?.dhash || match.dhash;
+  }
+  update.raw_metadata = {
+    ...(match.raw_metadata || {}),
+    scan_history: [...(match.raw_metadata?.scan_history || []), scan]
+  };
+
+  // The capture's own entry goes first: by-hash is unique and Replace takes its hash
+  if (captureEntry?.id !== undefined && captureEntry.id !== match.id) await deleteInventoryItem(captureEntry.id);
+  await updateInventoryItem(match.id!, update);
+  if (capture?.id !== undefined) {
+    await updateItem(capture.id, { raw_metadata: { ...(capture.raw_metadata || {}), duplicate_of: match.id } });
+  }
+
+  // A capture is one item: its other open questions are answered by this one
+  const siblings = review.item_id === undefined ? [] : (await getPendingDuplicateReviews())
+    .filter(r => r.id !== review.id && r.item_id === review.item_id);
+  await Promise.all(siblings.map(r => updateDuplicateReview(r.id!, { status: 'separate', decided_at: now })));
+
+  await updateDuplicateReview(review.id, { status: action === 'replace' ? 'replaced' : 'merged', decided_at: now });
+  return { ...match, ...update };
+}
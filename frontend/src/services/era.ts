@@ -0,0 +1,105 @@
+/**
+ * Era parsing for free-text year estimates ("c. 1920s", "1955", "1930-1949")
+ * The parsed era is stored next to the raw `year` text so sorting and range
+ * filters work on numbers instead of strings.
+ */
+
+export type EraGranularity = 'year' | 'range' | 'decade' | 'century';
+
+export interface Era {
+  start: number; // Earliest plausible year
+  end: number;   // Latest plausible year
+  circa: boolean;
+  granularity: EraGranularity;
+  text: string;  // Original free text the era was parsed from
+}
+
+const CIRCA_PATTERN = /(?:^|[\s(])(?:c\.|ca\.|c(?=\s*\d)|circa|approx\.?|around|about)|~/i;
+
+// Narrow a span to its early/mid/late third
+function applyQualifier(start: number, end: number, qualifier?: string): [number, number] {
+  if (!qualifier) return [start, end];
+  const third = Math.floor((end - start + 1) / 3);
+  switch (qualifier.toLowerCase()) {
+    case 'early': return [start, start + third - 1];
+    case 'mid': return [start + third, end - third];
+    case 'late': return [end - third + 1, end];
+    default: return [start, end];
+  }
+}
+
+/**
+ * Parse a free-text year into a structured era.
+ * Returns null when no year can be found ("Unknown", "n/a", empty).
+ */
+export function parseEra(text: string | number | null | undefined): Era | null {
+  if (text === null || text === undefined) return null;
+  const raw = String(text).trim();
+  if (!raw) return null;
+
+  const circa = CIRCA_PATTERN.test(raw);
+  const clean = raw.replace(/[–—]/g, '-');
+
+  // 1. Explicit range: "1930-1949", "1930-49", "1930 to 1949"
+  const range = clean.match(/\b(1[5-9]\d{2}|20\d{2})\s*(?:-|to)\s*(\d{2,4})\b/i);
+  if (range) {
+    const start = parseInt(range[1], 10);
+    let end = parseInt(range[2], 10);
+    if (range[2].length === 2) end = Math.floor(start / 100) * 100 + end;
+    if (end >= start) return { start, end, circa, granularity: 'range', text: raw };
+  }
+
+  // 2. Century: "19th century", "late 19th c."
+  const century = clean.match(/\b(early|mid|late)?[\s-]*(1[5-9]|2[01])(?:st|nd|rd|th)\s*(?:century|cent\.?|c\.)/i);
+  if (century) {
+    const base = (parseInt(century[2], 10) - 1) * 100;
+    const [start, end] = applyQualifier(base, base + 99, century[1]);
+    return { start, end, circa: true, granularity: 'century', text: raw };
+  }
+
+  // 3. Decade or century span: "1920s", "early 1900s", "'50s"
+  const decade = clean.match(/\b(early|mid|late)?[\s-]*(1[5-9]\d0|20\d0)'?s\b/i);
+  if (decade) {
+    const base = parseInt(decade[2], 10);
+    const span = base % 100 === 0 ? 99 : 9;
+    const [start, end] = applyQualifier(base, base + span, decade[1]);
+    return { start, end, circa: circa || !!decade[1], granularity: span === 99 ? 'century' : 'decade', text: raw };
+  }
+  const shortDecade = clean.match(/(?:^|\s)'(\d)0s\b/);
+  if (shortDecade) {
+    const base = 1900 + parseInt(shortDecade[1], 10) * 10;
+    return { start: base, end: base + 9, circa, granularity: 'decade', text: raw };
+  }
+
+  // 4. Single year: "1955", "c. 1955"
+  const year = clean.match(/\b(1[5-9]\d{2}|20\d{2})\b/);
+  if (year) {
+    const value = parseInt(year[1], 10);
+    return { start: value, end: value, circa, granularity: 'year', text: raw };
+  }
+
+  return null;
+}
+
+/**
+ * Sort comparator: by earliest year, then latest year. Items without an era
+ * always sort last regardless of direction.
+ */
+export function compareEras(a: Era | null | undefined, b: Era | null | undefined, order: 'asc' | 'desc' = 'asc'): number {
+  if (!a && !b) return 0;
+  if (!a) return 1;
+  if (!b) return -1;
+  const diff = a.start - b.start || a.end - b.end;
+  return order === 'asc' ? diff : -diff;
+}
+
+/**
+ * True when the era overlaps the [from, to] range (either bound optional)
+ */
+export function eraOverlaps(era: Era | null | undefined, from?: number, to?: number): boolean {
+  if (from === undefined && to === undefined) return true;
+  if (!era) return false;
+  if (from !== undefined && era.end < from) return false;
+  if (to !== undefined && era.start > to) return false;
+  return true;
+}
@@ -0,0 +1,96 @@
+/**
+ * Expert escalation
+ * Answers under a confidence threshold (often from a cheap model such as
+ * gpt-4o-mini or a Gemini flash model) get a second pass from a designated
+ * "expert" model. The expert sees the same photos and prompt plus the first
+ * answer as a draft to verify and correct. Its answer is accepted; both are
+ * kept in raw_metadata.answer_history, and the draft can be accepted instead
+ * from the item view.
+ */
+import type { AIProvider } from './aiProviders';
+import type { AIResult } from './aiService';
+
+export interface ExpertEscalation {
+  provider: AIProvider;
+  model: string; // '' = the provider's pinned or default model
+  threshold: number; // Escalate answers under this confidence (0-100); 0 = off
+}
+
+export const DEFAULT_EXPERT_ESCALATION: ExpertEscalation = { provider: 'claude', model: '', threshold: 0 };
+
+// The parts of an answer that become item fields
+export type AnswerSnapshot = Pick<AIResult,
+  'title' | 'type' | 'year' | 'notes' | 'confidence' | 'confidence_score' | 'condition_estimate' | 'attributes' | 'field_confidence'>;
+
+export interface AnswerHistoryEntry {
+  role: 'draft' | 'expert';
+  provider?: AIProvider;
+  model?: string;
+  accepted: boolean;
+  answer: AnswerSnapshot;
+}
+
+export function snapshotAnswer(result: AIResult): AnswerSnapshot {
+  const { title, type, year, notes, confidence, confidence_score, condition_estimate, attributes, field_confidence } = result;
+  return { title, type, year, notes, confidence, confidence_score, condition_estimate, attributes, field_confidence };
+}
+
+/**
+ * Whether an answer goes to the expert: under the threshold and not already
+ * from the expert model
+ */
+export function shouldEscalate(result: AIResult, expert: ExpertEscalation | null | undefined): expert is ExpertEscalation {
+  if (!expert || expert.threshold <= 0) return false;
+  if ((result.confidence_score ?? 0) >= expert.threshold) return false;
+  const answeredBy = result.raw_metadata?.ai_provider;
+  const answeredModel = result.raw_metadata?.ai_model;
+  return !(answeredBy === expert.provider && (!expert.model || answeredModel === expert.model));
+}
+
+// Appended to the prompt for the expert pass
+export function expertReviewPrompt(draft: AIResult): string {
+  return `
+
+A faster model drafted the answer below. Check every field against the photos: keep what is right, correct what is wrong, and fill in what is missing. Answer in the same JSON format with your own confidence values; do not copy the draft's.
+Draft: ${JSON.stringify(snapshotAnswer(draft))}`;
+}
+
+/**
+ * The expert's answer, accepted, with both answers in raw_metadata.answer_history
+ */
+export function acceptExpertAnswer(draft: AIResult, expert: AIResult, threshold: number): AIResult {
+  const history: AnswerHistoryEntry[] = [
+    { role: 'draft', provider: draft.raw_metadata?.ai_provider, model: draft.raw_metadata?.ai_model, accepted: false, answer: snapshotAnswer(draft) },
+    { role: 'expert', provider: expert.raw_metadata?.ai_provider, model: expert.raw_metadata?.ai_model, accepted: true, answer: snapshotAnswer(expert) }
+  ];
+  return {
+    ...expert,
+    raw_metadata: {
+      ...(draft.raw_metadata || {}),
+      ...(expert.raw_metadata || {}),
+      escalation_threshold: threshold,
+      answer_history: history
+    }
+  };
+}
+
+/**
+ * Item fields and history after choosing a different entry of answer_history
+ */
+export function acceptHistoryEntry(
+  raw_metadata: Record<string, any>,
+  index: number
+): { fields: AnswerSnapshot; raw_metadata: Record<string, any> } | null {
+  const history: AnswerHistoryEntry[] | undefined = raw_metadata.answer_history;
+  const chosen = history?.[index];
+  if (!chosen) return null;
+  return {
+    fields: chosen.answer,
+    raw_metadata: {
+      ...raw_metadata,
+      ai_provider: chosen.provider,
+      ai_model: chosen.model,
+      answer_history: history!.map((entry, i) => ({ ...entry, accepted: i === index }))
+    }
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Per-field confidence
+ * Models report a 0-100 confidence for each field they filled in
+ * (`field_confidence`), next to the overall `confidence`. An item whose
+ * overall or any field confidence is under the review threshold (Settings)
+ * is saved as "needs review", which the review filter narrows the batch to,
+ * with the doubtful fields highlighted.
+ */
+
+export type ReviewStatus = 'needs_review' | 'reviewed';
+
+// Field name -> 0-100; attribute fields use their attribute key
+export type FieldConfidence = Record<string, number>;
+
+export const DEFAULT_REVIEW_THRESHOLD = 60;
+
+interface ConfidenceSource {
+  confidence?: string;
+  confidence_score?: number;
+  field_confidence?: FieldConfidence;
+}
+
+/**
+ * Fields reported below the threshold, least confident first
+ */
+export function lowConfidenceFields(item: ConfidenceSource, threshold: number): string[] {
+  return Object.entries(item.field_confidence || {})
+    .filter(([, score]) => score < threshold)
+    .sort(([, a], [, b]) => a - b)
+    .map(([field]) => field);
+}
+
+export function needsReview(item: ConfidenceSource, threshold: number): boolean {
+  if (threshold <= 0) return false;
+  const overall = item.confidence_score ?? parseInt(item.confidence || '', 10);
+  return (!isNaN(overall) && overall < threshold) || lowConfidenceFields(item, threshold).length > 0;
+}
+
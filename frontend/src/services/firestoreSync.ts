@@ -8,9 +8,16 @@ import {
   collection, 
   getDocs,
   deleteDoc,
+  deleteField,
+  updateDoc,
   writeBatch 
 } from 'firebase/firestore';
 import { db, isFirebaseConfigured as checkConfig } from './firebase';
+import { AIKeys, AIProviderSettings } from './aiProviders';
+import { Era } from './era';
+import type { PromptConfigStore } from './promptConfig';
+import type { CategorySelection } from './categoryTemplates';
+import type { RoutingPolicyId } from './routingPolicy';
 
 // Global flag to disable sync if network is blocked (DNS/AdBlock)
 let isOfflineMode = false;
@@ -68,7 +75,10 @@ interface BatchData {
   processed: number;
   failed: number;
   created_at: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'paused' | 'cancelled' | 'completed' | 'failed';
+  category?: CategorySelection;
+  consensus?: number;
+  routing_policy?: RoutingPolicyId;
 }
 
 interface ItemData {
@@ -79,25 +89,38 @@ interface ItemData {
   title: string;
   type: string;
   year: string;
+  era?: Era;
   notes: string;
   confidence: string;
   processed_at: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'skipped';
   image_hash?: string;
   comps_quote?: string;
   condition_estimate?: string;
   raw_metadata?: Record<string, any>;
   developer_notes?: string;
   saved_comps?: string;
-  // Note: image_data is NOT synced to cloud (too large)
+  extra_photos?: Array<{ role: string; filename?: string }>;
+  barcodes?: Array<{ value: string; kind: string; format: string }>;
+  category?: string;
+  attributes?: Record<string, string | number | boolean>;
+  prompt_version?: number;
+  prompt_id?: string;
+  ai_model?: string;
+  field_confidence?: Record<string, number>;
+  review_status?: 'needs_review' | 'reviewed';
+  // Note: image_data is NOT synced to cloud (too large), nor are extra photos' images
 }
 
 interface InventoryData {
   id?: number;
   image_hash: string;
+  phash?: string;
+  dhash?: string;
   title: string;
   type: string;
   year: string;
+  era?: Era;
   notes: string;
   confidence: string;
   first_seen: string;
@@ -111,19 +134,17 @@ interface InventoryData {
 }
 
 export interface UserSettings {
-  apiKeys: {
-    openai?: string;
-    gemini?: string;
-    claude?: string;
-  };
+  apiKeys?: AIKeys; // Plaintext keys synced by older versions; read once, then removed (see clearCloudApiKeys)
+  providerSettings?: AIProviderSettings;
   lastBoxId?: string;
   theme?: 'light' | 'dark';
   dev_notes?: string;
+  promptConfigs?: PromptConfigStore;
 }
 
 // ========== SETTINGS (API KEYS) ==========
 
-export async function saveUserSettings(userId: string, settings: UserSettings): Promise<void> {
+export async function saveUserSettings(userId: string, settings: Partial<UserSettings>): Promise<void> {
   if (!isFirebaseConfigured() || !db) {
     console.warn('Firestore not available, skipping cloud sync');
     return;
@@ -162,6 +183,16 @@ export async function loadUserSettings(userId: string): Promise<UserSettings | n
   }
 }
 
+/**
+ * Remove the plaintext keys older versions synced. Keys now stay on the
+ * device, or are held encrypted by the aiProxy function.
+ */
+export async function clearCloudApiKeys(userId: string): Promise<void> {
+  if (!isFirebaseConfigured() || !db) return;
+  const settingsRef = doc(db, 'users', userId, 'settings', 'preferences');
+  await updateDoc(settingsRef, { apiKeys: deleteField() });
+}
+
 // ========== BATCH SYNC ==========
 
 export async function syncBatchToCloud(userId: string, batch: BatchData): Promise<void> {
@@ -231,11 +262,12 @@ export async function syncItemToCloud(userId: string, item: ItemData): Promise<v
     const itemRef = doc(db, 'users', userId, 'items', itemId);
     
     // Don't sync image_data to cloud (too large)
-    let { image_data, ...itemWithoutImage } = item as any;
+    let { image_data, extra_photos, ...itemWithoutImage } = item as any;
     
     // 🛡️ Data Bomb Defense: Check for Firestore 1MB limit
     let payload = {
       ...itemWithoutImage,
+      ...(extra_photos?.length ? { extra_photos: extra_photos.map(({ role, filename }: any) => ({ role, filename })) } : {}),
       syncedAt: new Date().toISOString()
     };
     
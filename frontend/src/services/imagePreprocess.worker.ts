@@ -0,0 +1,18 @@
+/**
+ * Image preprocessing worker
+ * Keeps decoding and resizing off the main thread during large batches.
+ * Protocol: { id, blob } in, { id, result } or { id, error } out.
+ */
+import { preprocessBlob } from './imagePreprocessCore';
+
+const ctx = globalThis as unknown as Worker;
+
+ctx.onmessage = async (event: MessageEvent<{ id: number; blob: Blob }>) => {
+  const { id, blob } = event.data;
+  try {
+    const result = await preprocessBlob(blob);
+    ctx.postMessage({ id, result });
+  } catch (err: any) {
+    ctx.postMessage({ id, error: err?.message || String(err) });
+  }
+};
@@ -0,0 +1,237 @@
+/**
+ * Image preprocessing core
+ * Decodes an image once and derives everything the pipeline needs from it:
+ * the AI-sized JPEG, the perceptual hash and the thumbnail, all upright
+ * according to the EXIF orientation tag.
+ *
+ * Runs unchanged inside the preprocessing worker (OffscreenCanvas +
+ * createImageBitmap) and on the main thread (canvas element + Image) — so it
+ * must not touch the DOM at import time.
+ */
+import { DHASH_SAMPLE_HEIGHT, DHASH_SAMPLE_WIDTH, PHASH_SAMPLE_SIZE, dHash, pHash } from './perceptualHash';
+
+export interface PreprocessedImage {
+  aiImage: string; // Base64 JPEG (no data: prefix), longest side <= AI_MAX_DIMENSION
+  hash: string; // 16 hex chars, same average hash as the original computeImageHash (exact-match key)
+  phash: string; // 64-bit DCT perceptual hash (near-duplicate search)
+  dhash: string; // 64-bit difference hash (near-duplicate scoring)
+  thumbnail: string; // data:image/jpeg URL, longest side <= THUMBNAIL_SIZE
+  width: number; // Upright dimensions of the original
+  height: number;
+  orientation: number; // EXIF orientation tag (1 = already upright)
+}
+
+export const AI_MAX_DIMENSION = 800;
+export const THUMBNAIL_SIZE = 150;
+const HASH_SIZE = 8;
+
+type AnyCanvas = OffscreenCanvas | HTMLCanvasElement;
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+type DecodedImage = CanvasImageSource & { width: number; height: number; close?: () => void };
+
+interface JpegInfo {
+  orientation: number;
+  width?: number; // Raw (unrotated) pixel dimensions from the SOF marker
+  height?: number;
+}
+
+/**
+ * Read the EXIF orientation and raw dimensions from a JPEG header.
+ * Non-JPEG input (PNG, WebP, ...) reports orientation 1.
+ */
+export function readJpegInfo(buffer: ArrayBuffer): JpegInfo {
+  const view = new DataView(buffer);
+  const info: JpegInfo = { orientation: 1 };
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return info;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xFF) break;
+    const marker = view.getUint8(offset + 1);
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xDA) break; // Start of scan: no more headers
+
+    if (marker === 0xE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 <= view.byteLength) {
+        const entries = view.getUint16(ifd, little);
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (entry + 10 > view.byteLength) break;
+          if (view.getUint16(entry, little) === 0x0112) {
+            const value = view.getUint16(entry + 8, little);
+            if (value >= 1 && value <= 8) info.orientation = value;
+            break;
+          }
+        }
+      }
+    } else if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+      if (offset + 9 <= view.byteLength) {
+        info.height = view.getUint16(offset + 5);
+        info.width = view.getUint16(offset + 7);
+      }
+    }
+    offset += 2 + length;
+  }
+  return info;
+}
+
+/**
+ * Browsers rotate by EXIF on decode nowadays, but not all of them (older
+ * Safari, some WebViews). For the 90° orientations we can tell from the
+ * decoded size whether that happened; for flips/180° we trust the decoder.
+ */
+function needsManualOrientation(info: JpegInfo, decoded: DecodedImage): boolean {
+  if (info.orientation < 5 || !info.width || !info.height || info.width === info.height) return false;
+  return decoded.width === info.width && decoded.height === info.height;
+}
+
+function createCanvas(width: number, height: number): AnyCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function getContext(canvas: AnyCanvas): Context2D {
+  const ctx = (canvas as any).getContext('2d') as Context2D | null;
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  return ctx;
+}
+
+// Transform so that drawing a w x h image at (0, 0) comes out upright
+function applyOrientation(ctx: Context2D, orientation: number, w: number, h: number) {
+  switch (orientation) {
+    case 2: ctx.setTransform(-1, 0, 0, 1, w, 0); break;
+    case 3: ctx.setTransform(-1, 0, 0, -1, w, h); break;
+    case 4: ctx.setTransform(1, 0, 0, -1, 0, h); break;
+    case 5: ctx.setTransform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.setTransform(0, 1, -1, 0, h, 0); break;
+    case 7: ctx.setTransform(0, -1, -1, 0, h, w); break;
+    case 8: ctx.setTransform(0, -1, 1, 0, 0, w); break;
+    default: break;
+  }
+}
+
+// Draw `source` scaled to fit `maxSide`, applying an EXIF orientation transform
+function drawUpright(source: CanvasImageSource, srcWidth: number, srcHeight: number, orientation: number, maxSide: number): AnyCanvas {
+  const scale = Math.min(1, maxSide / Math.max(srcWidth, srcHeight));
+  const w = Math.max(1, Math.round(srcWidth * scale));
+  const h = Math.max(1, Math.round(srcHeight * scale));
+  const swap = orientation >= 5;
+  const canvas = createCanvas(swap ? h : w, swap ? w : h);
+  const ctx = getContext(canvas);
+  applyOrientation(ctx, orientation, w, h);
+  ctx.drawImage(source, 0, 0, w, h);
+  return canvas;
+}
+
+// Whole image squashed to width x height, as row-major grayscale values
+function sampleGrays(source: CanvasImageSource, orientation: number, width: number, height: number): number[] {
+  const ctx = getContext(createCanvas(width, height));
+  // Rotations swap axes, so draw into the transposed box before transforming
+  const swap = orientation >= 5;
+  applyOrientation(ctx, orientation, swap ? height : width, swap ? width : height);
+  ctx.drawImage(source, 0, 0, swap ? height : width, swap ? width : height);
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+
+  const grays: number[] = [];
+  for (let i = 0; i < pixels.length; i += 4) {
+    grays.push(pixels[i] * 0.299 + pixels[i + 1] * 0.587 + pixels[i + 2] * 0.114);
+  }
+  return grays;
+}
+
+// Average hash: 8x8 grayscale, 1 bit per pixel above the mean
+function averageHash(source: CanvasImageSource, orientation: number): string {
+  const grays = sampleGrays(source, orientation, HASH_SIZE, HASH_SIZE);
+  const avg = grays.reduce((a, b) => a + b, 0) / grays.length;
+  const bits = grays.map(gray => (gray >= avg ? '1' : '0')).join('');
+
+  // Convert binary string to hex safely in 32-bit chunks to avoid precision issues
+  const part1 = parseInt(bits.substring(0, 32), 2).toString(16).padStart(8, '0');
+  const part2 = parseInt(bits.substring(32, 64), 2).toString(16).padStart(8, '0');
+  return part1 + part2;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const CHUNK = 0x8000; // Stay under the argument limit of fromCharCode.apply
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + CHUNK)));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBlob(base64: string, type = 'image/jpeg'): Blob {
+  const data = base64.includes('base64,') ? base64.split('base64,')[1] : base64;
+  return new Blob([Uint8Array.from(atob(data), c => c.charCodeAt(0))], { type });
+}
+
+async function toBase64Jpeg(canvas: AnyCanvas, quality: number): Promise<string> {
+  // OffscreenCanvas.convertToBlob is missing from this TypeScript version's DOM types
+  if ('convertToBlob' in canvas) {
+    const blob: Blob = await (canvas as any).convertToBlob({ type: 'image/jpeg', quality });
+    return bytesToBase64(new Uint8Array(await blob.arrayBuffer()));
+  }
+  return (canvas as HTMLCanvasElement).toDataURL('image/jpeg', quality).split(',')[1];
+}
+
+async function decode(blob: Blob): Promise<DecodedImage> {
+  if (typeof createImageBitmap !== 'undefined') {
+    try {
+      return await createImageBitmap(blob);
+    } catch (err) {
+      if (typeof Image === 'undefined') throw new Error('Invalid image data');
+    }
+  }
+  // Main-thread fallback for browsers without createImageBitmap support for this format
+  const url = URL.createObjectURL(blob);
+  try {
+    return await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      // 🛡️ Trojan Horse Defense: Fail fast if it's not a valid image
+      img.onerror = () => reject(new Error('Invalid image data'));
+      img.src = url;
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Decode once, then produce the AI image, hash and thumbnail from that decode
+ */
+export async function preprocessBlob(blob: Blob): Promise<PreprocessedImage> {
+  const info = readJpegInfo(await blob.arrayBuffer());
+  const decoded = await decode(blob);
+  try {
+    const orientation = needsManualOrientation(info, decoded) ? info.orientation : 1;
+    const swap = orientation >= 5;
+
+    const aiCanvas = drawUpright(decoded, decoded.width, decoded.height, orientation, AI_MAX_DIMENSION);
+    const aiImage = await toBase64Jpeg(aiCanvas, 0.8);
+    const hash = averageHash(decoded, orientation);
+    const phash = pHash(sampleGrays(decoded, orientation, PHASH_SAMPLE_SIZE, PHASH_SAMPLE_SIZE));
+    const dhash = dHash(sampleGrays(decoded, orientation, DHASH_SAMPLE_WIDTH, DHASH_SAMPLE_HEIGHT));
+    const thumbCanvas = drawUpright(aiCanvas as CanvasImageSource, aiCanvas.width, aiCanvas.height, 1, THUMBNAIL_SIZE);
+    const thumbnail = `data:image/jpeg;base64,${await toBase64Jpeg(thumbCanvas, 0.7)}`;
+
+    return {
+      aiImage,
+      hash,
+      phash,
+      dhash,
+      thumbnail,
+      width: swap ? decoded.height : decoded.width,
+      height: swap ? decoded.width : decoded.height,
+      orientation: info.orientation
+    };
+  } finally {
+    decoded.close?.();
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Image preprocessing entry point
+ * Sends images to a single shared worker when the browser supports
+ * OffscreenCanvas + createImageBitmap in workers, otherwise runs the same
+ * code on the main thread. Callers don't need to know which path ran.
+ */
+import { PreprocessedImage, base64ToBlob, preprocessBlob } from './imagePreprocessCore';
+
+export type { PreprocessedImage } from './imagePreprocessCore';
+
+interface PendingJob {
+  resolve: (result: PreprocessedImage) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null | undefined; // undefined = not created yet, null = unavailable
+let nextJobId = 0;
+const pendingJobs = new Map<number, PendingJob>();
+
+function disableWorker(reason: string) {
+  console.warn(`Image worker unavailable (${reason}); preprocessing on the main thread`);
+  worker?.terminate();
+  worker = null;
+  pendingJobs.forEach(job => job.reject(new Error(reason)));
+  pendingJobs.clear();
+}
+
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker;
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap === 'undefined') {
+    worker = null;
+    return worker;
+  }
+  try {
+    worker = new Worker(new URL('./imagePreprocess.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<{ id: number; result?: PreprocessedImage; error?: string }>) => {
+      const { id, result, error } = event.data;
+      const job = pendingJobs.get(id);
+      if (!job) return;
+      pendingJobs.delete(id);
+      if (result) job.resolve(result);
+      else job.reject(new Error(error || 'Image preprocessing failed'));
+    };
+    worker.onerror = (event) => disableWorker(event.message || 'worker error');
+  } catch (err: any) {
+    disableWorker(err?.message || 'worker could not start');
+  }
+  return worker;
+}
+
+function runInWorker(activeWorker: Worker, blob: Blob): Promise<PreprocessedImage> {
+  return new Promise((resolve, reject) => {
+    const id = nextJobId++;
+    pendingJobs.set(id, { resolve, reject });
+    activeWorker.postMessage({ id, blob });
+  });
+}
+
+/**
+ * Decode an image once and return the AI-sized JPEG, perceptual hash and
+ * thumbnail. Accepts a File/Blob or base64 (with or without data: prefix).
+ * Rejects with "Invalid image data" when the input isn't a decodable image.
+ */
+export async function preprocessImage(image: Blob | string): Promise<PreprocessedImage> {
+  const blob = typeof image === 'string' ? base64ToBlob(image) : image;
+  const activeWorker = getWorker();
+  if (activeWorker) {
+    try {
+      return await runInWorker(activeWorker, blob);
+    } catch (err) {
+      // Worker crashed, or its decoder rejected a format the main thread may
+      // still handle (e.g. HEIC on Safari) — one more try below
+      console.warn('Worker preprocessing failed, retrying on main thread:', err);
+    }
+  }
+  return preprocessBlob(blob);
+}
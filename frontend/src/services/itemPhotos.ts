@@ -0,0 +1,47 @@
+/**
+ * Multi-photo items
+ * An item's first photo (the front) stays in `image_data`, so everything that
+ * shows or hashes one image keeps working. Further shots of the same object
+ * (back, detail, label) are kept in order in `extra_photos` and sent to the
+ * model together with the front.
+ */
+
+export type PhotoRole = 'front' | 'back' | 'detail' | 'label';
+
+export const PHOTO_ROLES: PhotoRole[] = ['front', 'back', 'detail', 'label'];
+
+export const PHOTO_ROLE_LABELS: Record<PhotoRole, string> = {
+  front: 'Front',
+  back: 'Back',
+  detail: 'Detail',
+  label: 'Label / Mark'
+};
+
+export interface ItemPhoto {
+  role: PhotoRole;
+  image_data: Blob | string; // Blob until processed, then base64 (like items.image_data)
+  filename?: string;
+}
+
+// One shot in a capture or upload group; the group's first photo is the front
+export interface CapturedPhoto {
+  file: File;
+  role: PhotoRole;
+}
+
+// Front first, then the back, then details (the usual order when turning an object over)
+export function defaultPhotoRole(index: number): PhotoRole {
+  if (index === 0) return 'front';
+  return index === 1 ? 'back' : 'detail';
+}
+
+// Tap-to-change order for the role chips
+export function nextPhotoRole(role: PhotoRole): PhotoRole {
+  return PHOTO_ROLES[(PHOTO_ROLES.indexOf(role) + 1) % PHOTO_ROLES.length];
+}
+
+// The photo marked Front leads its group (it becomes the item's image_data)
+export function frontFirst<T extends { role: PhotoRole }>(photos: T[]): T[] {
+  const front = photos.findIndex(photo => photo.role === 'front');
+  return front <= 0 ? photos : [photos[front], ...photos.slice(0, front), ...photos.slice(front + 1)];
+}
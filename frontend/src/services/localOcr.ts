@@ -0,0 +1,60 @@
+/**
+ * In-browser OCR (tesseract.js, WASM)
+ * The last resort when no AI provider answers: whatever is legible on the
+ * item still gives it a title, a year and notes instead of "Unidentified".
+ *
+ * The engine is loaded on first use only (it is a few MB) and kept for the
+ * rest of the session. The worker, core and language files are copied into
+ * public/ocr at build time (scripts/copy-offline-assets.js) and cached by the
+ * service worker, so nothing comes from a CDN; set REACT_APP_OCR_ASSETS_URL to
+ * serve them from another host.
+ */
+import type { Worker as OcrWorker } from 'tesseract.js';
+import { base64ToBlob } from './imagePreprocessCore';
+
+// Title and year heuristics, the same ones the identifyWithVision Cloud Function uses
+export { extractTitleFromText, extractYearFromText } from './textHeuristics';
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // 0-100, tesseract's mean word confidence
+}
+
+const OCR_LANGUAGE = 'eng';
+const OCR_TIMEOUT_MS = 30000; // First run includes loading the engine
+
+let workerPromise: Promise<OcrWorker> | null = null;
+
+function getWorker(): Promise<OcrWorker> {
+  if (!workerPromise) {
+    const assets = process.env.REACT_APP_OCR_ASSETS_URL || `${process.env.PUBLIC_URL}/ocr`;
+    workerPromise = import('tesseract.js')
+      .then(({ createWorker }) => createWorker(OCR_LANGUAGE, undefined, {
+        workerPath: `${assets}/worker.min.js`,
+        corePath: assets,
+        langPath: assets
+      }))
+      .catch(err => {
+        workerPromise = null; // Let the next call try again
+        throw err;
+      });
+  }
+  return workerPromise;
+}
+
+/**
+ * Read the text in an image. Throws if the engine can't load or takes too long.
+ */
+export async function recognizeText(base64Image: string, timeoutMs = OCR_TIMEOUT_MS): Promise<OcrResult> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('Local OCR timed out')), timeoutMs);
+  });
+  try {
+    const worker = await Promise.race([getWorker(), timeout]);
+    const { data } = await Promise.race([worker.recognize(base64ToBlob(base64Image)), timeout]);
+    return { text: data.text.trim(), confidence: Math.round(data.confidence) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
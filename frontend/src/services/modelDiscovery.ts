@@ -0,0 +1,98 @@
+/**
+ * Model discovery
+ * Providers that can list their models are asked once per TTL rather than
+ * before every image: the list is cached per provider and endpoint, shared by
+ * all batch workers (one request in flight at a time), and reduced to models
+ * that can read photos. The provider's known models come first, in their
+ * registry order, so a newly listed model never jumps ahead of a proven one.
+ */
+import { AIProvider, AIProviderSettings, getProvider, resolveEndpoint } from './aiProviders';
+import { isProxied } from './aiProxy';
+
+// How long a discovered list is trusted
+export const MODEL_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+// A failed listing falls back to the known models and is retried after this
+const FAILED_DISCOVERY_RETRY_MS = 5 * 60 * 1000;
+
+interface CachedModels {
+  models: string[];
+  expires_at: number;
+}
+
+const cache = new Map<string, CachedModels>();
+const inFlight = new Map<string, Promise<string[]>>();
+
+// Vision-capable models, known ones first
+function rankModels(provider: AIProvider, discovered: string[]): string[] {
+  const definition = getProvider(provider);
+  const usable = definition.isVisionModel ? discovered.filter(definition.isVisionModel) : discovered;
+  const known = definition.models.filter(model => usable.includes(model));
+  return [...known, ...usable.filter(model => !known.includes(model))];
+}
+
+/**
+ * Models to offer or try for a provider. Falls back to the registry's known
+ * models when the provider can't list them, the listing fails or nothing
+ * usable comes back. `refresh` skips the cache (the Settings refresh button).
+ */
+export async function listProviderModels(
+  provider: AIProvider,
+  apiKey = '',
+  settings: AIProviderSettings = {},
+  { refresh = false, now = Date.now() }: { refresh?: boolean; now?: number } = {}
+): Promise<string[]> {
+  const definition = getProvider(provider);
+  const endpoint = resolveEndpoint(provider, settings);
+  if (!definition.discoverModels || !endpoint) return definition.models;
+
+  const cacheKey = `${provider}|${endpoint}`;
+  const cached = cache.get(cacheKey);
+  if (!refresh && cached && cached.expires_at > now) return cached.models;
+
+  const pending = inFlight.get(cacheKey);
+  if (pending) return pending;
+
+  const discovery = (async () => {
+    try {
+      const models = rankModels(provider, await definition.discoverModels!(apiKey.trim(), endpoint));
+      if (models.length > 0) {
+        cache.set(cacheKey, { models, expires_at: now + MODEL_CACHE_TTL_MS });
+        return models;
+      }
+    } catch (err) {
+      console.warn(`Failed to list ${definition.label} models, using known ones:`, err);
+    }
+    cache.set(cacheKey, { models: definition.models, expires_at: now + FAILED_DISCOVERY_RETRY_MS });
+    return definition.models;
+  })();
+  inFlight.set(cacheKey, discovery);
+  try {
+    return await discovery;
+  } finally {
+    inFlight.delete(cacheKey);
+  }
+}
+
+/**
+ * Drop a model the provider no longer serves (HTTP 404) from the cached list,
+ * so later images don't spend a request on it until the next discovery
+ */
+export function markModelUnavailable(provider: AIProvider, settings: AIProviderSettings, model: string) {
+  const cacheKey = `${provider}|${resolveEndpoint(provider, settings)}`;
+  const cached = cache.get(cacheKey);
+  if (!cached) return;
+  const models = cached.models.filter(m => m !== model);
+  if (models.length > 0) cache.set(cacheKey, { ...cached, models });
+}
+
+/**
+ * Models tried for one request: the pinned one, else the discovered list for
+ * providers that auto-discover, else the known models. Providers called
+ * through the proxy have no key here to list models with.
+ */
+export async function modelsToTry(provider: AIProvider, apiKey: string, settings: AIProviderSettings): Promise<string[]> {
+  const pinned = settings[provider]?.model;
+  if (pinned) return [pinned];
+  const definition = getProvider(provider);
+  return definition.autoDiscover && !isProxied(provider, settings) ? listProviderModels(provider, apiKey, settings) : definition.models;
+}
@@ -0,0 +1,82 @@
+/**
+ * Near-duplicate lookup over the inventory
+ * Exact hash matches are handled by the by-hash index; this catches the same
+ * item re-photographed (different angle, light or crop) by searching pHashes
+ * within a Hamming radius, then scoring hits with pHash + dHash together.
+ *
+ * The BK-tree is built from IndexedDB once per batch run and kept in step
+ * with the rows that run adds, so deletions elsewhere never leave it stale
+ * for long.
+ */
+import { getInventoryPerceptualHashes } from './db';
+import { BKTree, hammingDistance } from './perceptualHash';
+
+export interface NearDuplicateCandidate {
+  inventory_id: number;
+  title: string;
+  score: number; // 0-1, 1 = every bit of both hashes matches
+  phash_distance: number; // Differing bits out of 64
+  dhash_distance?: number;
+}
+
+export interface PerceptualHashes {
+  phash?: string;
+  dhash?: string;
+}
+
+// ~15% of 64 bits: re-shoots of the same object land well inside this,
+// different objects of the same kind (two baseball cards) mostly outside
+export const NEAR_DUPLICATE_MAX_DISTANCE = 10;
+const MAX_CANDIDATES = 3;
+const HASH_BITS = 64;
+
+interface IndexedEntry {
+  id: number;
+  title: string;
+  dhash?: string;
+}
+
+export class NearDuplicateIndex {
+  private tree = new BKTree<IndexedEntry>();
+
+  static async load(): Promise<NearDuplicateIndex> {
+    const index = new NearDuplicateIndex();
+    const rows = await getInventoryPerceptualHashes();
+    rows.forEach(row => index.add(row.id!, row.title, row));
+    return index;
+  }
+
+  get size(): number {
+    return this.tree.size;
+  }
+
+  add(id: number, title: string, hashes: PerceptualHashes) {
+    if (hashes.phash) this.tree.add(hashes.phash, { id, title, dhash: hashes.dhash });
+  }
+
+  /**
+   * Best few inventory entries that look like the same item, highest score first
+   */
+  find(hashes: PerceptualHashes, options: { maxDistance?: number; excludeId?: number } = {}): NearDuplicateCandidate[] {
+    if (!hashes.phash) return [];
+    const { maxDistance = NEAR_DUPLICATE_MAX_DISTANCE, excludeId } = options;
+
+    return this.tree.search(hashes.phash, maxDistance)
+      .filter(({ value }) => value.id !== excludeId)
+      .map(({ value, distance }) => {
+        const dDistance = hashes.dhash && value.dhash ? hammingDistance(hashes.dhash, value.dhash) : Infinity;
+        const score = dDistance === Infinity
+          ? 1 - distance / HASH_BITS
+          : 1 - (distance + dDistance) / (HASH_BITS * 2);
+        return {
+          inventory_id: value.id,
+          title: value.title,
+          score: Math.round(score * 100) / 100,
+          phash_distance: distance,
+          ...(dDistance === Infinity ? {} : { dhash_distance: dDistance })
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_CANDIDATES);
+  }
+}
@@ -0,0 +1,26 @@
+// Helper for Network Resilience
+export async function fetchWithTimeout(resource: RequestInfo, options: RequestInit = {}, timeout = 15000) {
+  const controller = new AbortController();
+  const id = setTimeout(() => controller.abort(), timeout);
+  // The caller's own signal (e.g. a time limit over several requests) aborts it too
+  options.signal?.addEventListener('abort', () => controller.abort());
+  try {
+    const response = await fetch(resource, {
+      ...options,
+      signal: controller.signal
+    });
+    clearTimeout(id);
+    return response;
+  } catch (error: any) {
+    clearTimeout(id);
+    if (error.name === 'AbortError') {
+      throw new Error('Network timeout: The request took too long. Check your internet connection or DNS settings.');
+    }
+    throw error;
+  }
+}
+
+// What fetch rejects with when its signal fires, for requests that don't go through fetch
+export function abortError(message = 'The request was aborted'): DOMException {
+  return new DOMException(message, 'AbortError');
+}
@@ -0,0 +1,167 @@
+/**
+ * Perceptual hashes and Hamming-distance search
+ * Pure functions over grayscale samples, so they run in the preprocessing
+ * worker, on the main thread and in Node alike.
+ *
+ * - dHash: 9x8 samples, one bit per horizontal gradient (robust to lighting)
+ * - pHash: 32x32 samples → DCT → 8x8 low frequencies vs their median
+ *   (robust to re-photographing, scaling and mild crops)
+ * Both are 64 bits, stored as 16 hex characters.
+ */
+
+export const PHASH_SAMPLE_SIZE = 32;
+export const DHASH_SAMPLE_WIDTH = 9;
+export const DHASH_SAMPLE_HEIGHT = 8;
+const PHASH_LOW_FREQ = 8;
+
+// Pack a bit string into hex, 4 bits per character
+function bitsToHex(bits: string): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += parseInt(bits.substring(i, i + 4), 2).toString(16);
+  }
+  return hex;
+}
+
+/**
+ * Difference hash from a 9x8 row-major grayscale grid
+ */
+export function dHash(grays: ArrayLike<number>): string {
+  let bits = '';
+  for (let y = 0; y < DHASH_SAMPLE_HEIGHT; y++) {
+    for (let x = 0; x < DHASH_SAMPLE_WIDTH - 1; x++) {
+      const i = y * DHASH_SAMPLE_WIDTH + x;
+      bits += grays[i] < grays[i + 1] ? '1' : '0';
+    }
+  }
+  return bitsToHex(bits);
+}
+
+let cosTable: number[][] | null = null;
+
+// cos((2x + 1) * u * PI / 2N), shared by every pHash call
+function getCosTable(): number[][] {
+  if (cosTable) return cosTable;
+  const n = PHASH_SAMPLE_SIZE;
+  cosTable = [];
+  for (let u = 0; u < PHASH_LOW_FREQ; u++) {
+    const row: number[] = [];
+    for (let x = 0; x < n; x++) row.push(Math.cos(((2 * x + 1) * u * Math.PI) / (2 * n)));
+    cosTable.push(row);
+  }
+  return cosTable;
+}
+
+/**
+ * DCT perceptual hash from a 32x32 row-major grayscale grid
+ */
+export function pHash(grays: ArrayLike<number>): string {
+  const n = PHASH_SAMPLE_SIZE;
+  const k = PHASH_LOW_FREQ;
+  const cos = getCosTable();
+
+  // Separable 2D DCT-II, only the k x k low-frequency corner is needed
+  const rows: number[][] = [];
+  for (let y = 0; y < n; y++) {
+    const row: number[] = [];
+    for (let u = 0; u < k; u++) {
+      let sum = 0;
+      for (let x = 0; x < n; x++) sum += grays[y * n + x] * cos[u][x];
+      row.push(sum);
+    }
+    rows.push(row);
+  }
+  const coefficients: number[] = [];
+  for (let v = 0; v < k; v++) {
+    for (let u = 0; u < k; u++) {
+      let sum = 0;
+      for (let y = 0; y < n; y++) sum += rows[y][u] * cos[v][y];
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term only reflects overall brightness, so keep it out of the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  return bitsToHex(coefficients.map(c => (c > median ? '1' : '0')).join(''));
+}
+
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+/**
+ * Number of differing bits between two hex hashes of equal length.
+ * Returns Infinity when the hashes can't be compared.
+ */
+export function hammingDistance(hash1: string, hash2: string): number {
+  if (!hash1 || !hash2 || hash1.length !== hash2.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < hash1.length; i++) {
+    const a = parseInt(hash1[i], 16);
+    const b = parseInt(hash2[i], 16);
+    if (isNaN(a) || isNaN(b)) return Infinity;
+    distance += NIBBLE_BITS[a ^ b];
+  }
+  return distance;
+}
+
+interface BKNode<T> {
+  hash: string;
+  values: T[];
+  children: Map<number, BKNode<T>>;
+}
+
+/**
+ * BK-tree keyed by Hamming distance: finds every hash within `maxDistance`
+ * of a query without comparing against the whole collection.
+ */
+export class BKTree<T> {
+  private root: BKNode<T> | null = null;
+  private count = 0;
+
+  get size(): number {
+    return this.count;
+  }
+
+  add(hash: string, value: T) {
+    if (!this.root) {
+      this.root = { hash, values: [value], children: new Map() };
+      this.count++;
+      return;
+    }
+    let node = this.root;
+    for (;;) {
+      const distance = hammingDistance(hash, node.hash);
+      if (distance === Infinity) return; // Malformed hash: not searchable
+      if (distance === 0) {
+        node.values.push(value);
+        break;
+      }
+      const child = node.children.get(distance);
+      if (!child) {
+        node.children.set(distance, { hash, values: [value], children: new Map() });
+        break;
+      }
+      node = child;
+    }
+    this.count++;
+  }
+
+  search(hash: string, maxDistance: number): Array<{ value: T; distance: number }> {
+    const results: Array<{ value: T; distance: number }> = [];
+    const stack = this.root ? [this.root] : [];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      const distance = hammingDistance(hash, node.hash);
+      if (distance === Infinity) continue;
+      if (distance <= maxDistance) {
+        node.values.forEach(value => results.push({ value, distance }));
+      }
+      // Triangle inequality: only subtrees within [d - max, d + max] can match
+      node.children.forEach((child, edge) => {
+        if (edge >= distance - maxDistance && edge <= distance + maxDistance) stack.push(child);
+      });
+    }
+    return results.sort((a, b) => a.distance - b.distance);
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Upload auto-grouping
+ * Proposes which uploaded photos show the same object (front and back shot
+ * seconds apart) so they become one multi-photo item. Only a proposal: the
+ * user splits/merges groups in PhotoGroupReview before anything is processed.
+ *
+ * Neighbouring photos (in shooting order) are joined when enough of these
+ * agree:
+ * - EXIF dateTaken close together (strongest signal, either way)
+ * - consecutive filename numbers (IMG_1041, IMG_1042)
+ * - similar pHash (detail shots / re-takes of the same side)
+ */
+import { preprocessImage } from './imagePreprocessor';
+import { CapturedPhoto, defaultPhotoRole } from './itemPhotos';
+import { extractPhotoMetadata } from './metadataService';
+import { hammingDistance } from './perceptualHash';
+import { drainQueue } from './workerPool';
+
+export interface GroupablePhoto {
+  file: File;
+  takenAt?: number; // ms since epoch, from EXIF
+  sequence?: { prefix: string; number: number }; // From the filename
+  phash?: string;
+}
+
+export interface PhotoGroupingOptions {
+  closeSeconds?: number; // Shots this close are likely the same object
+  farSeconds?: number; // Shots this far apart are likely different objects
+  maxHashDistance?: number; // pHash bits; below this the photos look alike
+  maxGroupSize?: number;
+}
+
+const DEFAULT_OPTIONS: Required<PhotoGroupingOptions> = {
+  closeSeconds: 20,
+  farSeconds: 120,
+  maxHashDistance: 20,
+  maxGroupSize: 4 // Front, back, detail, label
+};
+
+// Points needed to join two neighbours; no single weak signal is enough
+const JOIN_SCORE = 2;
+const DESCRIBE_CONCURRENCY = 2;
+
+function parseSequence(filename: string): GroupablePhoto['sequence'] {
+  const match = filename.match(/^(.*?)(\d+)(\.[^.]*)?$/);
+  return match ? { prefix: match[1].toLowerCase(), number: parseInt(match[2], 10) } : undefined;
+}
+
+/**
+ * Read the grouping signals for each file (EXIF date, filename number, pHash)
+ */
+export async function describePhotos(files: File[], onProgress?: (done: number, total: number) => void): Promise<GroupablePhoto[]> {
+  const described: GroupablePhoto[] = files.map(file => ({ file, sequence: parseSequence(file.name) }));
+  let done = 0;
+  await drainQueue([...described], DESCRIBE_CONCURRENCY, async photo => {
+    const metadata = await extractPhotoMetadata(photo.file);
+    const takenAt = metadata.dateTaken ? Date.parse(metadata.dateTaken) : NaN;
+    if (!isNaN(takenAt)) photo.takenAt = takenAt;
+    try {
+      photo.phash = (await preprocessImage(photo.file)).phash;
+    } catch (err) {
+      console.warn(`Could not hash ${photo.file.name} for grouping:`, err);
+    }
+    onProgress?.(++done, files.length);
+  });
+  return described;
+}
+
+function joinScore(a: GroupablePhoto, b: GroupablePhoto, options: Required<PhotoGroupingOptions>): number {
+  let score = 0;
+  if (a.takenAt !== undefined && b.takenAt !== undefined) {
+    const gap = Math.abs(b.takenAt - a.takenAt) / 1000;
+    if (gap <= options.closeSeconds) score += 2;
+    else if (gap > options.farSeconds) score -= 2;
+  }
+  if (a.sequence && b.sequence && a.sequence.prefix === b.sequence.prefix) {
+    const step = Math.abs(b.sequence.number - a.sequence.number);
+    if (step === 1) score += 1;
+    else if (step > 3) score -= 1;
+  }
+  if (a.phash && b.phash && hammingDistance(a.phash, b.phash) <= options.maxHashDistance) score += 1;
+  return score;
+}
+
+/**
+ * Group photos in shooting order. Each group's first photo is the front.
+ */
+export function proposeGroups(photos: GroupablePhoto[], options: PhotoGroupingOptions = {}): CapturedPhoto[][] {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const byName = (a: GroupablePhoto, b: GroupablePhoto) => a.file.name.localeCompare(b.file.name, undefined, { numeric: true });
+  // Shooting order: EXIF time when every photo has one, otherwise filename
+  const ordered = [...photos].sort(photos.every(p => p.takenAt !== undefined)
+    ? (a, b) => (a.takenAt! - b.takenAt!) || byName(a, b)
+    : byName);
+
+  const groups: GroupablePhoto[][] = [];
+  for (const photo of ordered) {
+    const current = groups[groups.length - 1];
+    const previous = current?.[current.length - 1];
+    if (current && current.length < settings.maxGroupSize && joinScore(previous, photo, settings) >= JOIN_SCORE) {
+      current.push(photo);
+    } else {
+      groups.push([photo]);
+    }
+  }
+  return groups.map(group => group.map((photo, index) => ({ file: photo.file, role: defaultPhotoRole(index) })));
+}
+
+/**
+ * describePhotos + proposeGroups
+ */
+export async function proposePhotoGroups(
+  files: File[],
+  onProgress?: (done: number, total: number) => void,
+  options?: PhotoGroupingOptions
+): Promise<CapturedPhoto[][]> {
+  return proposeGroups(await describePhotos(files, onProgress), options);
+}
@@ -0,0 +1,37 @@
+import { PromptConfig, PromptConfigStore, addPromptVersion, mergePromptConfigs, promptConfigId, promptVersionOf } from './promptConfig';
+
+const config = (version: number, prompt: string, created_at: string): PromptConfig =>
+  ({ version, prompt, fields: [], created_at });
+
+describe('mergePromptConfigs', () => {
+  test('keeps versions from both sides', () => {
+    const shared = config(1, 'Return JSON', '2024-05-01T10:00:00Z');
+    const local: PromptConfigStore = { active_version: 1, versions: [shared] };
+    const cloud: PromptConfigStore = { active_version: 2, versions: [shared, config(2, 'Return JSON, briefly', '2024-05-02T10:00:00Z')] };
+
+    expect(mergePromptConfigs(local, cloud)).toEqual({ active_version: 2, versions: cloud.versions });
+  });
+
+  test('renumbers the local copy when both devices saved the same version', () => {
+    const laptop = config(1, 'Return JSON with the maker', '2024-05-01T10:00:00Z');
+    const phone = config(1, 'Return JSON with the price', '2024-05-01T11:00:00Z');
+
+    const merged = mergePromptConfigs({ active_version: 1, versions: [laptop] }, { active_version: 0, versions: [phone] });
+
+    expect(merged.versions).toEqual([phone, { ...laptop, version: 2 }]);
+    // The cloud's active version wins; when it is missing, the local choice follows its new number
+    expect(merged.active_version).toBe(0);
+    expect(mergePromptConfigs({ active_version: 1, versions: [laptop] }, { active_version: 5, versions: [phone] }).active_version).toBe(2);
+  });
+
+  test('items still find their prompt after it is renumbered', () => {
+    const laptop = addPromptVersion({ active_version: 0, versions: [] }, { prompt: 'Return JSON with the maker', fields: [] });
+    const phone = addPromptVersion({ active_version: 0, versions: [] }, { prompt: 'Return JSON with the price', fields: [] });
+    const item = { prompt_version: 1, prompt_id: promptConfigId(laptop.versions[0]) };
+
+    const merged = mergePromptConfigs(laptop, phone);
+
+    expect(promptVersionOf(merged, item)).toBe(2);
+    expect(promptVersionOf(merged, { prompt_version: 1 })).toBe(1); // Stamped before ids existed
+  });
+});
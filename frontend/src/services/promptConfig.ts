@@ -0,0 +1,142 @@
+/**
+ * Identification prompt configuration
+ * The prompt sent to every provider and any custom output fields (stored as
+ * typed `attributes`, like a category's fields) are editable in Settings.
+ * Each save is a new numbered version; items record the version that
+ * identified them (`prompt_version`, and `prompt_id`, which stays right when
+ * a sync renumbers the version), and older versions can be made active
+ * again. Version 0 is the built-in prompt.
+ *
+ * Configurations live in localStorage and sync through saveUserSettings.
+ */
+import { AttributeField } from './categoryTemplates';
+
+export const DEFAULT_PROMPT = `Identify this vintage object. Return ONLY a JSON object with:
+"title" (brief name),
+"type" (document, photo, postcard, book, toy, card, etc.),
+"year" (estimate, e.g. "c. 1920s"),
+"notes" (1-2 sentences context),
+"confidence" (percentage 0-100%),
+"condition_estimate" (brief mention of visible wear),
+"raw_metadata" (an object with extra context like publisher, material, dimensions estimate, or specific markings if visible).
+Be accurate as a cataloging expert. Provide deep context in raw_metadata if possible.`;
+
+export interface PromptConfig {
+  id?: string; // Unique across devices; saved before ids existed, created_at stands in (promptConfigId)
+  version: number;
+  prompt: string;
+  fields: AttributeField[]; // Custom output fields, asked for after the prompt
+  note?: string; // What changed, shown in the version list
+  created_at: string;
+}
+
+export interface PromptConfigStore {
+  active_version: number;
+  versions: PromptConfig[]; // Oldest first; version 0 is implicit
+}
+
+export type PromptConfigDraft = Pick<PromptConfig, 'prompt' | 'fields' | 'note'>;
+
+export const DEFAULT_PROMPT_CONFIG: PromptConfig = {
+  id: 'builtin',
+  version: 0,
+  prompt: DEFAULT_PROMPT,
+  fields: [],
+  note: 'Built-in prompt',
+  created_at: ''
+};
+
+export const EMPTY_PROMPT_STORE: PromptConfigStore = { active_version: 0, versions: [] };
+
+// Older versions beyond this are dropped (items keep their version number)
+const MAX_VERSIONS = 20;
+
+// Base answer fields; a custom field can't shadow them
+const RESERVED_KEYS = ['title', 'type', 'year', 'notes', 'confidence', 'condition_estimate', 'raw_metadata', 'attributes'];
+
+export function activePromptConfig(store: PromptConfigStore): PromptConfig {
+  return store.versions.find(config => config.version === store.active_version) || DEFAULT_PROMPT_CONFIG;
+}
+
+export function listPromptVersions(store: PromptConfigStore): PromptConfig[] {
+  return [DEFAULT_PROMPT_CONFIG, ...store.versions];
+}
+
+// What items record; unsaved drafts (Settings preview) have none
+export function promptConfigId(config: PromptConfig): string | undefined {
+  return config.id || config.created_at || undefined;
+}
+
+/**
+ * Version number an item's prompt has now: looked up by id, since a sync may
+ * have renumbered it, else the number stamped on the item
+ */
+export function promptVersionOf(store: PromptConfigStore, item: { prompt_id?: string; prompt_version?: number }): number | undefined {
+  const config = item.prompt_id ? listPromptVersions(store).find(c => promptConfigId(c) === item.prompt_id) : undefined;
+  return config ? config.version : item.prompt_version;
+}
+
+// "Cover Price" -> "cover_price"
+export function fieldKeyFromLabel(label: string): string {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').replace(/^(\d)/, '_$1');
+}
+
+/**
+ * What's wrong with a draft, or null if it can be saved
+ */
+export function validatePromptDraft(draft: PromptConfigDraft): string | null {
+  if (!draft.prompt.trim()) return 'The prompt is empty';
+  if (!/json/i.test(draft.prompt)) return 'The prompt must ask for a JSON answer';
+  const keys = new Set<string>();
+  for (const field of draft.fields) {
+    if (!/^[a-z_][a-z0-9_]*$/.test(field.key)) return `"${field.label || field.key}" needs a name made of letters, digits and _`;
+    if (RESERVED_KEYS.includes(field.key)) return `"${field.key}" is a built-in field`;
+    if (keys.has(field.key)) return `"${field.key}" is listed twice`;
+    if (field.type === 'select' && !field.options?.length) return `"${field.label}" needs at least one option`;
+    keys.add(field.key);
+  }
+  return null;
+}
+
+/**
+ * Save a draft as the next version and make it active
+ */
+export function addPromptVersion(store: PromptConfigStore, draft: PromptConfigDraft): PromptConfigStore {
+  const version = Math.max(0, ...store.versions.map(config => config.version)) + 1;
+  const config: PromptConfig = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+    version,
+    prompt: draft.prompt,
+    fields: draft.fields.map(field => ({ ...field, options: field.type === 'select' ? field.options : undefined })),
+    ...(draft.note?.trim() ? { note: draft.note.trim() } : {}),
+    created_at: new Date().toISOString()
+  };
+  return { active_version: version, versions: [...store.versions, config].slice(-MAX_VERSIONS) };
+}
+
+/**
+ * Union of both stores' versions; the cloud's active version is used when it
+ * exists. Two devices saving the same version number is a conflict, not an
+ * update: the cloud copy keeps the number and the local one is renumbered
+ * after the highest version, so neither is lost. Items find their prompt by
+ * id (promptVersionOf), so renumbering doesn't change their provenance.
+ */
+export function mergePromptConfigs(local: PromptConfigStore, cloud: PromptConfigStore): PromptConfigStore {
+  const byVersion = new Map<number, PromptConfig>();
+  for (const config of cloud.versions || []) byVersion.set(config.version, config);
+  let nextVersion = Math.max(0, ...local.versions.map(config => config.version), ...Array.from(byVersion.keys())) + 1;
+  let localActive = local.active_version;
+  for (const config of local.versions) {
+    const existing = byVersion.get(config.version);
+    if (!existing) {
+      byVersion.set(config.version, config);
+    } else if (promptConfigId(existing) !== promptConfigId(config)) {
+      if (config.version === local.active_version) localActive = nextVersion;
+      byVersion.set(nextVersion, { ...config, version: nextVersion });
+      nextVersion++;
+    }
+  }
+  const versions = Array.from(byVersion.values()).sort((a, b) => a.version - b.version).slice(-MAX_VERSIONS);
+  const active = [cloud.active_version, localActive].find(v => v === 0 || versions.some(c => c.version === v));
+  return { active_version: active ?? 0, versions };
+}
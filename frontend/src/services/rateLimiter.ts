@@ -0,0 +1,113 @@
+/**
+ * Per-provider rate limiting
+ * A token bucket per provider caps requests/minute (configured in Settings);
+ * HTTP 429 responses drain the bucket so every worker backs off together.
+ */
+import { AIProvider } from './aiProviders';
+
+const DEFAULT_REQUESTS_PER_MINUTE = 15;
+const MAX_RETRY_AFTER_MS = 30000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private blockedUntil = 0;
+
+  constructor(private requestsPerMinute: number) {
+    this.tokens = requestsPerMinute;
+  }
+
+  setRate(requestsPerMinute: number) {
+    this.requestsPerMinute = requestsPerMinute;
+    this.tokens = Math.min(this.tokens, requestsPerMinute);
+  }
+
+  private refill() {
+    const now = Date.now();
+    const perMs = this.requestsPerMinute / 60000;
+    this.tokens = Math.min(this.requestsPerMinute, this.tokens + (now - this.lastRefill) * perMs);
+    this.lastRefill = now;
+  }
+
+  // Milliseconds until a token is available (0 = take it now)
+  private waitTime(): number {
+    const now = Date.now();
+    if (now < this.blockedUntil) return this.blockedUntil - now;
+    this.refill();
+    if (this.tokens >= 1) return 0;
+    return Math.ceil((1 - this.tokens) / (this.requestsPerMinute / 60000));
+  }
+
+  async take(): Promise<void> {
+    for (let wait = this.waitTime(); wait > 0; wait = this.waitTime()) {
+      await sleep(wait);
+    }
+    this.tokens -= 1;
+  }
+
+  // Server said slow down: empty the bucket and pause everyone until retryAfter passes
+  block(ms: number) {
+    this.tokens = 0;
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+  }
+}
+
+const buckets = new Map<AIProvider, TokenBucket>();
+const configuredRates: Partial<Record<AIProvider, number>> = {};
+
+const bucketFor = (provider: AIProvider): TokenBucket => {
+  let bucket = buckets.get(provider);
+  if (!bucket) {
+    bucket = new TokenBucket(configuredRates[provider] || DEFAULT_REQUESTS_PER_MINUTE);
+    buckets.set(provider, bucket);
+  }
+  return bucket;
+};
+
+/**
+ * Apply requests/minute limits from Settings (missing entries use the default)
+ */
+export function configureRateLimits(limits: Partial<Record<AIProvider, number | undefined>>) {
+  Object.entries(limits).forEach(([provider, rpm]) => {
+    if (!rpm || rpm <= 0) return;
+    configuredRates[provider as AIProvider] = rpm;
+    buckets.get(provider as AIProvider)?.setRate(rpm);
+  });
+}
+
+/**
+ * Wait until the provider's bucket allows another request
+ */
+export async function acquireSlot(provider: AIProvider): Promise<void> {
+  await bucketFor(provider).take();
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds.
+ * Falls back to exponential backoff when the header is missing.
+ */
+export function parseRetryAfter(header: string | null, attempt = 0): number {
+  let ms = Math.min(MAX_RETRY_AFTER_MS, 2000 * Math.pow(2, attempt));
+  if (header) {
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+      ms = seconds * 1000;
+    } else {
+      const date = Date.parse(header);
+      if (!isNaN(date)) ms = date - Date.now();
+    }
+  }
+  return Math.min(MAX_RETRY_AFTER_MS, Math.max(0, ms));
+}
+
+/**
+ * Record a 429 for a provider and return how long to wait before retrying
+ */
+export function reportRateLimited(provider: AIProvider, retryAfterHeader: string | null, attempt = 0): number {
+  const waitMs = parseRetryAfter(retryAfterHeader, attempt);
+  console.warn(`⏳ ${provider} rate limited (429). Backing off ${Math.round(waitMs / 1000)}s`);
+  bucketFor(provider).block(waitMs);
+  return waitMs;
+}
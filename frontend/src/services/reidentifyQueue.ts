@@ -0,0 +1,123 @@
+/**
+ * Re-identify queue
+ * Items saved from a fallback answer (no AI provider responded, see
+ * generateLocalFallback / the OCR fallback in aiService.ts) are queued here
+ * and re-run through the pipeline later, once the app is online again or an
+ * AI key has been added.
+ *
+ * The pipeline keeps the queue current: a fallback answer queues the item
+ * (or counts another attempt), a real answer removes it. Entries wait longer
+ * after each attempt that still fell back, unless the configured keys changed.
+ */
+import {
+  getItem,
+  getReidentifyCount,
+  getReidentifyEntry,
+  getReidentifyQueue,
+  putReidentifyEntry,
+  removeReidentifyEntry,
+  ItemRecord,
+  ReidentifyEntry
+} from './db';
+import type { BatchPipeline, PipelineImage } from './batchPipeline';
+import { AIKeys, AIProviderSettings, PROVIDER_IDS, getProvider } from './aiProviders';
+import { isProxied } from './aiProxy';
+
+export type { ReidentifyEntry } from './db';
+
+// Wait before retrying: 5 min, doubling per failed attempt, at most 6 h
+const BASE_RETRY_DELAY_MS = 5 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+export interface ReidentifySummary {
+  attempted: number;
+  identified: number; // Now have a real answer
+  remaining: number; // Still in the queue
+}
+
+/**
+ * Queue or dequeue a freshly saved item depending on whether its answer
+ * was a fallback
+ */
+export async function trackIdentification(item: ItemRecord): Promise<void> {
+  if (item.id === undefined) return;
+  const fallbackMode = item.raw_metadata?.fallback_mode;
+  if (!fallbackMode) {
+    await removeReidentifyEntry(item.id);
+    return;
+  }
+  const now = new Date().toISOString();
+  const existing = await getReidentifyEntry(item.id);
+  await putReidentifyEntry({
+    item_id: item.id,
+    batch_id: item.batch_id,
+    reason: String(fallbackMode),
+    queued_at: existing?.queued_at || now,
+    attempts: existing ? existing.attempts + 1 : 0,
+    last_attempt_at: existing?.last_attempt_at,
+    keys_fingerprint: existing?.keys_fingerprint,
+    last_error: item.raw_metadata?.error_details
+  });
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)));
+}
+
+/**
+ * Short digest of the usable AI keys/endpoints/proxied providers (the keys
+ * themselves are not stored), so adding or changing one makes every entry due again
+ */
+export function keysFingerprint(keys: AIKeys, providerSettings: AIProviderSettings): string {
+  const usable = PROVIDER_IDS
+    .filter(id => (keys[id] || '').trim() || (getProvider(id).keyOptional && providerSettings[id]?.baseUrl) || isProxied(id, providerSettings))
+    .map(id => `${id}=${isProxied(id, providerSettings) ? 'proxy' : (keys[id] || '').trim()}@${providerSettings[id]?.baseUrl || ''}`)
+    .join('|');
+  let hash = 5381;
+  for (let i = 0; i < usable.length; i++) hash = ((hash << 5) + hash + usable.charCodeAt(i)) | 0;
+  return usable ? (hash >>> 0).toString(16) : '';
+}
+
+// New keys are worth a try straight away; otherwise back off
+export function isDue(entry: ReidentifyEntry, keysFingerprint: string, now = Date.now()): boolean {
+  if (!entry.last_attempt_at) return true;
+  if (entry.keys_fingerprint !== keysFingerprint) return true;
+  return now - Date.parse(entry.last_attempt_at) >= retryDelay(entry.attempts);
+}
+
+/**
+ * Re-run every due entry through the pipeline (skipDedupe, updating the
+ * stored item in place). `keysFingerprint` identifies the AI keys configured
+ * now (see isDue); `force` ignores the back-off. Entries whose item has been
+ * deleted are dropped.
+ */
+export async function runReidentifyQueue(
+  pipeline: BatchPipeline,
+  keysFingerprint: string,
+  options: { concurrency?: number; signal?: AbortSignal; force?: boolean } = {}
+): Promise<ReidentifySummary> {
+  const { force, ...runOptions } = options;
+  const images: PipelineImage[] = [];
+  for (const entry of await getReidentifyQueue()) {
+    if (!force && !isDue(entry, keysFingerprint)) continue;
+    const record = await getItem(entry.item_id);
+    if (!record) {
+      await removeReidentifyEntry(entry.item_id);
+      continue;
+    }
+    await putReidentifyEntry({ ...entry, keys_fingerprint: keysFingerprint, last_attempt_at: new Date().toISOString() });
+    images.push({ id: entry.item_id, filename: record.filename, record });
+  }
+  if (images.length === 0) return { attempted: 0, identified: 0, remaining: await getReidentifyCount() };
+
+  let identified = 0;
+  const unsubscribe = pipeline.subscribe(event => {
+    if (event.type === 'item-saved' && !event.item.raw_metadata?.fallback_mode) identified++;
+  });
+  try {
+    await pipeline.run(images, { ...runOptions, skipDedupe: true });
+  } finally {
+    unsubscribe();
+  }
+  return { attempted: images.length, identified, remaining: await getReidentifyCount() };
+}
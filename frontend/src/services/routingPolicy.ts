@@ -0,0 +1,168 @@
+/**
+ * Provider routing
+ * Instead of always trying providers in the fixed Settings order, a batch can
+ * pick a routing policy that orders them per item from what the usage ledger
+ * (usageLedger.ts) has observed: cost per answered call, latency and failure
+ * rate over the last few days, and how much of the monthly budget is left.
+ * A policy can also escalate: while the answer's confidence is under its
+ * threshold, analyzeImage carries on to the next provider on the route and
+ * keeps the most confident answer.
+ *
+ * The decision (route and reason) is stored with the item in
+ * raw_metadata.routing.
+ */
+import { AIProvider, getProvider } from './aiProviders';
+import { getAICalls } from './db';
+
+export type RoutingPolicyId = 'priority' | 'cheapest' | 'fastest' | 'reliable' | 'budget';
+
+export interface RoutingPolicy {
+  label: string;
+  description: string;
+  escalateBelow?: number; // Confidence (0-100) under which the next provider is asked too
+}
+
+export const ROUTING_POLICIES: Record<RoutingPolicyId, RoutingPolicy> = {
+  priority: {
+    label: 'Settings order',
+    description: 'Providers in the order configured in Settings'
+  },
+  cheapest: {
+    label: 'Cheapest first',
+    description: 'Lowest cost per answer first; a stronger model is asked when confidence is under 60%',
+    escalateBelow: 60
+  },
+  fastest: {
+    label: 'Fastest first',
+    description: 'Lowest observed response time first'
+  },
+  reliable: {
+    label: 'Most reliable first',
+    description: 'Lowest observed failure rate first'
+  },
+  budget: {
+    label: 'Budget-aware',
+    description: 'Settings order while plenty of the monthly budget is left, cheapest first once it runs low'
+  }
+};
+
+export const ROUTING_POLICY_IDS = Object.keys(ROUTING_POLICIES) as RoutingPolicyId[];
+
+export interface ProviderStats {
+  calls: number;
+  failure_rate: number; // 0-1
+  avg_latency_ms: number;
+  avg_cost_usd: number; // Per answered call
+}
+
+export interface RouteDecision {
+  policy: RoutingPolicyId;
+  route: AIProvider[];
+  reason: string;
+  escalate_below?: number;
+  answered_by?: AIProvider; // Filled in once the item is identified
+}
+
+// Identification calls looked at for the statistics
+const STATS_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+// Fewer calls than this and a provider counts as unmeasured
+const MIN_SAMPLES = 5;
+// Share of the monthly budget under which the budget policy switches to cheapest first
+const LOW_BUDGET_SHARE = 0.25;
+// Statistics are reread at most this often (one ledger scan serves a whole batch)
+const STATS_TTL_MS = 60 * 1000;
+
+let cachedStats: { at: number; stats: Partial<Record<AIProvider, ProviderStats>> } | null = null;
+
+/**
+ * Per-provider statistics from recent identification calls in the ledger
+ */
+export async function loadProviderStats(now = Date.now()): Promise<Partial<Record<AIProvider, ProviderStats>>> {
+  if (cachedStats && now - cachedStats.at < STATS_TTL_MS) return cachedStats.stats;
+  const calls = (await getAICalls(new Date(now - STATS_WINDOW_MS).toISOString())).filter(call => call.purpose === 'identify');
+  const stats: Partial<Record<AIProvider, ProviderStats>> = {};
+  const providers = Array.from(new Set(calls.map(call => call.provider as AIProvider)));
+  for (const provider of providers) {
+    const own = calls.filter(call => call.provider === provider);
+    const answered = own.filter(call => call.ok);
+    stats[provider] = {
+      calls: own.length,
+      failure_rate: (own.length - answered.length) / own.length,
+      avg_latency_ms: answered.length ? answered.reduce((sum, call) => sum + call.latency_ms, 0) / answered.length : Infinity,
+      avg_cost_usd: answered.length ? answered.reduce((sum, call) => sum + call.cost_usd, 0) / answered.length : getProvider(provider).estCostPerCall
+    };
+  }
+  cachedStats = { at: now, stats };
+  return stats;
+}
+
+const measured = (stats: ProviderStats | undefined): stats is ProviderStats => !!stats && stats.calls >= MIN_SAMPLES;
+
+// Cost per answer: observed when there is enough history, otherwise the provider's rough figure
+const costOf = (provider: AIProvider, stats: Partial<Record<AIProvider, ProviderStats>>) =>
+  measured(stats[provider]) ? stats[provider]!.avg_cost_usd : getProvider(provider).estCostPerCall;
+
+// Sort by a metric; providers without one keep their Settings order, after the measured ones
+function orderBy(providers: AIProvider[], metric: (provider: AIProvider) => number | undefined): AIProvider[] {
+  return providers
+    .map((provider, index) => ({ provider, index, value: metric(provider) }))
+    .sort((a, b) => {
+      if (a.value === undefined || b.value === undefined) {
+        return a.value === b.value ? a.index - b.index : a.value === undefined ? 1 : -1;
+      }
+      return a.value - b.value || a.index - b.index;
+    })
+    .map(entry => entry.provider);
+}
+
+const formatUsd = (usd: number) => `$${usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+/**
+ * Order providers for one item under a policy
+ */
+export function planRoute(
+  policy: RoutingPolicyId,
+  providers: AIProvider[], // Settings order
+  stats: Partial<Record<AIProvider, ProviderStats>>,
+  budget: { monthly: number; spent: number } = { monthly: 0, spent: 0 }
+): RouteDecision {
+  const escalateBelow = ROUTING_POLICIES[policy].escalateBelow;
+  const decide = (route: AIProvider[], reason: string): RouteDecision => ({
+    policy,
+    route,
+    reason,
+    ...(escalateBelow ? { escalate_below: escalateBelow } : {})
+  });
+  const cheapest = () => {
+    const route = orderBy(providers, provider => costOf(provider, stats));
+    return { route, detail: route.map(provider => `${provider} ~${formatUsd(costOf(provider, stats))}`).join(', ') };
+  };
+
+  switch (policy) {
+    case 'cheapest': {
+      const { route, detail } = cheapest();
+      return decide(route, `Cheapest first (${detail}); escalating below ${escalateBelow}%`);
+    }
+    case 'fastest': {
+      const route = orderBy(providers, provider => measured(stats[provider]) ? stats[provider]!.avg_latency_ms : undefined);
+      const detail = route.map(provider => measured(stats[provider]) ? `${provider} ${(stats[provider]!.avg_latency_ms / 1000).toFixed(1)}s` : `${provider} unmeasured`).join(', ');
+      return decide(route, `Fastest first (${detail})`);
+    }
+    case 'reliable': {
+      const route = orderBy(providers, provider => measured(stats[provider]) ? stats[provider]!.failure_rate : undefined);
+      const detail = route.map(provider => measured(stats[provider]) ? `${provider} ${Math.round(stats[provider]!.failure_rate * 100)}% failed` : `${provider} unmeasured`).join(', ');
+      return decide(route, `Most reliable first (${detail})`);
+    }
+    case 'budget': {
+      if (budget.monthly <= 0) return decide(providers, 'No monthly budget set; Settings order');
+      const left = Math.max(0, budget.monthly - budget.spent);
+      if (left >= budget.monthly * LOW_BUDGET_SHARE) {
+        return decide(providers, `${formatUsd(left)} of ${formatUsd(budget.monthly)} budget left; Settings order`);
+      }
+      const { route, detail } = cheapest();
+      return decide(route, `Only ${formatUsd(left)} of ${formatUsd(budget.monthly)} budget left; cheapest first (${detail})`);
+    }
+    default:
+      return decide(providers, 'Settings order');
+  }
+}
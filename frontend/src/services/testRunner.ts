@@ -1,5 +1,6 @@
 import { saveBatch, getBatches, saveItem, deleteBatch, initDB, addToInventory } from './db';
-import { analyzeImage, AIKeys } from './aiService';
+import { analyzeImage, AIKeys, AIProviderSettings } from './aiService';
+import { PROVIDER_IDS } from './aiProviders';
 import { auth, isFirebaseConfigured } from './firebase';
 import { performVisionPass } from './visionService';
 import { db } from './firebase';
@@ -17,7 +18,7 @@ const TEST_IMAGE_BASE64 = "/9j/4AAQSkZJRgABAQEAYABgAAD/2wBDAAgGBgcGBQgHBwcJCQgKD
 
 export class SystemValidator {
     
-    static async runAllTests(keys: AIKeys): Promise<TestResult[]> {
+    static async runAllTests(keys: AIKeys, providerSettings: AIProviderSettings = {}): Promise<TestResult[]> {
         const results: TestResult[] = [];
         await initDB();
 
@@ -113,11 +114,11 @@ export class SystemValidator {
 
         // 4. LLM API Connectivity
         try {
-            if (!keys.openai && !keys.gemini && !keys.claude) {
+            if (!PROVIDER_IDS.some(id => keys[id]) && !providerSettings.local?.baseUrl) {
                 throw new Error("No API Keys found");
             }
             // Just test the primary one (usually Gemini) to avoid burning too many tokens
-            const aiResult = await analyzeImage(TEST_IMAGE_BASE64, keys);
+            const aiResult = await analyzeImage(TEST_IMAGE_BASE64, keys, { providerSettings });
             results.push({ 
                 name: "LLM Provider (Fallback)", 
                 passed: true, 
@@ -148,7 +149,7 @@ export class SystemValidator {
             });
 
             // Simulation: Process Item
-            const aiResult = await analyzeImage(TEST_IMAGE_BASE64, keys);
+            const aiResult = await analyzeImage(TEST_IMAGE_BASE64, keys, { providerSettings });
             await saveItem({
                 batch_id: workflowId,
                 filename: 'sim_pixel.jpg',
@@ -0,0 +1,23 @@
+import { extractTitleFromText, extractYearFromText } from './textHeuristics';
+import * as functionsCopy from '../../../functions/textHeuristics';
+
+const SAMPLES = [
+  '',
+  '\n\n',
+  'THE SATURDAY EVENING POST\nMarch 3, 1956',
+  '   \n  Route 66 Motel  \nTucumcari, N.M. 1948',
+  'A title well over fifty characters long, as some printed headings are',
+  'Printed 2101, reprinted 1999',
+  'Catalogue no. 11950'
+];
+
+test.each(SAMPLES)('the browser and Cloud Function copies agree on %j', text => {
+  expect(extractTitleFromText(text)).toBe(functionsCopy.extractTitleFromText(text));
+  expect(extractYearFromText(text)).toBe(functionsCopy.extractYearFromText(text));
+});
+
+test('reads the first line as the title and the first plausible year', () => {
+  expect(extractTitleFromText('   \n  Route 66 Motel  \nTucumcari, N.M. 1948')).toBe('Route 66 Motel');
+  expect(extractYearFromText('Printed 2101, reprinted 1999')).toBe('1999');
+  expect(extractYearFromText('Catalogue no. 11950')).toBeNull();
+});
@@ -0,0 +1,22 @@
+/**
+ * Title and year heuristics for OCR text
+ * A copy of functions/textHeuristics.js (the identifyWithVision Cloud
+ * Function's), so an item gets the same title and year whether the server or
+ * the offline fallback read it. textHeuristics.test.ts checks the copies
+ * agree; change both together.
+ */
+
+// First non-empty line, which on ephemera is usually the printed title
+export function extractTitleFromText(text: string): string | null {
+  if (!text) return null;
+  const lines = text.split('\n').filter(l => l.trim().length > 0);
+  if (lines.length === 0) return null;
+  return lines[0].trim().substring(0, 50);
+}
+
+// First plausible year (1800-2099) in the text
+export function extractYearFromText(text: string): string | null {
+  if (!text) return null;
+  const yearMatch = text.match(/\b(18|19|20)\d{2}\b/);
+  return yearMatch ? yearMatch[0] : null;
+}
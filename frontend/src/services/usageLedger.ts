@@ -0,0 +1,113 @@
+/**
+ * AI usage ledger
+ * Every provider request made by analyzeImage is measured (model, tokens from
+ * the response's usage fields, latency) and, once the pipeline knows which
+ * batch and box it belonged to, priced from the price table and stored in
+ * the 'ai_calls' IndexedDB store. The Settings dashboard sums the ledger per
+ * month, batch, box and model; the optional monthly budget pauses processing
+ * once this month's spend reaches it.
+ */
+import { AICallRecord, addAICalls, getAICalls } from './db';
+import { AIProvider, getProvider } from './aiProviders';
+
+export type { AICallRecord } from './db';
+
+// One request as measured in aiService.ts, before pricing
+export type AICallUsage = Omit<AICallRecord, 'id' | 'cost_usd' | 'batch_id' | 'box_id'>;
+
+export interface ModelPrice {
+  provider: AIProvider;
+  model: string; // Model name prefix; '' matches any model of the provider
+  input_per_mtok: number; // USD per million input tokens
+  output_per_mtok: number;
+}
+
+// List prices at the time of writing; editable in Settings
+export const DEFAULT_PRICE_TABLE: ModelPrice[] = [
+  { provider: 'gemini', model: 'gemini-1.5-pro', input_per_mtok: 1.25, output_per_mtok: 5 },
+  { provider: 'gemini', model: 'gemini-1.5-flash', input_per_mtok: 0.075, output_per_mtok: 0.3 },
+  { provider: 'gemini', model: '', input_per_mtok: 0.1, output_per_mtok: 0.4 },
+  { provider: 'openai', model: 'gpt-4o-mini', input_per_mtok: 0.15, output_per_mtok: 0.6 },
+  { provider: 'openai', model: 'gpt-4o', input_per_mtok: 2.5, output_per_mtok: 10 },
+  { provider: 'claude', model: 'claude-3-5-sonnet', input_per_mtok: 3, output_per_mtok: 15 },
+  { provider: 'claude', model: 'claude-3-haiku', input_per_mtok: 0.25, output_per_mtok: 1.25 },
+  { provider: 'local', model: '', input_per_mtok: 0, output_per_mtok: 0 }
+];
+
+export interface UsageTotals {
+  key: string;
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  avg_latency_ms: number;
+}
+
+// Most specific entry for the call's model
+export function priceFor(call: Pick<AICallUsage, 'provider' | 'model'>, table: ModelPrice[]): ModelPrice | undefined {
+  return table
+    .filter(price => price.provider === call.provider && call.model.startsWith(price.model))
+    .sort((a, b) => b.model.length - a.model.length)[0];
+}
+
+/**
+ * USD for one call. Failed calls are free; a successful call whose response
+ * carried no token counts (some local servers) uses the provider's rough
+ * per-call figure.
+ */
+export function estimateCost(call: AICallUsage, table: ModelPrice[]): number {
+  if (!call.ok) return 0;
+  if (call.input_tokens === 0 && call.output_tokens === 0) {
+    return getProvider(call.provider as AIProvider)?.estCostPerCall || 0;
+  }
+  const price = priceFor(call, table);
+  if (!price) return 0;
+  return (call.input_tokens * price.input_per_mtok + call.output_tokens * price.output_per_mtok) / 1e6;
+}
+
+/**
+ * Price and store the calls behind one identification
+ */
+export async function recordAICalls(
+  calls: AICallUsage[] | undefined,
+  table: ModelPrice[],
+  context: { batch_id?: string; box_id?: string } = {}
+): Promise<void> {
+  if (!calls?.length) return;
+  await addAICalls(calls.map(call => ({ ...call, cost_usd: estimateCost(call, table), ...context })));
+}
+
+// Start of the current calendar month (local time), as an ISO string
+export function monthStart(now = new Date()): string {
+  return new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
+}
+
+export function monthKey(at: string): string {
+  const date = new Date(at);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export async function getMonthSpend(): Promise<number> {
+  const calls = await getAICalls(monthStart());
+  return calls.reduce((sum, call) => sum + call.cost_usd, 0);
+}
+
+/**
+ * Totals per key (month, batch, box, model...), most expensive first
+ */
+export function summarizeUsage(records: AICallRecord[], keyOf: (record: AICallRecord) => string | undefined): UsageTotals[] {
+  const totals = new Map<string, UsageTotals & { latency_total: number }>();
+  for (const record of records) {
+    const key = keyOf(record) || '—';
+    const entry = totals.get(key) || { key, calls: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0, avg_latency_ms: 0, latency_total: 0 };
+    entry.calls++;
+    entry.input_tokens += record.input_tokens;
+    entry.output_tokens += record.output_tokens;
+    entry.cost_usd += record.cost_usd;
+    entry.latency_total += record.latency_ms;
+    totals.set(key, entry);
+  }
+  return Array.from(totals.values())
+    .map(({ latency_total, ...entry }) => ({ ...entry, avg_latency_ms: Math.round(latency_total / entry.calls) }))
+    .sort((a, b) => b.cost_usd - a.cost_usd);
+}
@@ -0,0 +1,80 @@
+import 'whatwg-fetch'; // For its Response; the provider's fetch is mocked below
+import { LocalTextExtractor, extractTextContext, setLocalTextExtractor } from './visionService';
+import { analyzeImage } from './aiService';
+
+jest.mock('./imagePreprocessor', () => ({ preprocessImage: jest.fn() }));
+
+const IMAGE = 'A'.repeat(200);
+
+// Offline stand-in for the text stage: canned text, labels and a barcode
+const standIn: LocalTextExtractor = async () => ({
+  text: 'THE SATURDAY EVENING POST\nMarch 3, 1956',
+  labels: ['magazine'],
+  barcodes: ['0123456789012']
+});
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => setLocalTextExtractor(null));
+
+describe('extractTextContext', () => {
+  test('off runs nothing', async () => {
+    const extractor = jest.fn(standIn);
+    setLocalTextExtractor(extractor);
+    expect(await extractTextContext(IMAGE, 'off')).toBeNull();
+    expect(extractor).not.toHaveBeenCalled();
+  });
+
+  test('local uses the stand-in', async () => {
+    setLocalTextExtractor(standIn);
+    expect(await extractTextContext(IMAGE, 'local')).toEqual({
+      text: 'THE SATURDAY EVENING POST\nMarch 3, 1956',
+      labels: ['magazine'],
+      barcodes: ['0123456789012'],
+      source: 'local'
+    });
+  });
+
+  test('auto falls back to the stand-in without the Cloud Function', async () => {
+    setLocalTextExtractor(standIn);
+    expect((await extractTextContext(IMAGE, 'auto'))?.source).toBe('local');
+  });
+
+  test('a failing stand-in yields nothing rather than throwing', async () => {
+    setLocalTextExtractor(async () => { throw new Error('No OCR engine'); });
+    expect(await extractTextContext(IMAGE, 'local')).toBeNull();
+  });
+});
+
+test('the extracted text goes into the prompt and is stored with the answer', async () => {
+  setLocalTextExtractor(standIn);
+  const fetchMock = jest.fn(async (_url: RequestInfo, _init?: RequestInit) => new Response(JSON.stringify({
+    choices: [{ message: { content: JSON.stringify({ title: 'The Saturday Evening Post', type: 'magazine', year: '1956', notes: '', confidence: 90 }) } }]
+  }), { status: 200 }));
+  const realFetch = window.fetch;
+  window.fetch = fetchMock as typeof window.fetch;
+  try {
+    const result = await analyzeImage(IMAGE, { openai: 'sk-test' }, {
+      priority: ['openai'],
+      imageIsPrepared: true,
+      textExtraction: 'local'
+    });
+
+    const prompt: string = JSON.parse(fetchMock.mock.calls[0][1]!.body as string).messages[0].content
+      .find((part: any) => part.type === 'text').text;
+    expect(prompt).toContain('THE SATURDAY EVENING POST\nMarch 3, 1956');
+    expect(prompt).toContain('Detected labels: magazine');
+    expect(prompt).toContain('Barcodes: 0123456789012');
+    expect(result.raw_metadata).toMatchObject({
+      ocr_text: 'THE SATURDAY EVENING POST\nMarch 3, 1956',
+      ocr_labels: ['magazine'],
+      ocr_source: 'local',
+      barcodes: ['0123456789012']
+    });
+  } finally {
+    window.fetch = realFetch;
+  }
+});
@@ -2,6 +2,8 @@
 import { httpsCallable, getFunctions } from 'firebase/functions';
 import { app, isFirebaseConfigured } from './firebase';
 import { AIResult } from './aiService';
+import { base64ToBlob } from './imagePreprocessCore';
+import { recognizeText } from './localOcr';
 
 /**
  * Result from the Cloud Vision pass
@@ -44,3 +46,93 @@ export async function performVisionPass(base64Image: string): Promise<VisionPass
     return null;
   }
 }
+
+/**
+ * Text-extraction stage
+ * Runs before the LLM call: OCR text, labels and barcodes read off the photo
+ * are handed to the model as context, so printed titles, publishers and
+ * dates are transcribed instead of guessed.
+ *
+ * - cloud: the identifyWithVision Cloud Function (Cloud Vision OCR + labels)
+ * - local: an in-browser extractor, no network (see setLocalTextExtractor)
+ * - auto:  cloud, then local when the function is unavailable
+ */
+export type TextExtractionMode = 'off' | 'cloud' | 'local' | 'auto';
+
+export interface TextExtraction {
+  text: string;
+  labels: string[];
+  barcodes: string[];
+  source: 'cloud' | 'local';
+}
+
+export type LocalTextExtractor = (base64Image: string) => Promise<Omit<TextExtraction, 'source'> | null>;
+
+// Cloud Vision labels below this score are too vague to help the model
+const MIN_LABEL_SCORE = 0.7;
+
+// On-device: Shape Detection API (Chromium) TextDetector / BarcodeDetector,
+// with WASM OCR for the text where TextDetector isn't available
+const browserTextExtractor: LocalTextExtractor = async (base64Image) => {
+  const detectors = window as any;
+  const canDetect = typeof createImageBitmap !== 'undefined';
+  const bitmap = canDetect && (detectors.TextDetector || detectors.BarcodeDetector)
+    ? await createImageBitmap(base64ToBlob(base64Image))
+    : null;
+  try {
+    const [text, codes] = await Promise.all([
+      bitmap && detectors.TextDetector
+        ? new detectors.TextDetector().detect(bitmap)
+          .then((blocks: any[]) => blocks.map(block => block.rawValue).filter(Boolean).join('\n'))
+        : recognizeText(base64Image).then(result => result.text),
+      bitmap && detectors.BarcodeDetector ? new detectors.BarcodeDetector().detect(bitmap).catch(() => []) : []
+    ]);
+    return { text, labels: [], barcodes: codes.map((code: any) => code.rawValue).filter(Boolean) };
+  } finally {
+    bitmap?.close();
+  }
+};
+
+let localTextExtractor: LocalTextExtractor = browserTextExtractor;
+
+/**
+ * Swap the local stage, e.g. for a WASM OCR engine or a canned stand-in when
+ * testing offline
+ */
+export function setLocalTextExtractor(extractor: LocalTextExtractor | null) {
+  localTextExtractor = extractor || browserTextExtractor;
+}
+
+async function extractWithCloud(base64Image: string): Promise<TextExtraction | null> {
+  const pass = await performVisionPass(base64Image);
+  if (!pass?.raw) return null;
+  return {
+    text: pass.raw.text || '',
+    labels: (pass.raw.labels || [])
+      .filter((label: { score: number }) => label.score >= MIN_LABEL_SCORE)
+      .map((label: { description: string }) => label.description),
+    barcodes: [],
+    source: 'cloud'
+  };
+}
+
+async function extractLocally(base64Image: string): Promise<TextExtraction | null> {
+  try {
+    const result = await localTextExtractor(base64Image);
+    return result ? { ...result, source: 'local' } : null;
+  } catch (error) {
+    console.warn('Local text extraction failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Read text, labels and barcodes from one image. Null when the stage is off
+ * or nothing could run; never throws.
+ */
+export async function extractTextContext(base64Image: string, mode: TextExtractionMode): Promise<TextExtraction | null> {
+  if (mode === 'off') return null;
+  const cloud = mode === 'cloud' || mode === 'auto' ? await extractWithCloud(base64Image) : null;
+  if (cloud || mode === 'cloud') return cloud;
+  return extractLocally(base64Image);
+}
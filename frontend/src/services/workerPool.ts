@@ -0,0 +1,28 @@
+/**
+ * Bounded worker pool over a live queue
+ * At most `concurrency` workers each take the next item from the front of
+ * `queue` until it is empty. The queue may be reordered or have items removed
+ * while the pool runs (skip / move-to-front); only items still queued are affected.
+ * A failing worker does not stop the pool (workers are expected to record
+ * their own errors).
+ */
+export async function drainQueue<T>(
+  queue: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  const limit = Math.max(1, Math.min(concurrency, queue.length));
+
+  const runWorker = async () => {
+    while (queue.length > 0) {
+      const item = queue.shift()!;
+      try {
+        await worker(item);
+      } catch (err) {
+        console.error('Worker pool task failed:', err);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: limit }, runWorker));
+}
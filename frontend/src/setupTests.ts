@@ -0,0 +1,21 @@
+// Jest setup (loaded by react-scripts before every test file)
+// jsdom lacks IndexedDB, BroadcastChannel and structuredClone; services use
+// all three, so tests get fake-indexeddb and Node's implementations.
+import 'fake-indexeddb/auto';
+import { BroadcastChannel as NodeBroadcastChannel } from 'worker_threads';
+import { deserialize, serialize } from 'v8';
+
+if (typeof globalThis.structuredClone === 'undefined') {
+  globalThis.structuredClone = ((value: any) => deserialize(serialize(value))) as typeof structuredClone;
+}
+
+if (typeof globalThis.BroadcastChannel === 'undefined') {
+  // Unref'd so an open channel (db.ts keeps one) doesn't hold Jest open
+  class UnrefBroadcastChannel extends NodeBroadcastChannel {
+    constructor(name: string) {
+      super(name);
+      this.unref();
+    }
+  }
+  globalThis.BroadcastChannel = UnrefBroadcastChannel as unknown as typeof BroadcastChannel;
+}
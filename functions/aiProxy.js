@@ -0,0 +1,223 @@
+const crypto = require('crypto');
+const admin = require('firebase-admin');
+
+/**
+ * AI proxy
+ * The browser builds each identification request exactly as it would for a
+ * direct call, minus the API key, and this function forwards it to the
+ * provider with the key added, so keys never reach the browser. A user's own
+ * key is stored encrypted (AES-256-GCM) in aiKeys/{uid}, which no client can
+ * read; without one the organisation's key is used. Every call the provider
+ * answers counts against the user's monthly quota in
+ * aiUsage/{uid}/months/{YYYY-MM}; failed and timed-out calls are refunded.
+ *
+ * Configuration (functions/.env or secrets):
+ *   AI_KEYS_SECRET          encrypts stored user keys (required to store them)
+ *   GEMINI_API_KEY, OPENAI_API_KEY, CLAUDE_API_KEY   organisation keys (optional)
+ *   AI_PROXY_MONTHLY_CALLS  monthly call quota per user (default 500);
+ *                           aiQuota/{uid}.monthly_calls overrides it per user
+ */
+
+// Where each provider's request goes and how the key is attached. The body
+// comes from the browser's provider registry (frontend aiProviders.ts).
+const PROVIDERS = {
+  gemini: {
+    orgKeyEnv: 'GEMINI_API_KEY',
+    url: (model, apiKey) => `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+    headers: () => ({}),
+    usage: (data) => data.usageMetadata && {
+      input_tokens: data.usageMetadata.promptTokenCount || 0,
+      output_tokens: data.usageMetadata.candidatesTokenCount || 0
+    }
+  },
+  openai: {
+    orgKeyEnv: 'OPENAI_API_KEY',
+    url: () => 'https://api.openai.com/v1/chat/completions',
+    headers: (apiKey) => ({ 'Authorization': `Bearer ${apiKey}` }),
+    usage: (data) => data.usage && {
+      input_tokens: data.usage.prompt_tokens || 0,
+      output_tokens: data.usage.completion_tokens || 0
+    }
+  },
+  claude: {
+    orgKeyEnv: 'CLAUDE_API_KEY',
+    url: () => 'https://api.anthropic.com/v1/messages',
+    headers: (apiKey) => ({ 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' }),
+    usage: (data) => data.usage && {
+      input_tokens: data.usage.input_tokens || 0,
+      output_tokens: data.usage.output_tokens || 0
+    }
+  }
+};
+
+const DEFAULT_MONTHLY_CALLS = 500;
+const MAX_BODY_CHARS = 9 * 1024 * 1024; // Callable requests are capped at 10 MB
+const MODEL_NAME = /^[\w.:-]+$/; // Goes into the Gemini URL path
+const PROVIDER_TIMEOUT_MS = 50000; // Under the browser's 60 s callable timeout
+
+// Carries an HttpsError code; index.js converts it
+class ProxyError extends Error {
+  constructor(code, message, details) {
+    super(message);
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// ========== KEY ENCRYPTION ==========
+function encryptionKey(secret) {
+  if (!secret) throw new ProxyError('failed-precondition', 'AI_KEYS_SECRET is not configured');
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+function encryptKey(plaintext, secret) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(secret), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return {
+    ciphertext: ciphertext.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64')
+  };
+}
+
+function decryptKey(stored, secret) {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(secret), Buffer.from(stored.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(stored.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(stored.ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+// ========== QUOTA ==========
+function monthKey(date = new Date()) {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+// Count the call against this month's quota, or refuse it
+async function reserveCall(db, uid, env) {
+  const usageRef = db.doc(`aiUsage/${uid}/months/${monthKey()}`);
+  const quotaSnap = await db.doc(`aiQuota/${uid}`).get();
+  const limit = (quotaSnap.exists && quotaSnap.data().monthly_calls) ||
+    parseInt(env.AI_PROXY_MONTHLY_CALLS || '', 10) || DEFAULT_MONTHLY_CALLS;
+  await db.runTransaction(async (tx) => {
+    const usage = await tx.get(usageRef);
+    const calls = usage.exists ? usage.data().calls || 0 : 0;
+    if (calls >= limit) {
+      throw new ProxyError('resource-exhausted', `Monthly AI quota of ${limit} calls reached`, { limit, calls });
+    }
+    tx.set(usageRef, { calls: calls + 1, updated_at: new Date().toISOString() }, { merge: true });
+  });
+  return usageRef;
+}
+
+// Give back a reserved call the provider didn't answer
+function refundCall(usageRef) {
+  return usageRef.set({ calls: admin.firestore.FieldValue.increment(-1) }, { merge: true });
+}
+
+// ========== REQUESTS ==========
+function validateRequest(data) {
+  const { provider, model, body } = data || {};
+  if (!PROVIDERS[provider]) throw new ProxyError('invalid-argument', `Unknown provider "${provider}"`);
+  if (typeof model !== 'string' || !MODEL_NAME.test(model)) throw new ProxyError('invalid-argument', 'A model name is required');
+  if (typeof body !== 'string' || body.length > MAX_BODY_CHARS) throw new ProxyError('invalid-argument', 'The request body is missing or too large');
+  let parsed;
+  try {
+    parsed = JSON.parse(body);
+  } catch (err) {
+    throw new ProxyError('invalid-argument', 'The request body is not JSON');
+  }
+  // OpenAI and Claude name the model in the body; it has to be the one counted
+  if (parsed.model !== undefined && parsed.model !== model) {
+    throw new ProxyError('invalid-argument', 'The body names a different model');
+  }
+  return { provider, model, body };
+}
+
+// The user's own key, else the organisation's
+async function resolveApiKey(db, uid, provider, env) {
+  const snap = await db.doc(`aiKeys/${uid}`).get();
+  const stored = snap.exists ? snap.data()[provider] : null;
+  if (stored) return { apiKey: decryptKey(stored, env.AI_KEYS_SECRET), source: 'user' };
+  const orgKey = env[PROVIDERS[provider].orgKeyEnv];
+  if (orgKey) return { apiKey: orgKey, source: 'org' };
+  throw new ProxyError('failed-precondition', `No ${provider} key is stored for this account`);
+}
+
+/**
+ * Callable body: forward one request. Provider errors come back as
+ * { status, error } rather than throwing, so the browser handles them like a
+ * failed direct call; a successful answer is { status, data }.
+ */
+function createAIProxyHandler({ db, fetch, env, timeoutMs = PROVIDER_TIMEOUT_MS }) {
+  return async (data, uid) => {
+    const request = validateRequest(data);
+    const { apiKey, source } = await resolveApiKey(db, uid, request.provider, env);
+    const usageRef = await reserveCall(db, uid, env);
+
+    const definition = PROVIDERS[request.provider];
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    let response;
+    let answer;
+    let errorText;
+    try {
+      response = await fetch(definition.url(request.model, apiKey), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...definition.headers(apiKey) },
+        body: request.body,
+        signal: controller.signal
+      });
+      if (response.ok) answer = await response.json();
+      else errorText = (await response.text()).substring(0, 500);
+    } catch (err) {
+      await refundCall(usageRef);
+      if (controller.signal.aborted) {
+        throw new ProxyError('deadline-exceeded', `${request.provider} did not answer within ${timeoutMs / 1000} s`);
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+    }
+    if (!response.ok) {
+      await refundCall(usageRef);
+      return { status: response.status, error: errorText, key_source: source };
+    }
+    const usage = definition.usage(answer);
+    if (usage) {
+      await usageRef.set({
+        input_tokens: admin.firestore.FieldValue.increment(usage.input_tokens),
+        output_tokens: admin.firestore.FieldValue.increment(usage.output_tokens)
+      }, { merge: true });
+    }
+    return { status: response.status, data: answer, key_source: source };
+  };
+}
+
+/**
+ * Callable body: store (or, given an empty key, remove) the user's key for a provider
+ */
+function createSaveKeyHandler({ db, env }) {
+  return async (data, uid) => {
+    const { provider, apiKey } = data || {};
+    if (!PROVIDERS[provider]) throw new ProxyError('invalid-argument', `Unknown provider "${provider}"`);
+    const keysRef = db.doc(`aiKeys/${uid}`);
+    const trimmed = typeof apiKey === 'string' ? apiKey.trim() : '';
+    if (!trimmed) {
+      await keysRef.set({ [provider]: admin.firestore.FieldValue.delete() }, { merge: true });
+      return { stored: false };
+    }
+    await keysRef.set({ [provider]: encryptKey(trimmed, env.AI_KEYS_SECRET) }, { merge: true });
+    return { stored: true };
+  };
+}
+
+module.exports = {
+  PROVIDERS,
+  ProxyError,
+  createAIProxyHandler,
+  createSaveKeyHandler,
+  decryptKey,
+  encryptKey,
+  monthKey,
+  validateRequest
+};
@@ -1,6 +1,8 @@
 const functions = require('firebase-functions');
 const admin = require('firebase-admin');
 const vision = require('@google-cloud/vision');
+const { ProxyError, createAIProxyHandler, createSaveKeyHandler } = require('./aiProxy');
+const { extractTitleFromText, extractYearFromText } = require('./textHeuristics');
 
 admin.initializeApp();
 
@@ -71,14 +73,6 @@ exports.identifyWithVision = functions.https.onCall(async (data, context) => {
   }
 });
 
-// Helper: Extract a brief title from OCR text (first line or first few words)
-function extractTitleFromText(text) {
-  if (!text) return null;
-  const lines = text.split('\n').filter(l => l.trim().length > 0);
-  if (lines.length === 0) return null;
-  return lines[0].substring(0, 50);
-}
-
 // Helper: Map Vision labels to our app's specific types
 function mapLabelsToType(labels) {
   const labelNames = labels.map(l => l.description.toLowerCase());
@@ -89,12 +83,6 @@ function mapLabelsToType(labels) {
   return 'other';
 }
 
-// Helper: Attempt to find a year in the OCR text
-function extractYearFromText(text) {
-  const yearMatch = text.match(/\b(18|19|20)\d{2}\b/);
-  return yearMatch ? yearMatch[0] : null;
-}
-
 /**
  * Process Queue Item - Server-side batch processing
  * Triggered when a new item is added to the processing queue
@@ -174,3 +162,35 @@ exports.processQueueItem = functions.firestore
       });
     }
   });
+
+// Run an AI proxy handler for the signed-in user, surfacing its errors as HttpsErrors
+function aiCallable(handler) {
+  return functions.https.onCall(async (data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        'unauthenticated',
+        'The function must be called while authenticated.'
+      );
+    }
+    try {
+      return await handler(data, context.auth.uid);
+    } catch (error) {
+      if (error instanceof ProxyError) {
+        throw new functions.https.HttpsError(error.code, error.message, error.details);
+      }
+      console.error('AI proxy error:', error);
+      throw new functions.https.HttpsError('internal', 'AI proxy failed', error.message);
+    }
+  });
+}
+
+/**
+ * AI Proxy - forwards an identification request to Gemini, OpenAI or Claude
+ * with a key held on the server (see aiProxy.js), within the user's monthly quota
+ */
+exports.aiProxy = aiCallable(createAIProxyHandler({ db: admin.firestore(), fetch, env: process.env }));
+
+/**
+ * Save AI Key - stores the user's own provider key, encrypted, for aiProxy
+ */
+exports.saveAIKey = aiCallable(createSaveKeyHandler({ db: admin.firestore(), env: process.env }));
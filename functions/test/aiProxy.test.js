@@ -0,0 +1,161 @@
+// AI proxy tests. Run with `npm test`, which starts the Firestore emulator
+// (firebase-tools, a devDependency; the emulator needs Java); without it
+// (plain `node --test test/`) only the tests that need no database run.
+const { test, describe, before, beforeEach } = require('node:test');
+const assert = require('node:assert');
+const admin = require('firebase-admin');
+const {
+  ProxyError,
+  createAIProxyHandler,
+  createSaveKeyHandler,
+  decryptKey,
+  encryptKey,
+  monthKey,
+  validateRequest
+} = require('../aiProxy');
+
+const SECRET = 'test-secret';
+const GEMINI_BODY = JSON.stringify({ contents: [{ parts: [{ text: 'Identify this item' }] }] });
+const withEmulator = { skip: !process.env.FIRESTORE_EMULATOR_HOST && 'needs the Firestore emulator (npm test)' };
+
+// Records each request and answers like the provider would
+function fakeFetch(status = 200, body = { usageMetadata: { promptTokenCount: 1200, candidatesTokenCount: 80 } }) {
+  const calls = [];
+  const fetch = async (url, init) => {
+    calls.push({ url, init });
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      json: async () => body,
+      text: async () => JSON.stringify(body)
+    };
+  };
+  return { fetch, calls };
+}
+
+describe('key encryption', () => {
+  test('round-trips a key', () => {
+    const stored = encryptKey('sk-secret', SECRET);
+    assert.notStrictEqual(stored.ciphertext, 'sk-secret');
+    assert.strictEqual(decryptKey(stored, SECRET), 'sk-secret');
+  });
+
+  test('refuses the wrong secret', () => {
+    assert.throws(() => decryptKey(encryptKey('sk-secret', SECRET), 'other'));
+  });
+
+  test('needs a secret', () => {
+    assert.throws(() => encryptKey('sk-secret', ''), ProxyError);
+  });
+});
+
+describe('validateRequest', () => {
+  test('accepts a request built by the browser', () => {
+    assert.deepStrictEqual(validateRequest({ provider: 'gemini', model: 'gemini-1.5-flash', body: GEMINI_BODY }).provider, 'gemini');
+  });
+
+  test('rejects unknown providers, odd model names and bad bodies', () => {
+    assert.throws(() => validateRequest({ provider: 'local', model: 'llava', body: GEMINI_BODY }), /Unknown provider/);
+    assert.throws(() => validateRequest({ provider: 'gemini', model: '../models', body: GEMINI_BODY }), /model name/);
+    assert.throws(() => validateRequest({ provider: 'gemini', model: 'gemini-1.5-flash', body: '{' }), /not JSON/);
+  });
+
+  test('the body must name the requested model', () => {
+    const body = JSON.stringify({ model: 'gpt-4o', messages: [] });
+    assert.throws(() => validateRequest({ provider: 'openai', model: 'gpt-4o-mini', body }), /different model/);
+  });
+});
+
+test('monthKey is the UTC month', () => {
+  assert.strictEqual(monthKey(new Date('2024-03-31T23:30:00-02:00')), '2024-04');
+});
+
+describe('with the Firestore emulator', withEmulator, () => {
+  let db;
+  let uid;
+  const env = { AI_KEYS_SECRET: SECRET, GEMINI_API_KEY: 'org-gemini-key', AI_PROXY_MONTHLY_CALLS: '2' };
+
+  before(() => {
+    admin.initializeApp({ projectId: 'demo-ai-proxy' });
+    db = admin.firestore();
+  });
+
+  beforeEach(() => {
+    uid = `user-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  });
+
+  test('forwards with the organisation key and counts usage', async () => {
+    const { fetch, calls } = fakeFetch();
+    const result = await createAIProxyHandler({ db, fetch, env })({ provider: 'gemini', model: 'gemini-1.5-flash', body: GEMINI_BODY }, uid);
+
+    assert.strictEqual(result.status, 200);
+    assert.strictEqual(result.key_source, 'org');
+    assert.match(calls[0].url, /gemini-1\.5-flash:generateContent\?key=org-gemini-key$/);
+    assert.strictEqual(calls[0].init.body, GEMINI_BODY);
+
+    const usage = (await db.doc(`aiUsage/${uid}/months/${monthKey()}`).get()).data();
+    assert.strictEqual(usage.calls, 1);
+    assert.strictEqual(usage.input_tokens, 1200);
+    assert.strictEqual(usage.output_tokens, 80);
+  });
+
+  test('prefers the user\'s stored key, and forgets it when cleared', async () => {
+    await createSaveKeyHandler({ db, env })({ provider: 'gemini', apiKey: ' user-key ' }, uid);
+    const stored = (await db.doc(`aiKeys/${uid}`).get()).data().gemini;
+    assert.strictEqual(decryptKey(stored, SECRET), 'user-key');
+
+    const { fetch, calls } = fakeFetch();
+    const handler = createAIProxyHandler({ db, fetch, env });
+    const result = await handler({ provider: 'gemini', model: 'gemini-1.5-flash', body: GEMINI_BODY }, uid);
+    assert.strictEqual(result.key_source, 'user');
+    assert.match(calls[0].url, /key=user-key$/);
+
+    await createSaveKeyHandler({ db, env })({ provider: 'gemini', apiKey: '' }, uid);
+    assert.strictEqual((await handler({ provider: 'gemini', model: 'gemini-1.5-flash', body: GEMINI_BODY }, uid)).key_source, 'org');
+  });
+
+  test('passes provider errors back without throwing, and doesn\'t count them', async () => {
+    const { fetch } = fakeFetch(404, { error: 'model not found' });
+    const result = await createAIProxyHandler({ db, fetch, env })({ provider: 'gemini', model: 'gemini-0', body: GEMINI_BODY }, uid);
+    assert.strictEqual(result.status, 404);
+    assert.match(result.error, /model not found/);
+    assert.strictEqual((await db.doc(`aiUsage/${uid}/months/${monthKey()}`).get()).data().calls, 0);
+  });
+
+  test('gives up on a provider that doesn\'t answer, and doesn\'t count the call', async () => {
+    const hanging = (url, init) => new Promise((resolve, reject) => {
+      init.signal.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+    });
+    const handler = createAIProxyHandler({ db, fetch: hanging, env, timeoutMs: 50 });
+    await assert.rejects(handler({ provider: 'gemini', model: 'gemini-1.5-flash', body: GEMINI_BODY }, uid),
+      (err) => err instanceof ProxyError && err.code === 'deadline-exceeded');
+    assert.strictEqual((await db.doc(`aiUsage/${uid}/months/${monthKey()}`).get()).data().calls, 0);
+  });
+
+  test('refuses calls over the monthly quota', async () => {
+    const { fetch, calls } = fakeFetch();
+    const handler = createAIProxyHandler({ db, fetch, env });
+    const request = { provider: 'gemini', model: 'gemini-1.5-flash', body: GEMINI_BODY };
+    await handler(request, uid);
+    await handler(request, uid);
+    await assert.rejects(handler(request, uid), (err) => err instanceof ProxyError && err.code === 'resource-exhausted');
+    assert.strictEqual(calls.length, 2);
+  });
+
+  test('a per-user quota overrides the default', async () => {
+    await db.doc(`aiQuota/${uid}`).set({ monthly_calls: 1 });
+    const { fetch } = fakeFetch();
+    const handler = createAIProxyHandler({ db, fetch, env });
+    const request = { provider: 'gemini', model: 'gemini-1.5-flash', body: GEMINI_BODY };
+    await handler(request, uid);
+    await assert.rejects(handler(request, uid), /quota of 1 calls/);
+  });
+
+  test('without any key the call is refused before it is counted', async () => {
+    const { fetch } = fakeFetch();
+    const handler = createAIProxyHandler({ db, fetch, env });
+    const body = JSON.stringify({ model: 'claude-3-haiku-20240307', messages: [] });
+    await assert.rejects(handler({ provider: 'claude', model: 'claude-3-haiku-20240307', body }, uid), /No claude key/);
+    assert.strictEqual((await db.doc(`aiUsage/${uid}/months/${monthKey()}`).get()).exists, false);
+  });
+});
@@ -0,0 +1,24 @@
+// Text heuristics for the identifyWithVision Cloud Function (index.js). The
+// browser's offline OCR fallback keeps its own copy in
+// frontend/src/services/textHeuristics.ts; a frontend test checks the two
+// give the same answers, so change both together.
+
+// First non-empty line, which on ephemera is usually the printed title
+function extractTitleFromText(text) {
+  if (!text) return null;
+  var lines = text.split('\n').filter(function (l) { return l.trim().length > 0; });
+  if (lines.length === 0) return null;
+  return lines[0].trim().substring(0, 50);
+}
+
+// First plausible year (1800-2099) in the text
+function extractYearFromText(text) {
+  if (!text) return null;
+  var yearMatch = text.match(/\b(18|19|20)\d{2}\b/);
+  return yearMatch ? yearMatch[0] : null;
+}
+
+module.exports = {
+  extractTitleFromText: extractTitleFromText,
+  extractYearFromText: extractYearFromText
+};